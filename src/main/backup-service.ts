@@ -0,0 +1,274 @@
+/**
+ * Local database backups
+ * Online copies of the database taken on a schedule, on demand, before schema
+ * migrations and before a restore. Automatic backups are rotated; manual ones
+ * are kept until deleted.
+ */
+
+import Database from 'better-sqlite3';
+import path from 'path';
+import fs from 'fs';
+import { app, shell } from 'electron';
+import { db, getBackupDirectory, getNewBackupPath, getPendingRestorePath } from './database';
+import { dbOperations } from './db-operations';
+import { getSQLiteSchemaVersion, LATEST_SQLITE_SCHEMA_VERSION } from './sqlite-migrations';
+
+export type BackupKind = 'scheduled' | 'manual' | 'pre-migration' | 'pre-restore';
+
+export interface BackupInfo {
+  fileName: string;
+  kind: BackupKind;
+  schemaVersion: number;
+  createdAt: string; // ISO timestamp
+  size: number; // Bytes
+}
+
+export interface BackupPreview {
+  fileName: string;
+  schemaVersion: number;
+  bookmarks: number;
+  executables: number;
+  scripts: number;
+  trashed: number;
+  tags: number;
+}
+
+export interface BackupPolicy {
+  enabled: boolean;
+  intervalHours: number;
+  keepCount: number; // Automatic backups of each kind to keep
+}
+
+const DEFAULT_BACKUP_POLICY: BackupPolicy = {
+  enabled: true,
+  intervalHours: 24,
+  keepCount: 7,
+};
+
+const MAX_BACKUP_INTERVAL_HOURS = 7 * 24;
+const MAX_BACKUP_KEEP_COUNT = 100;
+const STARTUP_BACKUP_DELAY_MS = 60 * 1000; // leave startup and the first sync alone
+const BACKUP_RETRY_DELAY_MS = 60 * 60 * 1000;
+const RESTART_DELAY_MS = 1000;
+
+const BACKUP_FILE_PATTERN =
+  /^app-database-v(\d+)-(scheduled|manual|pre-migration|pre-restore)-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.db$/;
+
+let backupTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Read a backup's kind, schema version and time from its file name
+ */
+function describeBackup(fileName: string): BackupInfo | null {
+  const match = BACKUP_FILE_PATTERN.exec(fileName);
+  if (!match) {
+    return null;
+  }
+
+  const [, version, kind, date, hours, minutes, seconds, millis] = match;
+  return {
+    fileName,
+    kind: kind as BackupKind,
+    schemaVersion: Number(version),
+    createdAt: `${date}T${hours}:${minutes}:${seconds}.${millis}Z`,
+    size: fs.statSync(path.join(getBackupDirectory(), fileName)).size,
+  };
+}
+
+/**
+ * Full path of a backup, refusing anything that is not a backup file in the backups folder
+ */
+function resolveBackupPath(fileName: string): string {
+  if (path.basename(fileName) !== fileName || !BACKUP_FILE_PATTERN.test(fileName)) {
+    throw new Error('Not a database backup');
+  }
+  const filePath = path.join(getBackupDirectory(), fileName);
+  if (!fs.existsSync(filePath)) {
+    throw new Error('Backup not found');
+  }
+  return filePath;
+}
+
+/**
+ * Delete the oldest automatic backups of each kind beyond the retention count
+ */
+export function rotateBackups(keepCount: number = getBackupPolicy().keepCount): void {
+  const automatic: BackupKind[] = ['scheduled', 'pre-migration', 'pre-restore'];
+  const backups = listBackups();
+
+  for (const kind of automatic) {
+    for (const backup of backups.filter(b => b.kind === kind).slice(keepCount)) {
+      fs.rmSync(path.join(getBackupDirectory(), backup.fileName), { force: true });
+      console.log('🗑️ Rotated out old database backup:', backup.fileName);
+    }
+  }
+}
+
+/**
+ * Get the backup schedule and retention
+ */
+export function getBackupPolicy(): BackupPolicy {
+  const readNumber = (key: string, fallback: number) => {
+    const value = Number(dbOperations.getSetting(key)?.value);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+  const enabled = dbOperations.getSetting('backup_auto_enabled');
+
+  return {
+    enabled: enabled ? enabled.value === 'true' : DEFAULT_BACKUP_POLICY.enabled,
+    intervalHours: readNumber('backup_interval_hours', DEFAULT_BACKUP_POLICY.intervalHours),
+    keepCount: readNumber('backup_keep_count', DEFAULT_BACKUP_POLICY.keepCount),
+  };
+}
+
+/**
+ * Save the backup schedule and retention and apply them
+ */
+export function setBackupPolicy(policy: BackupPolicy): BackupPolicy {
+  if (!Number.isFinite(policy.intervalHours) || !Number.isFinite(policy.keepCount)) {
+    throw new Error('Backup interval and retention must be numbers');
+  }
+
+  const clamp = (value: number, max: number) => Math.min(Math.max(Math.round(value), 1), max);
+  dbOperations.setSetting('backup_auto_enabled', String(policy.enabled));
+  dbOperations.setSetting('backup_interval_hours', String(clamp(policy.intervalHours, MAX_BACKUP_INTERVAL_HOURS)));
+  dbOperations.setSetting('backup_keep_count', String(clamp(policy.keepCount, MAX_BACKUP_KEEP_COUNT)));
+
+  const saved = getBackupPolicy();
+  rotateBackups(saved.keepCount);
+  startBackupSchedule();
+  return saved;
+}
+
+/**
+ * All backups in the backups folder, newest first
+ */
+export function listBackups(): BackupInfo[] {
+  const backupDir = getBackupDirectory();
+  if (!fs.existsSync(backupDir)) {
+    return [];
+  }
+
+  return fs.readdirSync(backupDir)
+    .map(describeBackup)
+    .filter((backup): backup is BackupInfo => backup !== null)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Take an online backup of the database while the app keeps using it
+ */
+export async function createBackup(kind: BackupKind = 'manual'): Promise<BackupInfo> {
+  const backupPath = getNewBackupPath(kind, getSQLiteSchemaVersion());
+  await db.backup(backupPath);
+  console.log('💾 Database backed up to:', backupPath);
+
+  rotateBackups(getBackupPolicy().keepCount);
+  return describeBackup(path.basename(backupPath)) as BackupInfo;
+}
+
+/**
+ * Delete a backup
+ */
+export function deleteBackup(fileName: string): void {
+  fs.rmSync(resolveBackupPath(fileName));
+}
+
+/**
+ * Open a backup read-only and count what it holds, so a restore can be checked first
+ */
+export function previewBackup(fileName: string): BackupPreview {
+  const backupDb = new Database(resolveBackupPath(fileName), { readonly: true, fileMustExist: true });
+
+  try {
+    const integrity = backupDb.pragma('quick_check', { simple: true });
+    if (integrity !== 'ok') {
+      throw new Error(`The backup is damaged: ${integrity}`);
+    }
+
+    const hasTable = (table: string) =>
+      backupDb.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table) !== undefined;
+    const hasTrash = hasTable('bookmarks') &&
+      (backupDb.prepare('PRAGMA table_info(bookmarks)').all() as { name: string }[]).some(col => col.name === 'deleted_at');
+    const count = (table: string, where = '') => hasTable(table)
+      ? (backupDb.prepare(`SELECT COUNT(*) AS count FROM ${table} ${where}`).get() as { count: number }).count
+      : 0;
+    const live = hasTrash ? 'WHERE deleted_at IS NULL' : '';
+    const trashed = hasTrash ? 'WHERE deleted_at IS NOT NULL' : 'WHERE 0';
+
+    return {
+      fileName,
+      schemaVersion: backupDb.pragma('user_version', { simple: true }) as number,
+      bookmarks: count('bookmarks', live),
+      executables: count('executables', live),
+      scripts: count('scripts', live),
+      trashed: count('bookmarks', trashed) + count('executables', trashed) + count('scripts', trashed),
+      tags: count('tags'),
+    };
+  } finally {
+    backupDb.close();
+  }
+}
+
+/**
+ * Replace the database with a backup. The current database is backed up
+ * first; the open database cannot be swapped, so the backup is staged and
+ * the app restarts to apply it. Older backups are migrated on that start.
+ */
+export async function restoreBackup(fileName: string): Promise<void> {
+  const preview = previewBackup(fileName);
+  if (preview.schemaVersion > LATEST_SQLITE_SCHEMA_VERSION) {
+    throw new Error('The backup was made by a newer version of the app');
+  }
+
+  await createBackup('pre-restore');
+  fs.copyFileSync(resolveBackupPath(fileName), getPendingRestorePath());
+  console.log('💾 Restore from backup staged, restarting:', fileName);
+
+  setTimeout(() => {
+    app.relaunch();
+    app.quit();
+  }, RESTART_DELAY_MS);
+}
+
+/**
+ * Show a backup in the file manager
+ */
+export function showBackup(fileName: string): void {
+  shell.showItemInFolder(resolveBackupPath(fileName));
+}
+
+/**
+ * Schedule the next automatic backup: when the interval has passed since the
+ * last scheduled backup, but not before the given delay
+ */
+export function startBackupSchedule(minDelayMs = STARTUP_BACKUP_DELAY_MS): void {
+  stopBackupSchedule();
+
+  const policy = getBackupPolicy();
+  if (!policy.enabled) {
+    return;
+  }
+
+  const last = listBackups().find(backup => backup.kind === 'scheduled');
+  const dueAt = last ? new Date(last.createdAt).getTime() + policy.intervalHours * 60 * 60 * 1000 : Date.now();
+  const delay = Math.max(dueAt - Date.now(), minDelayMs);
+
+  backupTimer = setTimeout(async () => {
+    backupTimer = null;
+    try {
+      await createBackup('scheduled');
+      startBackupSchedule(0);
+    } catch (error) {
+      console.error('❌ Scheduled database backup failed:', error);
+      startBackupSchedule(BACKUP_RETRY_DELAY_MS);
+    }
+  }, delay);
+}
+
+export function stopBackupSchedule(): void {
+  if (backupTimer) {
+    clearTimeout(backupTimer);
+    backupTimer = null;
+  }
+}
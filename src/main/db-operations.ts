@@ -1,6 +1,7 @@
 import { db } from './database';
 import { v4 as uuidv4 } from 'uuid';
 import crypto from 'crypto';
+import { formatTagList, parseTagList } from './tag-list';
 
 // ============ Type Definitions ============
 
@@ -10,14 +11,18 @@ export interface Bookmark {
   url: string;
   favicon?: string;
   category?: string;
+  tags?: string; // Comma-separated list of tags
   is_team_level: number;
   is_personal: number;
+  team_id?: string;
   created_by?: string;
   updated_by?: string;
   created_at: string;
   updated_at: string;
   last_sync_at?: string;
   sync_hash?: string;
+  deleted_at?: string; // Set while the item is in the trash
+  deleted_by?: string;
 }
 
 export interface Executable {
@@ -27,14 +32,18 @@ export interface Executable {
   parameters?: string;
   icon?: string;
   category?: string;
+  tags?: string; // Comma-separated list of tags
   is_team_level: number;
   is_personal: number;
+  team_id?: string;
   created_by?: string;
   updated_by?: string;
   created_at: string;
   updated_at: string;
   last_sync_at?: string;
   sync_hash?: string;
+  deleted_at?: string; // Set while the item is in the trash
+  deleted_by?: string;
 }
 
 export interface Script {
@@ -44,14 +53,18 @@ export interface Script {
   script_type: 'powershell' | 'cmd';
   icon?: string;
   category?: string;
+  tags?: string; // Comma-separated list of tags
   is_team_level: number;
   is_personal: number;
+  team_id?: string;
   created_by?: string;
   updated_by?: string;
   created_at: string;
   updated_at: string;
   last_sync_at?: string;
   sync_hash?: string;
+  deleted_at?: string; // Set while the item is in the trash
+  deleted_by?: string;
 }
 
 export interface UserShare {
@@ -61,15 +74,450 @@ export interface UserShare {
   shared_by: string;
   shared_with: string;
   shared_at: string;
+  pushed_at?: string;
+  deleted_at?: string;
 }
 
+export type ItemType = 'bookmark' | 'executable' | 'script';
+
+/**
+ * Team every user belongs to; holds team items created before teams existed
+ */
+export const DEFAULT_TEAM_ID = 'default';
+
+export interface Team {
+  id: string;
+  name: string;
+  created_by?: string;
+  created_at: string;
+  pushed_at?: string;
+}
+
+export type TeamRole = 'owner' | 'member';
+
+export interface TeamMember {
+  team_id: string;
+  user_email: string;
+  role: TeamRole;
+  added_by?: string;
+  added_at: string;
+  pushed_at?: string;
+  deleted_at?: string;
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  color?: string;
+  created_at: string;
+  bookmark_count: number;
+  executable_count: number;
+  script_count: number;
+}
+
+/**
+ * Where a revision came from: an edit on this machine, a change pulled by
+ * sync, or a restore of an earlier revision
+ */
+export type RevisionSource = 'local' | 'sync' | 'restore';
+
+export interface ItemRevision {
+  id: number;
+  item_type: ItemType;
+  item_id: string;
+  snapshot: Record<string, any>;
+  content_hash: string;
+  source: RevisionSource;
+  changed_by?: string;
+  created_at: string;
+}
+
+export interface TrashedItem {
+  item_type: ItemType;
+  item: Bookmark | Executable | Script;
+}
+
+export interface SearchTextPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  item_type: ItemType;
+  item_id: string;
+  score: number; // bm25 rank, lower is better
+  title: SearchTextPart[];
+  snippet_field: string | null; // Field the snippet was taken from, null when only the title matched
+  snippet: SearchTextPart[];
+  item: Bookmark | Executable | Script;
+}
+
+export interface SyncTombstone {
+  item_type: ItemType;
+  item_id: string;
+  deleted_by?: string;
+  deleted_at: string;
+  pushed_at?: string;
+}
+
+export type OutboxOperation = 'create' | 'update' | 'delete' | 'promote';
+
+export interface SyncOutboxEntry {
+  seq: number;
+  item_type: ItemType;
+  item_id: string;
+  operation: OutboxOperation;
+  changed_by?: string;
+  created_at: string;
+  attempts: number;
+  next_attempt_at: string;
+  last_error?: string;
+  is_due: number;
+}
+
+export interface SyncOutboxSummary {
+  pending: number;
+  failing: number;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+}
+
+export type SyncTrigger = 'auto' | 'manual';
+
+/**
+ * What a sync run did to an item: pulled/pushed/merged a change, recorded a
+ * conflict, pushed a local deletion ('deleted'), applied a deletion made on
+ * another machine ('removed'), or failed
+ */
+export type SyncRunAction = 'pulled' | 'pushed' | 'merged' | 'conflict' | 'deleted' | 'removed' | 'error';
+
+export interface SyncRun {
+  id: string;
+  trigger: SyncTrigger;
+  started_at: string;
+  finished_at?: string;
+  success?: boolean;
+  items_synced: number;
+  conflicts: number;
+  errors: string[];
+}
+
+export interface SyncRunItem {
+  id: number;
+  run_id: string;
+  item_type: ItemType;
+  item_id: string;
+  title?: string;
+  action: SyncRunAction;
+  message?: string;
+  recorded_at: string;
+}
+
+export type SyncSubscriptionKind = 'tag' | 'category';
+
+export interface SyncSubscription {
+  id: string;
+  kind: SyncSubscriptionKind;
+  value: string;
+  created_at: string;
+}
+
+export type ConflictResolution = 'mine' | 'theirs' | 'merge';
+
+export interface SyncConflict {
+  id: string;
+  item_type: ItemType;
+  item_id: string;
+  title?: string;
+  conflicting_fields: string[];
+  base_snapshot: Record<string, any> | null;
+  local_snapshot: Record<string, any>;
+  remote_snapshot: Record<string, any>;
+  detected_at: string;
+  resolved_at?: string;
+  resolution?: ConflictResolution;
+}
+
+/**
+ * SQLite table backing each item type
+ */
+export const ITEM_TABLES: Record<ItemType, string> = {
+  bookmark: 'bookmarks',
+  executable: 'executables',
+  script: 'scripts',
+};
+
+/**
+ * User-editable content fields of each item type (everything except
+ * identity, ownership, timestamps and sync bookkeeping)
+ */
+export const ITEM_FIELDS: Record<ItemType, string[]> = {
+  bookmark: ['title', 'url', 'favicon', 'category', 'tags'],
+  executable: ['title', 'executable_path', 'parameters', 'icon', 'category', 'tags'],
+  script: ['title', 'script_content', 'script_type', 'icon', 'category', 'tags'],
+};
+
 // ============ Helper Functions ============
 
 /**
- * Generate sync hash for conflict detection
+ * Generate the sync hash of an item from its canonical content: the synced
+ * fields in a fixed order, with empty values as null. Timestamps, authors and
+ * other bookkeeping columns are left out, so equal content hashes the same on
+ * every machine and on the server.
+ */
+export function generateSyncHash(itemType: ItemType, data: Record<string, any>): string {
+  const canonical = ITEM_FIELDS[itemType].map(field => {
+    const value = data[field];
+    return [field, value === null || value === undefined || value === '' ? null : String(value)];
+  });
+  return crypto.createHash('sha256').update(JSON.stringify(canonical)).digest('hex');
+}
+
+/**
+ * Items a user can see: team items, their own items and items shared with them.
+ * Takes the user's email twice as parameters.
+ */
+function visibleToUserClause(itemType: ItemType): string {
+  return `(is_team_level = 1 OR created_by = ? OR id IN (
+    SELECT item_id FROM user_shares
+    WHERE item_type = '${itemType}' AND shared_with = ? AND deleted_at IS NULL
+  ))`;
+}
+
+/**
+ * Personal items plus the team items of one team. Takes the team id as a parameter.
+ */
+const IN_TEAM_CLAUSE = `(is_team_level = 0 OR team_id = ?)`;
+
+// Full-text search: indexed columns of item_search (after item_type and
+// item_id), their bm25 weights, and the markers wrapped around matches
+const SEARCH_COLUMNS = ['title', 'url', 'executable_path', 'parameters', 'script_content', 'tags', 'category'];
+const SEARCH_WEIGHTS = [10, 4, 4, 2, 1, 6, 3];
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+/**
+ * Turn what the user typed into an FTS5 query: every word must match,
+ * as a prefix, anywhere in the indexed text. Returns null if nothing is searchable.
+ */
+function buildMatchQuery(searchTerm: string): string | null {
+  const terms = searchTerm
+    .split(/\s+/)
+    .filter(term => /[\p{L}\p{N}]/u.test(term))
+    .map(term => `"${term.replace(/"/g, '""')}"*`);
+  return terms.length > 0 ? terms.join(' ') : null;
+}
+
+/**
+ * Split text returned by highlight()/snippet() into plain and matched parts
  */
-function generateSyncHash(data: any): string {
-  return crypto.createHash('sha256').update(JSON.stringify(data)).digest('hex');
+function parseHighlights(text: string | null): SearchTextPart[] {
+  if (!text) {
+    return [];
+  }
+
+  const parts: SearchTextPart[] = [];
+  for (const [index, chunk] of text.split(HIGHLIGHT_START).entries()) {
+    const [matched, rest] = index === 0 ? [null, chunk] : chunk.split(HIGHLIGHT_END);
+    if (matched) parts.push({ text: matched, highlight: true });
+    if (rest) parts.push({ text: rest, highlight: false });
+  }
+  return parts;
+}
+
+function parseSyncRunRow(row: any): SyncRun {
+  return {
+    ...row,
+    success: row.success === null ? undefined : row.success === 1,
+    errors: row.errors ? JSON.parse(row.errors) : [],
+  };
+}
+
+function parseConflictRow(row: any): SyncConflict {
+  return {
+    ...row,
+    conflicting_fields: JSON.parse(row.conflicting_fields),
+    base_snapshot: row.base_snapshot ? JSON.parse(row.base_snapshot) : null,
+    local_snapshot: JSON.parse(row.local_snapshot),
+    remote_snapshot: JSON.parse(row.remote_snapshot),
+  };
+}
+
+/**
+ * Journal a change to a team-level item so the sync engine can replay it
+ * against the team server, in order, once the server is reachable
+ */
+function queueOutboxEntry(itemType: ItemType, itemId: string, operation: OutboxOperation, changedBy?: string) {
+  const stmt = db.prepare(`
+    INSERT INTO sync_outbox (item_type, item_id, operation, changed_by)
+    VALUES (?, ?, ?, ?)
+  `);
+  return stmt.run(itemType, itemId, operation, changedBy ?? null);
+}
+
+/**
+ * Point an item's item_tags rows at the tags in its serialized tag list,
+ * creating tags seen for the first time. Unlinking deleted items is left to
+ * the item table triggers.
+ */
+function linkItemTags(itemType: ItemType, itemId: string, tags: string | null | undefined) {
+  db.prepare('DELETE FROM item_tags WHERE item_type = ? AND item_id = ?').run(itemType, itemId);
+
+  for (const name of parseTagList(tags)) {
+    db.prepare('INSERT INTO tags (id, name) VALUES (?, ?) ON CONFLICT(name) DO NOTHING').run(uuidv4(), name);
+    const tag = db.prepare('SELECT id FROM tags WHERE name = ?').get(name) as { id: string };
+    db.prepare('INSERT OR IGNORE INTO item_tags (item_type, item_id, tag_id) VALUES (?, ?, ?)')
+      .run(itemType, itemId, tag.id);
+  }
+}
+
+/**
+ * Record the current content of an item as a new revision, unless it is
+ * unchanged since the item's latest revision
+ */
+function recordRevision(itemType: ItemType, itemId: string, source: RevisionSource, changedBy?: string) {
+  const item = db.prepare(`SELECT * FROM ${ITEM_TABLES[itemType]} WHERE id = ?`).get(itemId) as
+    | Record<string, any>
+    | undefined;
+  if (!item) return;
+
+  const contentHash = generateSyncHash(itemType, item);
+  const latest = db.prepare(`
+    SELECT content_hash FROM item_revisions
+    WHERE item_type = ? AND item_id = ?
+    ORDER BY id DESC LIMIT 1
+  `).get(itemType, itemId) as { content_hash: string } | undefined;
+  if (latest?.content_hash === contentHash) return;
+
+  const snapshot = Object.fromEntries(ITEM_FIELDS[itemType].map(field => [field, item[field] ?? null]));
+  db.prepare(`
+    INSERT INTO item_revisions (item_type, item_id, snapshot, content_hash, source, changed_by)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(itemType, itemId, JSON.stringify(snapshot), contentHash, source, changedBy ?? item.updated_by ?? null);
+}
+
+/**
+ * Overwrite content fields of an item as a local edit: the sync hash,
+ * item_tags and revision history are updated and team items are queued for the outbox
+ */
+function applyItemEdit(
+  itemType: ItemType,
+  itemId: string,
+  fields: Record<string, any>,
+  source: RevisionSource,
+  changedBy?: string
+) {
+  const table = ITEM_TABLES[itemType];
+  const item = db.prepare(`SELECT * FROM ${table} WHERE id = ?`).get(itemId) as Record<string, any> | undefined;
+  if (!item) throw new Error('Item not found');
+
+  const columns = ITEM_FIELDS[itemType].filter(field => field in fields);
+  const updated = { ...item, ...fields };
+  db.prepare(`
+    UPDATE ${table}
+    SET ${columns.map(column => `${column} = ?`).join(', ')},
+        updated_by = COALESCE(?, updated_by), updated_at = CURRENT_TIMESTAMP, sync_hash = ?
+    WHERE id = ?
+  `).run(...columns.map(column => fields[column] ?? null), changedBy ?? null, generateSyncHash(itemType, updated), itemId);
+  linkItemTags(itemType, itemId, updated.tags);
+  recordRevision(itemType, itemId, source, changedBy);
+
+  if (item.is_team_level) {
+    queueOutboxEntry(itemType, itemId, 'update', changedBy);
+  }
+}
+
+/**
+ * Rewrite the tag list of every item carrying one of the given tags, as if
+ * each item had been edited
+ */
+function retagItems(tagIds: string[], transform: (names: string[]) => string[], changedBy?: string) {
+  const placeholders = tagIds.map(() => '?').join(', ');
+  const links = db.prepare(`
+    SELECT DISTINCT item_type, item_id FROM item_tags WHERE tag_id IN (${placeholders})
+  `).all(...tagIds) as { item_type: ItemType; item_id: string }[];
+
+  for (const link of links) {
+    const item = db.prepare(`SELECT tags FROM ${ITEM_TABLES[link.item_type]} WHERE id = ?`).get(link.item_id) as
+      | { tags: string | null }
+      | undefined;
+    if (!item) continue;
+
+    // Re-parse so a rename or merge onto a tag the item already has does not duplicate it
+    const tags = formatTagList(parseTagList(transform(parseTagList(item.tags)).join(',')));
+    applyItemEdit(link.item_type, link.item_id, { tags }, 'local', changedBy);
+  }
+  return links.length;
+}
+
+/**
+ * Move an item to the trash. A team-level item, or a personal item roamed
+ * through the team server (it has a sync base), also leaves a tombstone
+ * behind so the deletion is propagated by the sync engine right away.
+ */
+function trashItem(itemType: ItemType, id: string, deletedBy?: string) {
+  const table = ITEM_TABLES[itemType];
+
+  return db.transaction(() => {
+    const row = db.prepare(`SELECT is_team_level FROM ${table} WHERE id = ? AND deleted_at IS NULL`).get(id) as
+      | { is_team_level: number }
+      | undefined;
+    // Missing or already in the trash - its sync state belongs to the earlier deletion
+    if (!row) {
+      return { changes: 0, lastInsertRowid: 0 };
+    }
+
+    const wasSynced = db.prepare('SELECT 1 FROM sync_base WHERE item_type = ? AND item_id = ?').get(itemType, id);
+
+    if (row.is_team_level === 1 || wasSynced) {
+      db.prepare(`
+        INSERT INTO sync_tombstones (item_type, item_id, deleted_by, deleted_at, pushed_at)
+        VALUES (?, ?, ?, CURRENT_TIMESTAMP, NULL)
+        ON CONFLICT(item_type, item_id) DO UPDATE SET
+          deleted_by = excluded.deleted_by,
+          deleted_at = CURRENT_TIMESTAMP,
+          pushed_at = NULL
+      `).run(itemType, id, deletedBy ?? null);
+
+      // Earlier queued changes are superseded by the deletion
+      db.prepare('DELETE FROM sync_outbox WHERE item_type = ? AND item_id = ?').run(itemType, id);
+      queueOutboxEntry(itemType, id, 'delete', deletedBy);
+      // The sync base stays until the deletion is pushed: it is the version
+      // being deleted, so an edit made on the server since can be detected
+    } else {
+      db.prepare('DELETE FROM sync_base WHERE item_type = ? AND item_id = ?').run(itemType, id);
+    }
+
+    db.prepare('DELETE FROM sync_conflicts WHERE item_type = ? AND item_id = ? AND resolved_at IS NULL')
+      .run(itemType, id);
+    // Trashed items do not count towards their tags; restoring links them again
+    db.prepare('DELETE FROM item_tags WHERE item_type = ? AND item_id = ?').run(itemType, id);
+    return db.prepare(`
+      UPDATE ${table} SET deleted_at = CURRENT_TIMESTAMP, deleted_by = ?
+      WHERE id = ? AND deleted_at IS NULL
+    `).run(deletedBy ?? null, id);
+  })();
+}
+
+/**
+ * Delete trashed items for good, along with their revision history and sync
+ * base. The base of a deletion not yet pushed is kept until the push, which
+ * checks it (see markTombstonePushed).
+ */
+function purgeTrashedItems(itemType: ItemType, ids: string[]) {
+  return db.transaction(() => {
+    for (const id of ids) {
+      db.prepare(`DELETE FROM ${ITEM_TABLES[itemType]} WHERE id = ? AND deleted_at IS NOT NULL`).run(id);
+      db.prepare('DELETE FROM item_revisions WHERE item_type = ? AND item_id = ?').run(itemType, id);
+      db.prepare(`
+        DELETE FROM sync_base WHERE item_type = ? AND item_id = ? AND NOT EXISTS (
+          SELECT 1 FROM sync_tombstones t
+          WHERE t.item_type = sync_base.item_type AND t.item_id = sync_base.item_id AND t.pushed_at IS NULL
+        )
+      `).run(itemType, id);
+    }
+    return ids.length;
+  })();
 }
 
 // ============ Database Operations ============
@@ -152,21 +600,28 @@ export const dbOperations = {
 
   createBookmark: (bookmark: Omit<Bookmark, 'id' | 'created_at' | 'updated_at' | 'sync_hash'>) => {
     const id = uuidv4();
-    const sync_hash = generateSyncHash({ ...bookmark, id });
+    const sync_hash = generateSyncHash('bookmark', bookmark);
     
     const stmt = db.prepare(`
       INSERT INTO bookmarks (
         id, title, url, favicon, category, tags, is_team_level, is_personal, 
-        created_by, updated_by, sync_hash
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        team_id, created_by, updated_by, sync_hash
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     
     stmt.run(
       id, bookmark.title, bookmark.url, bookmark.favicon, bookmark.category,
-      bookmark.tags, bookmark.is_team_level, bookmark.is_personal, bookmark.created_by,
-      bookmark.updated_by, sync_hash
+      bookmark.tags, bookmark.is_team_level, bookmark.is_personal, bookmark.team_id ?? DEFAULT_TEAM_ID,
+      bookmark.created_by, bookmark.updated_by, sync_hash
     );
     
+    linkItemTags('bookmark', id, bookmark.tags);
+    recordRevision('bookmark', id, 'local', bookmark.created_by);
+
+    if (bookmark.is_team_level) {
+      queueOutboxEntry('bookmark', id, 'create', bookmark.created_by);
+    }
+    
     return id;
   },
 
@@ -175,31 +630,18 @@ export const dbOperations = {
     return stmt.get(id) as Bookmark | undefined;
   },
 
-  getAllBookmarks: (userEmail?: string): Bookmark[] => {
-    let query = 'SELECT * FROM bookmarks WHERE 1=1';
+  getAllBookmarks: (userEmail?: string, teamId?: string): Bookmark[] => {
+    let query = 'SELECT * FROM bookmarks WHERE deleted_at IS NULL';
     const params: any[] = [];
     
     if (userEmail) {
-      query += ' AND (is_team_level = 1 OR created_by = ?)';
-      params.push(userEmail);
+      query += ` AND ${visibleToUserClause('bookmark')}`;
+      params.push(userEmail, userEmail);
     }
-    
-    query += ' ORDER BY created_at DESC';
-    
-    const stmt = db.prepare(query);
-    return stmt.all(...params) as Bookmark[];
-  },
 
-  searchBookmarks: (searchTerm: string, userEmail?: string): Bookmark[] => {
-    let query = `
-      SELECT * FROM bookmarks 
-      WHERE (title LIKE ? OR url LIKE ? OR category LIKE ?)
-    `;
-    const params: any[] = [`%${searchTerm}%`, `%${searchTerm}%`, `%${searchTerm}%`];
-    
-    if (userEmail) {
-      query += ' AND (is_team_level = 1 OR created_by = ?)';
-      params.push(userEmail);
+    if (teamId) {
+      query += ` AND ${IN_TEAM_CLAUSE}`;
+      params.push(teamId);
     }
     
     query += ' ORDER BY created_at DESC';
@@ -208,52 +650,76 @@ export const dbOperations = {
     return stmt.all(...params) as Bookmark[];
   },
 
+  searchBookmarks: (searchTerm: string, userEmail?: string, teamId?: string): Bookmark[] => {
+    return dbOperations.searchItems(searchTerm, { itemType: 'bookmark', userEmail, teamId }).map(result => result.item as Bookmark);
+  },
+
   updateBookmark: (id: string, updates: Partial<Bookmark>) => {
     const current = dbOperations.getBookmark(id);
     if (!current) throw new Error('Bookmark not found');
     
     const updated = { ...current, ...updates };
-    const sync_hash = generateSyncHash(updated);
+    const sync_hash = generateSyncHash('bookmark', updated);
     
     const stmt = db.prepare(`
       UPDATE bookmarks 
       SET title = ?, url = ?, favicon = ?, category = ?, tags = ?,
           is_team_level = ?, is_personal = ?, updated_by = ?,
           updated_at = CURRENT_TIMESTAMP, sync_hash = ?
-      WHERE id = ?
+      WHERE id = ? AND deleted_at IS NULL
     `);
     
-    return stmt.run(
+    const result = stmt.run(
       updated.title, updated.url, updated.favicon, updated.category, updated.tags,
       updated.is_team_level, updated.is_personal, updated.updated_by,
       sync_hash, id
     );
+
+    // In the trash - edits to deleted items are not kept or synced
+    if (result.changes === 0) {
+      return result;
+    }
+
+    linkItemTags('bookmark', id, updated.tags);
+    recordRevision('bookmark', id, 'local', updated.updated_by);
+
+    if (updated.is_team_level) {
+      queueOutboxEntry('bookmark', id, 'update', updated.updated_by);
+    }
+    return result;
   },
 
-  deleteBookmark: (id: string) => {
-    const stmt = db.prepare('DELETE FROM bookmarks WHERE id = ?');
-    return stmt.run(id);
+  deleteBookmark: (id: string, deletedBy?: string) => {
+    return trashItem('bookmark', id, deletedBy);
   },
 
   // ============ Executables Operations ============
 
   createExecutable: (executable: Omit<Executable, 'id' | 'created_at' | 'updated_at' | 'sync_hash'>) => {
     const id = uuidv4();
-    const sync_hash = generateSyncHash({ ...executable, id });
+    const sync_hash = generateSyncHash('executable', executable);
     
     const stmt = db.prepare(`
       INSERT INTO executables (
         id, title, executable_path, parameters, icon, category, tags,
-        is_team_level, is_personal, created_by, updated_by, sync_hash
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        is_team_level, is_personal, team_id, created_by, updated_by, sync_hash
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     
     stmt.run(
       id, executable.title, executable.executable_path, executable.parameters,
       executable.icon, executable.category, executable.tags, executable.is_team_level,
-      executable.is_personal, executable.created_by, executable.updated_by, sync_hash
+      executable.is_personal, executable.team_id ?? DEFAULT_TEAM_ID, executable.created_by,
+      executable.updated_by, sync_hash
     );
     
+    linkItemTags('executable', id, executable.tags);
+    recordRevision('executable', id, 'local', executable.created_by);
+
+    if (executable.is_team_level) {
+      queueOutboxEntry('executable', id, 'create', executable.created_by);
+    }
+    
     return id;
   },
 
@@ -262,31 +728,18 @@ export const dbOperations = {
     return stmt.get(id) as Executable | undefined;
   },
 
-  getAllExecutables: (userEmail?: string): Executable[] => {
-    let query = 'SELECT * FROM executables WHERE 1=1';
+  getAllExecutables: (userEmail?: string, teamId?: string): Executable[] => {
+    let query = 'SELECT * FROM executables WHERE deleted_at IS NULL';
     const params: any[] = [];
     
     if (userEmail) {
-      query += ' AND (is_team_level = 1 OR created_by = ?)';
-      params.push(userEmail);
+      query += ` AND ${visibleToUserClause('executable')}`;
+      params.push(userEmail, userEmail);
     }
-    
-    query += ' ORDER BY created_at DESC';
-    
-    const stmt = db.prepare(query);
-    return stmt.all(...params) as Executable[];
-  },
 
-  searchExecutables: (searchTerm: string, userEmail?: string): Executable[] => {
-    let query = `
-      SELECT * FROM executables 
-      WHERE (title LIKE ? OR executable_path LIKE ? OR category LIKE ?)
-    `;
-    const params: any[] = [`%${searchTerm}%`, `%${searchTerm}%`, `%${searchTerm}%`];
-    
-    if (userEmail) {
-      query += ' AND (is_team_level = 1 OR created_by = ?)';
-      params.push(userEmail);
+    if (teamId) {
+      query += ` AND ${IN_TEAM_CLAUSE}`;
+      params.push(teamId);
     }
     
     query += ' ORDER BY created_at DESC';
@@ -295,52 +748,76 @@ export const dbOperations = {
     return stmt.all(...params) as Executable[];
   },
 
+  searchExecutables: (searchTerm: string, userEmail?: string, teamId?: string): Executable[] => {
+    return dbOperations.searchItems(searchTerm, { itemType: 'executable', userEmail, teamId }).map(result => result.item as Executable);
+  },
+
   updateExecutable: (id: string, updates: Partial<Executable>) => {
     const current = dbOperations.getExecutable(id);
     if (!current) throw new Error('Executable not found');
     
     const updated = { ...current, ...updates };
-    const sync_hash = generateSyncHash(updated);
+    const sync_hash = generateSyncHash('executable', updated);
     
     const stmt = db.prepare(`
       UPDATE executables 
       SET title = ?, executable_path = ?, parameters = ?, icon = ?, category = ?, tags = ?,
           is_team_level = ?, is_personal = ?, updated_by = ?,
           updated_at = CURRENT_TIMESTAMP, sync_hash = ?
-      WHERE id = ?
+      WHERE id = ? AND deleted_at IS NULL
     `);
     
-    return stmt.run(
+    const result = stmt.run(
       updated.title, updated.executable_path, updated.parameters, updated.icon,
       updated.category, updated.tags, updated.is_team_level, updated.is_personal,
       updated.updated_by, sync_hash, id
     );
+
+    // In the trash - edits to deleted items are not kept or synced
+    if (result.changes === 0) {
+      return result;
+    }
+
+    linkItemTags('executable', id, updated.tags);
+    recordRevision('executable', id, 'local', updated.updated_by);
+
+    if (updated.is_team_level) {
+      queueOutboxEntry('executable', id, 'update', updated.updated_by);
+    }
+    return result;
   },
 
-  deleteExecutable: (id: string) => {
-    const stmt = db.prepare('DELETE FROM executables WHERE id = ?');
-    return stmt.run(id);
+  deleteExecutable: (id: string, deletedBy?: string) => {
+    return trashItem('executable', id, deletedBy);
   },
 
   // ============ Scripts Operations ============
 
   createScript: (script: Omit<Script, 'id' | 'created_at' | 'updated_at' | 'sync_hash'>) => {
     const id = uuidv4();
-    const sync_hash = generateSyncHash({ ...script, id });
+    const sync_hash = generateSyncHash('script', script);
     
     const stmt = db.prepare(`
       INSERT INTO scripts (
         id, title, script_content, script_type, icon, category, tags,
-        is_team_level, is_personal, created_by, updated_by, sync_hash
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        is_team_level, is_personal, team_id, created_by, updated_by, sync_hash
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     
     stmt.run(
       id, script.title, script.script_content, script.script_type,
       script.icon, script.category, script.tags, script.is_team_level,
-      script.is_personal, script.created_by, script.updated_by, sync_hash
+      script.is_personal, script.team_id ?? DEFAULT_TEAM_ID, script.created_by,
+      script.updated_by, sync_hash
     );
     
+    linkItemTags('script', id, script.tags);
+    recordRevision('script', id, 'local', script.created_by);
+
+    if (script.is_team_level) {
+      queueOutboxEntry('script', id, 'create', script.created_by);
+    }
+    
     return id;
   },
 
@@ -349,31 +826,18 @@ export const dbOperations = {
     return stmt.get(id) as Script | undefined;
   },
 
-  getAllScripts: (userEmail?: string): Script[] => {
-    let query = 'SELECT * FROM scripts WHERE 1=1';
+  getAllScripts: (userEmail?: string, teamId?: string): Script[] => {
+    let query = 'SELECT * FROM scripts WHERE deleted_at IS NULL';
     const params: any[] = [];
     
     if (userEmail) {
-      query += ' AND (is_team_level = 1 OR created_by = ?)';
-      params.push(userEmail);
+      query += ` AND ${visibleToUserClause('script')}`;
+      params.push(userEmail, userEmail);
     }
-    
-    query += ' ORDER BY created_at DESC';
-    
-    const stmt = db.prepare(query);
-    return stmt.all(...params) as Script[];
-  },
 
-  searchScripts: (searchTerm: string, userEmail?: string): Script[] => {
-    let query = `
-      SELECT * FROM scripts 
-      WHERE (title LIKE ? OR script_content LIKE ? OR category LIKE ?)
-    `;
-    const params: any[] = [`%${searchTerm}%`, `%${searchTerm}%`, `%${searchTerm}%`];
-    
-    if (userEmail) {
-      query += ' AND (is_team_level = 1 OR created_by = ?)';
-      params.push(userEmail);
+    if (teamId) {
+      query += ` AND ${IN_TEAM_CLAUSE}`;
+      params.push(teamId);
     }
     
     query += ' ORDER BY created_at DESC';
@@ -382,31 +846,47 @@ export const dbOperations = {
     return stmt.all(...params) as Script[];
   },
 
+  searchScripts: (searchTerm: string, userEmail?: string, teamId?: string): Script[] => {
+    return dbOperations.searchItems(searchTerm, { itemType: 'script', userEmail, teamId }).map(result => result.item as Script);
+  },
+
   updateScript: (id: string, updates: Partial<Script>) => {
     const current = dbOperations.getScript(id);
     if (!current) throw new Error('Script not found');
     
     const updated = { ...current, ...updates };
-    const sync_hash = generateSyncHash(updated);
+    const sync_hash = generateSyncHash('script', updated);
     
     const stmt = db.prepare(`
       UPDATE scripts 
       SET title = ?, script_content = ?, script_type = ?, icon = ?, category = ?, tags = ?,
           is_team_level = ?, is_personal = ?, updated_by = ?,
           updated_at = CURRENT_TIMESTAMP, sync_hash = ?
-      WHERE id = ?
+      WHERE id = ? AND deleted_at IS NULL
     `);
     
-    return stmt.run(
+    const result = stmt.run(
       updated.title, updated.script_content, updated.script_type, updated.icon,
       updated.category, updated.tags, updated.is_team_level, updated.is_personal,
       updated.updated_by, sync_hash, id
     );
+
+    // In the trash - edits to deleted items are not kept or synced
+    if (result.changes === 0) {
+      return result;
+    }
+
+    linkItemTags('script', id, updated.tags);
+    recordRevision('script', id, 'local', updated.updated_by);
+
+    if (updated.is_team_level) {
+      queueOutboxEntry('script', id, 'update', updated.updated_by);
+    }
+    return result;
   },
 
-  deleteScript: (id: string) => {
-    const stmt = db.prepare('DELETE FROM scripts WHERE id = ?');
-    return stmt.run(id);
+  deleteScript: (id: string, deletedBy?: string) => {
+    return trashItem('script', id, deletedBy);
   },
 
   // ============ User Shares Operations ============
@@ -426,29 +906,931 @@ export const dbOperations = {
   getSharesForUser: (userEmail: string): UserShare[] => {
     const stmt = db.prepare(`
       SELECT * FROM user_shares 
-      WHERE shared_with = ?
+      WHERE shared_with = ? AND deleted_at IS NULL
       ORDER BY shared_at DESC
     `);
     return stmt.all(userEmail) as UserShare[];
   },
 
+  /**
+   * Remove a share. Shares already on the team server are only marked,
+   * so the sync engine can remove them there too.
+   */
   deleteShare: (id: string) => {
+    const stmt = db.prepare(`
+      UPDATE user_shares SET deleted_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND pushed_at IS NOT NULL
+    `);
+    const result = stmt.run(id);
+    if (result.changes > 0) {
+      return result;
+    }
+    return db.prepare('DELETE FROM user_shares WHERE id = ?').run(id);
+  },
+
+  // ============ Share Sync Operations ============
+
+  getUnpushedShares: (sharedBy: string): UserShare[] => {
+    const stmt = db.prepare(`
+      SELECT * FROM user_shares
+      WHERE shared_by = ? AND pushed_at IS NULL AND deleted_at IS NULL
+    `);
+    return stmt.all(sharedBy) as UserShare[];
+  },
+
+  getDeletedShares: (sharedBy: string): UserShare[] => {
+    const stmt = db.prepare('SELECT * FROM user_shares WHERE shared_by = ? AND deleted_at IS NOT NULL');
+    return stmt.all(sharedBy) as UserShare[];
+  },
+
+  /**
+   * Shares involving the user that are known to the team server
+   */
+  getSyncedShares: (userEmail: string): UserShare[] => {
+    const stmt = db.prepare(`
+      SELECT * FROM user_shares
+      WHERE (shared_by = ? OR shared_with = ?) AND pushed_at IS NOT NULL AND deleted_at IS NULL
+    `);
+    return stmt.all(userEmail, userEmail) as UserShare[];
+  },
+
+  markSharePushed: (id: string) => {
+    const stmt = db.prepare('UPDATE user_shares SET pushed_at = CURRENT_TIMESTAMP WHERE id = ?');
+    return stmt.run(id);
+  },
+
+  /**
+   * Store a share received from the team server. Shares removed locally
+   * but not yet pushed are left alone.
+   */
+  saveSyncedShare: (share: UserShare) => {
+    const stmt = db.prepare(`
+      INSERT INTO user_shares (id, item_type, item_id, shared_by, shared_with, shared_at, pushed_at)
+      VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(id) DO NOTHING
+    `);
+    return stmt.run(share.id, share.item_type, share.item_id, share.shared_by, share.shared_with, share.shared_at);
+  },
+
+  purgeShare: (id: string) => {
     const stmt = db.prepare('DELETE FROM user_shares WHERE id = ?');
     return stmt.run(id);
   },
 
+  /**
+   * Delete the local copy of someone else's personal item once nothing is
+   * shared with the user anymore. Returns true if the item was removed.
+   */
+  removeUnsharedItem: (itemType: ItemType, itemId: string, userEmail: string): boolean => {
+    const stmt = db.prepare(`
+      DELETE FROM ${ITEM_TABLES[itemType]}
+      WHERE id = ? AND is_team_level = 0 AND (created_by IS NULL OR created_by != ?)
+        AND NOT EXISTS (
+          SELECT 1 FROM user_shares
+          WHERE item_type = ? AND item_id = ? AND shared_with = ? AND deleted_at IS NULL
+        )
+    `);
+    return stmt.run(itemId, userEmail, itemType, itemId, userEmail).changes > 0;
+  },
+
+  // ============ Sync Operations ============
+
+  /**
+   * Get an item by id. Items in the trash are left out unless includeTrashed is set.
+   */
+  getItem: (itemType: ItemType, id: string, includeTrashed: boolean = false): any | undefined => {
+    const stmt = db.prepare(`
+      SELECT * FROM ${ITEM_TABLES[itemType]} WHERE id = ?${includeTrashed ? '' : ' AND deleted_at IS NULL'}
+    `);
+    return stmt.get(id);
+  },
+
+  getTeamItems: (itemType: ItemType): any[] => {
+    const stmt = db.prepare(`SELECT * FROM ${ITEM_TABLES[itemType]} WHERE is_team_level = 1 AND deleted_at IS NULL`);
+    return stmt.all();
+  },
+
+  /**
+   * Insert or overwrite an item exactly as received from the team server,
+   * keeping its id, timestamps and sync hash
+   */
+  saveSyncedItem: (itemType: ItemType, item: Record<string, any>, source: RevisionSource = 'sync') => {
+    const columns = [
+      'id', ...ITEM_FIELDS[itemType], 'is_team_level', 'is_personal', 'team_id',
+      'created_by', 'updated_by', 'created_at', 'updated_at', 'last_sync_at', 'sync_hash',
+    ];
+    const assignments = columns.filter(c => c !== 'id').map(c => `${c} = excluded.${c}`).join(', ');
+
+    const stmt = db.prepare(`
+      INSERT INTO ${ITEM_TABLES[itemType]} (${columns.join(', ')})
+      VALUES (${columns.map(() => '?').join(', ')})
+      ON CONFLICT(id) DO UPDATE SET ${assignments}
+    `);
+
+    const result = stmt.run(...columns.map(c => item[c] ?? (c === 'team_id' ? DEFAULT_TEAM_ID : null)));
+    linkItemTags(itemType, item.id, item.tags);
+    recordRevision(itemType, item.id, source);
+    return result;
+  },
+
+  getSyncBase: (itemType: ItemType, itemId: string): Record<string, any> | undefined => {
+    const stmt = db.prepare('SELECT snapshot FROM sync_base WHERE item_type = ? AND item_id = ?');
+    const row = stmt.get(itemType, itemId) as { snapshot: string } | undefined;
+    return row ? JSON.parse(row.snapshot) : undefined;
+  },
+
+  saveSyncBase: (itemType: ItemType, itemId: string, snapshot: Record<string, any>, syncHash: string | null) => {
+    const stmt = db.prepare(`
+      INSERT INTO sync_base (item_type, item_id, snapshot, sync_hash, synced_at)
+      VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(item_type, item_id) DO UPDATE SET
+        snapshot = excluded.snapshot,
+        sync_hash = excluded.sync_hash,
+        synced_at = CURRENT_TIMESTAMP
+    `);
+    return stmt.run(itemType, itemId, JSON.stringify(snapshot), syncHash);
+  },
+
+  /**
+   * Team-level items changed locally since their last sync: never synced,
+   * or edited since (their sync hash no longer matches the sync base)
+   */
+  getPendingTeamItems: (itemType: ItemType): any[] => {
+    const stmt = db.prepare(`
+      SELECT i.* FROM ${ITEM_TABLES[itemType]} i
+      LEFT JOIN sync_base b ON b.item_type = ? AND b.item_id = i.id
+      WHERE i.is_team_level = 1 AND i.deleted_at IS NULL
+        AND (b.item_id IS NULL OR b.sync_hash IS NOT i.sync_hash)
+    `);
+    return stmt.all(itemType);
+  },
+
+  /**
+   * A user's personal items changed locally since they were last roamed:
+   * never uploaded, or edited since (their sync hash no longer matches the sync base)
+   */
+  getPendingPersonalItems: (itemType: ItemType, userEmail: string): any[] => {
+    const stmt = db.prepare(`
+      SELECT i.* FROM ${ITEM_TABLES[itemType]} i
+      LEFT JOIN sync_base b ON b.item_type = ? AND b.item_id = i.id
+      WHERE i.is_team_level = 0 AND i.created_by = ? AND i.deleted_at IS NULL
+        AND (b.item_id IS NULL OR b.sync_hash IS NOT i.sync_hash)
+    `);
+    return stmt.all(itemType, userEmail);
+  },
+
+  /**
+   * Record a sync conflict for review. An item has at most one open
+   * conflict; detecting it again refreshes the snapshots.
+   */
+  recordSyncConflict: (conflict: Omit<SyncConflict, 'id' | 'detected_at' | 'resolved_at' | 'resolution'>): string => {
+    return db.transaction(() => {
+      const existing = db.prepare(`
+        SELECT id FROM sync_conflicts
+        WHERE item_type = ? AND item_id = ? AND resolved_at IS NULL
+      `).get(conflict.item_type, conflict.item_id) as { id: string } | undefined;
+
+      const values = [
+        conflict.title ?? null,
+        JSON.stringify(conflict.conflicting_fields),
+        conflict.base_snapshot ? JSON.stringify(conflict.base_snapshot) : null,
+        JSON.stringify(conflict.local_snapshot),
+        JSON.stringify(conflict.remote_snapshot),
+      ];
+
+      if (existing) {
+        db.prepare(`
+          UPDATE sync_conflicts
+          SET title = ?, conflicting_fields = ?, base_snapshot = ?, local_snapshot = ?,
+              remote_snapshot = ?, detected_at = CURRENT_TIMESTAMP
+          WHERE id = ?
+        `).run(...values, existing.id);
+        return existing.id;
+      }
+
+      const id = uuidv4();
+      db.prepare(`
+        INSERT INTO sync_conflicts (
+          id, item_type, item_id, title, conflicting_fields, base_snapshot, local_snapshot, remote_snapshot
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(id, conflict.item_type, conflict.item_id, ...values);
+      return id;
+    })();
+  },
+
+  getOpenConflicts: (): SyncConflict[] => {
+    const stmt = db.prepare(`
+      SELECT * FROM sync_conflicts
+      WHERE resolved_at IS NULL
+      ORDER BY detected_at DESC
+    `);
+    return (stmt.all() as any[]).map(parseConflictRow);
+  },
+
+  getConflict: (id: string): SyncConflict | undefined => {
+    const stmt = db.prepare('SELECT * FROM sync_conflicts WHERE id = ?');
+    const row = stmt.get(id);
+    return row ? parseConflictRow(row) : undefined;
+  },
+
+  markConflictResolved: (id: string, resolution: ConflictResolution) => {
+    const stmt = db.prepare(`
+      UPDATE sync_conflicts SET resolved_at = CURRENT_TIMESTAMP, resolution = ?
+      WHERE id = ?
+    `);
+    return stmt.run(resolution, id);
+  },
+
+  /**
+   * Close open conflicts of an item that no longer conflicts (or no longer exists)
+   */
+  dismissConflictsForItem: (itemType: ItemType, itemId: string) => {
+    const stmt = db.prepare(`
+      DELETE FROM sync_conflicts
+      WHERE item_type = ? AND item_id = ? AND resolved_at IS NULL
+    `);
+    return stmt.run(itemType, itemId);
+  },
+
+  hasTombstone: (itemType: ItemType, itemId: string): boolean => {
+    const stmt = db.prepare('SELECT 1 FROM sync_tombstones WHERE item_type = ? AND item_id = ?');
+    return stmt.get(itemType, itemId) !== undefined;
+  },
+
+  markTombstonePushed: (itemType: ItemType, itemId: string) => {
+    return db.transaction(() => {
+      db.prepare('DELETE FROM sync_base WHERE item_type = ? AND item_id = ?').run(itemType, itemId);
+      return db.prepare(`
+        UPDATE sync_tombstones SET pushed_at = CURRENT_TIMESTAMP
+        WHERE item_type = ? AND item_id = ?
+      `).run(itemType, itemId);
+    })();
+  },
+
+  /**
+   * Cancel a deletion not yet pushed because the item was edited on the team
+   * server meanwhile: the tombstone and queued changes are dropped and the
+   * item leaves the trash. The caller saves the server version over it.
+   */
+  cancelLocalDeletion: (itemType: ItemType, itemId: string) => {
+    return db.transaction(() => {
+      db.prepare('DELETE FROM sync_tombstones WHERE item_type = ? AND item_id = ? AND pushed_at IS NULL')
+        .run(itemType, itemId);
+      db.prepare('DELETE FROM sync_outbox WHERE item_type = ? AND item_id = ?').run(itemType, itemId);
+      return db.prepare(`
+        UPDATE ${ITEM_TABLES[itemType]} SET deleted_at = NULL, deleted_by = NULL
+        WHERE id = ? AND deleted_at IS NOT NULL
+      `).run(itemId);
+    })();
+  },
+
+  /**
+   * Apply a deletion received from the team server by moving the local copy
+   * to the trash. Returns true if a local item was trashed.
+   */
+  applyRemoteTombstone: (tombstone: Omit<SyncTombstone, 'pushed_at'>): boolean => {
+    return db.transaction(() => {
+      db.prepare(`
+        INSERT INTO sync_tombstones (item_type, item_id, deleted_by, deleted_at, pushed_at)
+        VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+        ON CONFLICT(item_type, item_id) DO NOTHING
+      `).run(tombstone.item_type, tombstone.item_id, tombstone.deleted_by ?? null, tombstone.deleted_at);
+
+      db.prepare('DELETE FROM sync_base WHERE item_type = ? AND item_id = ?')
+        .run(tombstone.item_type, tombstone.item_id);
+      db.prepare('DELETE FROM sync_conflicts WHERE item_type = ? AND item_id = ? AND resolved_at IS NULL')
+        .run(tombstone.item_type, tombstone.item_id);
+      db.prepare('DELETE FROM sync_outbox WHERE item_type = ? AND item_id = ?')
+        .run(tombstone.item_type, tombstone.item_id);
+      db.prepare('DELETE FROM item_tags WHERE item_type = ? AND item_id = ?')
+        .run(tombstone.item_type, tombstone.item_id);
+      const result = db.prepare(`
+        UPDATE ${ITEM_TABLES[tombstone.item_type]} SET deleted_at = ?, deleted_by = ?
+        WHERE id = ? AND deleted_at IS NULL
+      `).run(tombstone.deleted_at, tombstone.deleted_by ?? null, tombstone.item_id);
+      return result.changes > 0;
+    })();
+  },
+
+  /**
+   * Remove tombstones that have been pushed and are older than the retention window
+   */
+  purgeTombstones: (retentionDays: number) => {
+    const stmt = db.prepare(`
+      DELETE FROM sync_tombstones
+      WHERE pushed_at IS NOT NULL AND deleted_at < datetime('now', ?)
+    `);
+    return stmt.run(`-${retentionDays} days`);
+  },
+
+  // ============ Sync Outbox Operations ============
+
+  queueOutboxEntry: (itemType: ItemType, itemId: string, operation: OutboxOperation, changedBy?: string) => {
+    return queueOutboxEntry(itemType, itemId, operation, changedBy);
+  },
+
+  /**
+   * All queued changes in the order they were made, flagged with whether
+   * their retry backoff has elapsed
+   */
+  getOutboxEntries: (): SyncOutboxEntry[] => {
+    const stmt = db.prepare(`
+      SELECT *, next_attempt_at <= CURRENT_TIMESTAMP AS is_due
+      FROM sync_outbox
+      ORDER BY seq
+    `);
+    return stmt.all() as SyncOutboxEntry[];
+  },
+
+  hasOutboxEntries: (itemType: ItemType, itemId: string): boolean => {
+    const stmt = db.prepare('SELECT 1 FROM sync_outbox WHERE item_type = ? AND item_id = ?');
+    return stmt.get(itemType, itemId) !== undefined;
+  },
+
+  removeOutboxEntry: (seq: number) => {
+    const stmt = db.prepare('DELETE FROM sync_outbox WHERE seq = ?');
+    return stmt.run(seq);
+  },
+
+  /**
+   * Record a failed replay and hold the entry back for the given delay
+   */
+  markOutboxEntryFailed: (seq: number, error: string, retryDelaySeconds: number) => {
+    const stmt = db.prepare(`
+      UPDATE sync_outbox
+      SET attempts = attempts + 1, last_error = ?, next_attempt_at = datetime('now', ?)
+      WHERE seq = ?
+    `);
+    return stmt.run(error, `+${Math.round(retryDelaySeconds)} seconds`, seq);
+  },
+
+  getOutboxSummary: (): SyncOutboxSummary => {
+    const summary = db.prepare(`
+      SELECT COUNT(*) AS pending,
+             SUM(CASE WHEN attempts > 0 THEN 1 ELSE 0 END) AS failing,
+             MIN(next_attempt_at) AS nextAttemptAt
+      FROM sync_outbox
+    `).get() as { pending: number; failing: number | null; nextAttemptAt: string | null };
+    const lastError = db.prepare(`
+      SELECT last_error FROM sync_outbox
+      WHERE last_error IS NOT NULL
+      ORDER BY seq DESC LIMIT 1
+    `).get() as { last_error: string } | undefined;
+
+    return {
+      pending: summary.pending,
+      failing: summary.failing ?? 0,
+      lastError: lastError?.last_error ?? null,
+      nextAttemptAt: summary.nextAttemptAt,
+    };
+  },
+
+  // ============ Sync Run History Operations ============
+
+  startSyncRun: (trigger: SyncTrigger): string => {
+    const id = uuidv4();
+    db.prepare('INSERT INTO sync_runs (id, trigger) VALUES (?, ?)').run(id, trigger);
+    return id;
+  },
+
+  finishSyncRun: (id: string, result: { success: boolean; itemsSynced: number; conflicts: number; errors: string[] }) => {
+    const stmt = db.prepare(`
+      UPDATE sync_runs
+      SET finished_at = CURRENT_TIMESTAMP, success = ?, items_synced = ?, conflicts = ?, errors = ?
+      WHERE id = ?
+    `);
+    return stmt.run(result.success ? 1 : 0, result.itemsSynced, result.conflicts, JSON.stringify(result.errors), id);
+  },
+
+  recordSyncRunItem: (item: Omit<SyncRunItem, 'id' | 'recorded_at'>) => {
+    const stmt = db.prepare(`
+      INSERT INTO sync_run_items (run_id, item_type, item_id, title, action, message)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    return stmt.run(item.run_id, item.item_type, item.item_id, item.title ?? null, item.action, item.message ?? null);
+  },
+
+  getSyncRuns: (limit: number = 50): SyncRun[] => {
+    const stmt = db.prepare('SELECT * FROM sync_runs ORDER BY started_at DESC, rowid DESC LIMIT ?');
+    return (stmt.all(limit) as any[]).map(parseSyncRunRow);
+  },
+
+  getSyncRunItems: (runId: string): SyncRunItem[] => {
+    const stmt = db.prepare('SELECT * FROM sync_run_items WHERE run_id = ? ORDER BY id');
+    return stmt.all(runId) as SyncRunItem[];
+  },
+
+  /**
+   * Find what sync runs did to items matching a title or id, newest first
+   */
+  findSyncRunItems: (searchTerm: string, limit: number = 100): (SyncRunItem & { started_at: string; trigger: SyncTrigger })[] => {
+    const stmt = db.prepare(`
+      SELECT i.*, r.started_at, r.trigger FROM sync_run_items i
+      JOIN sync_runs r ON r.id = i.run_id
+      WHERE i.title LIKE ? OR i.item_id LIKE ?
+      ORDER BY i.id DESC
+      LIMIT ?
+    `);
+    return stmt.all(`%${searchTerm}%`, `%${searchTerm}%`, limit) as any[];
+  },
+
+  /**
+   * Keep only the most recent runs (their items are removed by cascade)
+   */
+  pruneSyncRuns: (keep: number) => {
+    const stmt = db.prepare(`
+      DELETE FROM sync_runs WHERE id NOT IN (
+        SELECT id FROM sync_runs ORDER BY started_at DESC, rowid DESC LIMIT ?
+      )
+    `);
+    return stmt.run(keep);
+  },
+
+  // ============ Sync Subscription Operations ============
+
+  getSyncSubscriptions: (): SyncSubscription[] => {
+    const stmt = db.prepare('SELECT * FROM sync_subscriptions ORDER BY kind, value');
+    return stmt.all() as SyncSubscription[];
+  },
+
+  addSyncSubscription: (kind: SyncSubscriptionKind, value: string): string => {
+    const id = uuidv4();
+    db.prepare(`
+      INSERT INTO sync_subscriptions (id, kind, value) VALUES (?, ?, ?)
+      ON CONFLICT(kind, value) DO NOTHING
+    `).run(id, kind, value);
+    const row = db.prepare('SELECT id FROM sync_subscriptions WHERE kind = ? AND value = ?').get(kind, value) as { id: string };
+    return row.id;
+  },
+
+  removeSyncSubscription: (id: string) => {
+    const stmt = db.prepare('DELETE FROM sync_subscriptions WHERE id = ?');
+    return stmt.run(id);
+  },
+
+  /**
+   * Drop the local copy of a team item outside the sync subscriptions.
+   * Not a deletion: no tombstone or outbox entry is written.
+   */
+  removeUnsubscribedItem: (itemType: ItemType, itemId: string): boolean => {
+    return db.transaction(() => {
+      db.prepare('DELETE FROM sync_base WHERE item_type = ? AND item_id = ?').run(itemType, itemId);
+      db.prepare('DELETE FROM sync_conflicts WHERE item_type = ? AND item_id = ? AND resolved_at IS NULL')
+        .run(itemType, itemId);
+      const result = db.prepare(`DELETE FROM ${ITEM_TABLES[itemType]} WHERE id = ? AND is_team_level = 1`)
+        .run(itemId);
+      return result.changes > 0;
+    })();
+  },
+
+  // ============ Team Operations ============
+
+  getTeam: (id: string): Team | undefined => {
+    const stmt = db.prepare('SELECT * FROM teams WHERE id = ?');
+    return stmt.get(id) as Team | undefined;
+  },
+
+  /**
+   * Teams a user belongs to; everyone belongs to the default team
+   */
+  getTeamsForUser: (userEmail: string | null): Team[] => {
+    const stmt = db.prepare(`
+      SELECT * FROM teams
+      WHERE id = ? OR id IN (
+        SELECT team_id FROM team_members WHERE user_email = ? AND deleted_at IS NULL
+      )
+      ORDER BY id != ?, name COLLATE NOCASE
+    `);
+    return stmt.all(DEFAULT_TEAM_ID, userEmail, DEFAULT_TEAM_ID) as Team[];
+  },
+
+  createTeam: (name: string, createdBy: string): string => {
+    const id = uuidv4();
+    db.transaction(() => {
+      db.prepare('INSERT INTO teams (id, name, created_by) VALUES (?, ?, ?)').run(id, name, createdBy);
+      db.prepare(`
+        INSERT INTO team_members (team_id, user_email, role, added_by) VALUES (?, ?, 'owner', ?)
+      `).run(id, createdBy, createdBy);
+    })();
+    return id;
+  },
+
+  getTeamMembers: (teamId: string): TeamMember[] => {
+    const stmt = db.prepare(`
+      SELECT * FROM team_members WHERE team_id = ? AND deleted_at IS NULL
+      ORDER BY role = 'member', user_email
+    `);
+    return stmt.all(teamId) as TeamMember[];
+  },
+
+  addTeamMember: (teamId: string, userEmail: string, addedBy: string, role: TeamRole = 'member') => {
+    const stmt = db.prepare(`
+      INSERT INTO team_members (team_id, user_email, role, added_by) VALUES (?, ?, ?, ?)
+      ON CONFLICT(team_id, user_email) DO UPDATE SET
+        role = excluded.role,
+        added_by = excluded.added_by,
+        added_at = CURRENT_TIMESTAMP,
+        pushed_at = NULL,
+        deleted_at = NULL
+    `);
+    return stmt.run(teamId, userEmail, role, addedBy);
+  },
+
+  /**
+   * Remove a membership. Memberships already on the team server are kept
+   * (marked deleted) until the removal has been pushed.
+   */
+  removeTeamMember: (teamId: string, userEmail: string) => {
+    db.prepare(`
+      UPDATE team_members SET deleted_at = CURRENT_TIMESTAMP
+      WHERE team_id = ? AND user_email = ? AND pushed_at IS NOT NULL
+    `).run(teamId, userEmail);
+    return db.prepare(`
+      DELETE FROM team_members WHERE team_id = ? AND user_email = ? AND pushed_at IS NULL
+    `).run(teamId, userEmail);
+  },
+
+  getUnpushedTeams: (): Team[] => {
+    const stmt = db.prepare('SELECT * FROM teams WHERE pushed_at IS NULL');
+    return stmt.all() as Team[];
+  },
+
+  markTeamPushed: (id: string) => {
+    const stmt = db.prepare('UPDATE teams SET pushed_at = CURRENT_TIMESTAMP WHERE id = ?');
+    return stmt.run(id);
+  },
+
+  getUnpushedTeamMembers: (): TeamMember[] => {
+    const stmt = db.prepare('SELECT * FROM team_members WHERE pushed_at IS NULL AND deleted_at IS NULL');
+    return stmt.all() as TeamMember[];
+  },
+
+  getDeletedTeamMembers: (): TeamMember[] => {
+    const stmt = db.prepare('SELECT * FROM team_members WHERE deleted_at IS NOT NULL');
+    return stmt.all() as TeamMember[];
+  },
+
+  markTeamMemberPushed: (teamId: string, userEmail: string) => {
+    const stmt = db.prepare(`
+      UPDATE team_members SET pushed_at = CURRENT_TIMESTAMP WHERE team_id = ? AND user_email = ?
+    `);
+    return stmt.run(teamId, userEmail);
+  },
+
+  purgeTeamMember: (teamId: string, userEmail: string) => {
+    const stmt = db.prepare('DELETE FROM team_members WHERE team_id = ? AND user_email = ?');
+    return stmt.run(teamId, userEmail);
+  },
+
+  /**
+   * Replace the local copy of a team and its memberships with the team server's.
+   * Local changes that have not been pushed yet are kept.
+   */
+  saveSyncedTeam: (team: Team, members: TeamMember[]) => {
+    db.transaction(() => {
+      db.prepare(`
+        INSERT INTO teams (id, name, created_by, created_at, pushed_at)
+        VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+        ON CONFLICT(id) DO UPDATE SET name = excluded.name, pushed_at = CURRENT_TIMESTAMP
+      `).run(team.id, team.name, team.created_by ?? null, team.created_at ?? new Date().toISOString());
+
+      db.prepare(`
+        DELETE FROM team_members WHERE team_id = ? AND pushed_at IS NOT NULL AND deleted_at IS NULL
+      `).run(team.id);
+
+      const insertMember = db.prepare(`
+        INSERT INTO team_members (team_id, user_email, role, added_by, added_at, pushed_at)
+        VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+        ON CONFLICT(team_id, user_email) DO NOTHING
+      `);
+      for (const member of members) {
+        insertMember.run(
+          team.id, member.user_email, member.role, member.added_by ?? null,
+          member.added_at ?? new Date().toISOString()
+        );
+      }
+    })();
+  },
+
+  /**
+   * Forget a team the user no longer belongs to. Its team items are dropped
+   * by the next sync.
+   */
+  removeSyncedTeam: (teamId: string) => {
+    const stmt = db.prepare('DELETE FROM teams WHERE id = ? AND id != ?');
+    return stmt.run(teamId, DEFAULT_TEAM_ID);
+  },
+
+  // ============ Revision Operations ============
+
+  /**
+   * Revisions of an item, newest first
+   */
+  getItemRevisions: (itemType: ItemType, itemId: string): ItemRevision[] => {
+    const stmt = db.prepare(`
+      SELECT * FROM item_revisions
+      WHERE item_type = ? AND item_id = ?
+      ORDER BY id DESC
+    `);
+    return (stmt.all(itemType, itemId) as any[]).map(row => ({ ...row, snapshot: JSON.parse(row.snapshot) }));
+  },
+
+  getItemRevision: (id: number): ItemRevision | undefined => {
+    const stmt = db.prepare('SELECT * FROM item_revisions WHERE id = ?');
+    const row = stmt.get(id) as any;
+    return row ? { ...row, snapshot: JSON.parse(row.snapshot) } : undefined;
+  },
+
+  /**
+   * Bring an item back to the content of an earlier revision. The restore is
+   * a new edit: it gets its own revision and is synced like any other change.
+   */
+  restoreItemRevision: (id: number, restoredBy?: string) => {
+    return db.transaction(() => {
+      const revision = dbOperations.getItemRevision(id);
+      if (!revision) throw new Error('Revision not found');
+
+      applyItemEdit(revision.item_type, revision.item_id, revision.snapshot, 'restore', restoredBy);
+      return revision;
+    })();
+  },
+
+  // ============ Trash Operations ============
+
+  /**
+   * Items in the trash, most recently deleted first
+   */
+  getTrashedItems: (userEmail?: string, teamId?: string): TrashedItem[] => {
+    const trashed: TrashedItem[] = [];
+    for (const itemType of Object.keys(ITEM_TABLES) as ItemType[]) {
+      let query = `SELECT * FROM ${ITEM_TABLES[itemType]} WHERE deleted_at IS NOT NULL`;
+      const params: any[] = [];
+
+      if (userEmail) {
+        query += ` AND ${visibleToUserClause(itemType)}`;
+        params.push(userEmail, userEmail);
+      }
+
+      if (teamId) {
+        query += ` AND ${IN_TEAM_CLAUSE}`;
+        params.push(teamId);
+      }
+
+      const rows = db.prepare(query).all(...params) as (Bookmark | Executable | Script)[];
+      trashed.push(...rows.map(item => ({ item_type: itemType, item })));
+    }
+    return trashed.sort((a, b) => (b.item.deleted_at ?? '').localeCompare(a.item.deleted_at ?? ''));
+  },
+
+  /**
+   * Take an item out of the trash. A deletion not yet pushed to the team
+   * server is cancelled. Once it has been pushed, other machines may already
+   * have applied the tombstone, so the item comes back under a new id and is
+   * uploaded as a new item. Returns the id of the restored item.
+   */
+  restoreTrashedItem: (itemType: ItemType, id: string, restoredBy?: string): string => {
+    const table = ITEM_TABLES[itemType];
+
+    return db.transaction(() => {
+      const item = db.prepare(`SELECT * FROM ${table} WHERE id = ? AND deleted_at IS NOT NULL`).get(id) as
+        | Record<string, any>
+        | undefined;
+      if (!item) throw new Error('Item not found in the trash');
+
+      const tombstone = db.prepare('SELECT pushed_at FROM sync_tombstones WHERE item_type = ? AND item_id = ?')
+        .get(itemType, id) as { pushed_at: string | null } | undefined;
+
+      let restoredId = id;
+      if (tombstone?.pushed_at) {
+        restoredId = uuidv4();
+        db.prepare(`UPDATE ${table} SET id = ? WHERE id = ?`).run(restoredId, id);
+        db.prepare('UPDATE item_revisions SET item_id = ? WHERE item_type = ? AND item_id = ?')
+          .run(restoredId, itemType, id);
+      } else if (tombstone) {
+        db.prepare('DELETE FROM sync_tombstones WHERE item_type = ? AND item_id = ?').run(itemType, id);
+        db.prepare('DELETE FROM sync_outbox WHERE item_type = ? AND item_id = ?').run(itemType, id);
+      }
+
+      db.prepare(`
+        UPDATE ${table}
+        SET deleted_at = NULL, deleted_by = NULL,
+            updated_by = COALESCE(?, updated_by), updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(restoredBy ?? null, restoredId);
+      linkItemTags(itemType, restoredId, item.tags);
+
+      if (item.is_team_level) {
+        queueOutboxEntry(itemType, restoredId, restoredId === id ? 'update' : 'create', restoredBy);
+      }
+      return restoredId;
+    })();
+  },
+
+  /**
+   * Delete one item in the trash for good
+   */
+  purgeTrashedItem: (itemType: ItemType, id: string) => {
+    return purgeTrashedItems(itemType, [id]);
+  },
+
+  /**
+   * Delete every item in the trash the user can see for good.
+   * Returns the number of items deleted.
+   */
+  emptyTrash: (userEmail?: string, teamId?: string): number => {
+    return db.transaction(() => {
+      let purged = 0;
+      for (const { item_type, item } of dbOperations.getTrashedItems(userEmail, teamId)) {
+        purged += purgeTrashedItems(item_type, [item.id]);
+      }
+      return purged;
+    })();
+  },
+
+  /**
+   * Delete items that have been in the trash longer than the retention window.
+   * Returns the number of items deleted.
+   */
+  purgeExpiredTrash: (retentionDays: number): number => {
+    return db.transaction(() => {
+      let purged = 0;
+      for (const itemType of Object.keys(ITEM_TABLES) as ItemType[]) {
+        const rows = db.prepare(`
+          SELECT id FROM ${ITEM_TABLES[itemType]}
+          WHERE deleted_at IS NOT NULL AND deleted_at < datetime('now', ?)
+        `).all(`-${retentionDays} days`) as { id: string }[];
+        purged += purgeTrashedItems(itemType, rows.map(row => row.id));
+      }
+      return purged;
+    })();
+  },
+
+  // ============ Search Operations ============
+
+  /**
+   * Full-text search over titles, URLs, paths, parameters, script bodies, tags
+   * and categories, best matches first. Each word is matched as a prefix.
+   */
+  searchItems: (
+    searchTerm: string,
+    options: { itemType?: ItemType; userEmail?: string; teamId?: string; limit?: number } = {}
+  ): SearchResult[] => {
+    const match = buildMatchQuery(searchTerm);
+    if (!match) {
+      return [];
+    }
+
+    const itemTypes = options.itemType ? [options.itemType] : (Object.keys(ITEM_TABLES) as ItemType[]);
+    const rank = `bm25(item_search, 0, 0, ${SEARCH_WEIGHTS.join(', ')})`;
+    const snippets = SEARCH_COLUMNS.slice(1).map((column, index) =>
+      `snippet(item_search, ${index + 3}, '${HIGHLIGHT_START}', '${HIGHLIGHT_END}', '…', 12) AS snippet_${column}`
+    ).join(', ');
+
+    const results: SearchResult[] = [];
+    for (const itemType of itemTypes) {
+      let query = `
+        SELECT i.*, ${rank} AS search_score,
+          highlight(item_search, 2, '${HIGHLIGHT_START}', '${HIGHLIGHT_END}') AS search_title,
+          ${snippets}
+        FROM item_search
+        JOIN ${ITEM_TABLES[itemType]} i ON i.id = item_search.item_id
+        WHERE item_search MATCH ? AND item_search.item_type = ? AND i.deleted_at IS NULL
+      `;
+      const params: any[] = [match, itemType];
+
+      if (options.userEmail) {
+        query += ` AND ${visibleToUserClause(itemType)}`;
+        params.push(options.userEmail, options.userEmail);
+      }
+
+      if (options.teamId) {
+        query += ` AND ${IN_TEAM_CLAUSE}`;
+        params.push(options.teamId);
+      }
+
+      const rows = db.prepare(query).all(...params) as Record<string, any>[];
+      for (const row of rows) {
+        const { search_score, search_title, ...rest } = row;
+        const snippetField = SEARCH_COLUMNS.slice(1).find(column => row[`snippet_${column}`]?.includes(HIGHLIGHT_START)) ?? null;
+        const item = Object.fromEntries(Object.entries(rest).filter(([key]) => !key.startsWith('snippet_')));
+
+        results.push({
+          item_type: itemType,
+          item_id: row.id,
+          score: search_score,
+          title: parseHighlights(search_title),
+          snippet_field: snippetField,
+          snippet: snippetField ? parseHighlights(row[`snippet_${snippetField}`]) : [],
+          item: item as Bookmark | Executable | Script,
+        });
+      }
+    }
+
+    results.sort((a, b) => a.score - b.score);
+    return options.limit ? results.slice(0, options.limit) : results;
+  },
+
+  // ============ Tag Operations ============
+
+  /**
+   * All tags with the number of bookmarks, executables and scripts carrying each
+   */
+  getTags: (): Tag[] => {
+    const stmt = db.prepare(`
+      SELECT t.*,
+        COUNT(CASE WHEN it.item_type = 'bookmark' THEN 1 END) AS bookmark_count,
+        COUNT(CASE WHEN it.item_type = 'executable' THEN 1 END) AS executable_count,
+        COUNT(CASE WHEN it.item_type = 'script' THEN 1 END) AS script_count
+      FROM tags t
+      LEFT JOIN item_tags it ON it.tag_id = t.id
+      GROUP BY t.id
+      ORDER BY t.name COLLATE NOCASE
+    `);
+    return stmt.all() as Tag[];
+  },
+
+  getTagByName: (name: string): { id: string; name: string } | undefined => {
+    const stmt = db.prepare('SELECT id, name FROM tags WHERE name = ?');
+    return stmt.get(name) as { id: string; name: string } | undefined;
+  },
+
+  /**
+   * Rename a tag on every item carrying it. Returns the number of items changed.
+   */
+  renameTag: (id: string, newName: string, changedBy?: string): number => {
+    return db.transaction(() => {
+      const tag = db.prepare('SELECT name FROM tags WHERE id = ?').get(id) as { name: string } | undefined;
+      if (!tag) throw new Error('Tag not found');
+
+      db.prepare('UPDATE tags SET name = ? WHERE id = ?').run(newName, id);
+      const oldName = tag.name.toLowerCase();
+      return retagItems([id], names => names.map(name => (name.toLowerCase() === oldName ? newName : name)), changedBy);
+    })();
+  },
+
+  /**
+   * Fold the source tags into the target tag on every item and delete them.
+   * Returns the number of items changed.
+   */
+  mergeTags: (sourceIds: string[], targetId: string, changedBy?: string): number => {
+    return db.transaction(() => {
+      const target = db.prepare('SELECT name FROM tags WHERE id = ?').get(targetId) as { name: string } | undefined;
+      if (!target) throw new Error('Tag not found');
+
+      const ids = sourceIds.filter(id => id !== targetId);
+      if (ids.length === 0) return 0;
+
+      const placeholders = ids.map(() => '?').join(', ');
+      const sources = db.prepare(`SELECT name FROM tags WHERE id IN (${placeholders})`).all(...ids) as { name: string }[];
+      const sourceNames = new Set(sources.map(source => source.name.toLowerCase()));
+
+      const changed = retagItems(
+        ids,
+        names => names.map(name => (sourceNames.has(name.toLowerCase()) ? target.name : name)),
+        changedBy
+      );
+      db.prepare(`DELETE FROM tags WHERE id IN (${placeholders})`).run(...ids);
+      return changed;
+    })();
+  },
+
+  setTagColor: (id: string, color: string | null) => {
+    const stmt = db.prepare('UPDATE tags SET color = ? WHERE id = ?');
+    return stmt.run(color, id);
+  },
+
+  /**
+   * Remove a tag from every item carrying it and delete it.
+   * Returns the number of items changed.
+   */
+  deleteTag: (id: string, changedBy?: string): number => {
+    return db.transaction(() => {
+      const tag = db.prepare('SELECT name FROM tags WHERE id = ?').get(id) as { name: string } | undefined;
+      if (!tag) throw new Error('Tag not found');
+
+      const name = tag.name.toLowerCase();
+      const changed = retagItems([id], names => names.filter(n => n.toLowerCase() !== name), changedBy);
+      db.prepare('DELETE FROM tags WHERE id = ?').run(id);
+      return changed;
+    })();
+  },
+
   // ============ Promotion Operations ============
 
-  promoteToTeam: (itemType: 'bookmark' | 'executable' | 'script', itemId: string, userEmail: string) => {
-    const table = itemType === 'bookmark' ? 'bookmarks' : itemType === 'executable' ? 'executables' : 'scripts';
+  promoteToTeam: (itemType: ItemType, itemId: string, userEmail: string, teamId: string = DEFAULT_TEAM_ID) => {
+    const table = ITEM_TABLES[itemType];
     
     const stmt = db.prepare(`
       UPDATE ${table}
-      SET is_team_level = 1, updated_by = ?, updated_at = CURRENT_TIMESTAMP
+      SET is_team_level = 1, team_id = ?, updated_by = ?, updated_at = CURRENT_TIMESTAMP
       WHERE id = ?
     `);
     
-    return stmt.run(userEmail, itemId);
+    const result = stmt.run(teamId, userEmail, itemId);
+    if (result.changes > 0) {
+      queueOutboxEntry(itemType, itemId, 'promote', userEmail);
+    }
+    return result;
   },
 
   // ============ Utility Operations ============
@@ -458,16 +1840,24 @@ export const dbOperations = {
   },
 
   getStats: () => {
-    const bookmarksCount = db.prepare('SELECT COUNT(*) as count FROM bookmarks').get() as { count: number };
-    const executablesCount = db.prepare('SELECT COUNT(*) as count FROM executables').get() as { count: number };
-    const scriptsCount = db.prepare('SELECT COUNT(*) as count FROM scripts').get() as { count: number };
+    const bookmarksCount = db.prepare('SELECT COUNT(*) as count FROM bookmarks WHERE deleted_at IS NULL').get() as { count: number };
+    const executablesCount = db.prepare('SELECT COUNT(*) as count FROM executables WHERE deleted_at IS NULL').get() as { count: number };
+    const scriptsCount = db.prepare('SELECT COUNT(*) as count FROM scripts WHERE deleted_at IS NULL').get() as { count: number };
     const sharesCount = db.prepare('SELECT COUNT(*) as count FROM user_shares').get() as { count: number };
+    const trashedCount = db.prepare(`
+      SELECT (SELECT COUNT(*) FROM bookmarks WHERE deleted_at IS NOT NULL)
+        + (SELECT COUNT(*) FROM executables WHERE deleted_at IS NOT NULL)
+        + (SELECT COUNT(*) FROM scripts WHERE deleted_at IS NOT NULL) as count
+    `).get() as { count: number };
+    const tagsCount = db.prepare('SELECT COUNT(*) as count FROM tags').get() as { count: number };
     
     return {
       bookmarks: bookmarksCount.count,
       executables: executablesCount.count,
       scripts: scriptsCount.count,
       shares: sharesCount.count,
+      trashed: trashedCount.count,
+      tags: tagsCount.count,
     };
   },
 };
@@ -0,0 +1,302 @@
+/**
+ * Shared folder sync backend
+ * For teams without a MySQL server: the team store is a JSON document on a
+ * network folder, guarded by a lock file while it is being modified. A sync
+ * holds the lock throughout and writes the document once at the end.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { SyncBackend } from './sync-backend';
+import { createDocumentSyncBackend, createEmptySyncDocument, SyncDocument } from './memory-sync-backend';
+
+const STORE_FILE = 'bolt-launch-pad-sync.json';
+const LOCK_FILE = 'bolt-launch-pad-sync.lock';
+const LOCK_TIMEOUT_MS = 60 * 1000; // waited without the holder's heartbeat moving; must exceed STALE_LOCK_MS
+const LOCK_RETRY_MS = 100;
+const LOCK_HEARTBEAT_MS = 5 * 1000;
+const STALE_LOCK_MS = 30 * 1000; // a lock whose heartbeat stopped this long ago was left behind by a crashed client
+
+/**
+ * Contents of the lock file, written once when the lock is taken. While it
+ * holds the lock the owner rewrites its own heartbeat file next to it, never
+ * the lock file. Waiters time the heartbeat with their own clock, as the
+ * clocks of the machines sharing the folder (and its file times) need not agree.
+ */
+interface LockInfo {
+  owner: string;
+  host: string;
+  acquired_at: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Create a sync backend storing team items in a shared folder
+ */
+export function createFolderSyncBackend(folderPath: string): SyncBackend {
+  const storePath = path.join(folderPath, STORE_FILE);
+  const lockPath = path.join(folderPath, LOCK_FILE);
+
+  const readDocument = async (): Promise<SyncDocument> => {
+    try {
+      const content = await fs.promises.readFile(storePath, 'utf-8');
+      return { ...createEmptySyncDocument(), ...JSON.parse(content) };
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return createEmptySyncDocument();
+      }
+      throw error;
+    }
+  };
+
+  const owner = crypto.randomUUID();
+  const heartbeatPath = (lockOwner: string) => `${lockPath}.${lockOwner}`;
+  let heartbeatTimer: NodeJS.Timeout | null = null;
+  let pendingBeat: Promise<void> = Promise.resolve();
+  // Set when another client broke our lock as stale while we still held it
+  let lockLost = false;
+  // The lock and heartbeat last seen by a waiter, and when they were first seen
+  let observedLock: { state: string; since: number } | null = null;
+
+  const readLockInfo = (content: string): Partial<LockInfo> => {
+    try {
+      return JSON.parse(content);
+    } catch {
+      // Still being written
+      return {};
+    }
+  };
+
+  const readOptional = async (filePath: string): Promise<string> => {
+    try {
+      return await fs.promises.readFile(filePath, 'utf-8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return '';
+      }
+      throw error;
+    }
+  };
+
+  const isLockOwned = async (): Promise<boolean> =>
+    readLockInfo(await readOptional(lockPath)).owner === owner;
+
+  /**
+   * Remove the lock file if its contents pass the check. The file is first
+   * renamed aside, so a lock taken by another client in the meantime is never
+   * removed: it is put back when the check fails.
+   */
+  const removeLockIf = async (check: (content: string) => boolean): Promise<boolean> => {
+    const asidePath = `${lockPath}.${owner}.${crypto.randomUUID()}.removed`;
+    try {
+      await fs.promises.rename(lockPath, asidePath);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+
+    try {
+      if (check(await fs.promises.readFile(asidePath, 'utf-8'))) {
+        return true;
+      }
+      // Not the lock we meant to remove - put it back unless a newer one was taken
+      await fs.promises.link(asidePath, lockPath).catch(() => undefined);
+      return false;
+    } finally {
+      await fs.promises.rm(asidePath, { force: true });
+    }
+  };
+
+  /**
+   * Whether the lock held by someone else has stopped beating. Any sign of
+   * life restarts the clock, and the wait timeout along with it.
+   */
+  const checkHeldLock = async (): Promise<'alive' | 'waiting' | { stale: string }> => {
+    const content = await fs.promises.readFile(lockPath, 'utf-8');
+    const info = readLockInfo(content);
+    const heartbeat = info.owner ? await readOptional(heartbeatPath(info.owner)) : '';
+    const state = `${content}\n${heartbeat}`;
+    const now = Date.now();
+    if (observedLock?.state !== state) {
+      observedLock = { state, since: now };
+      return 'alive';
+    }
+    return now - observedLock.since > STALE_LOCK_MS ? { stale: content } : 'waiting';
+  };
+
+  const startHeartbeat = () => {
+    const beat = async () => {
+      try {
+        if (!(await isLockOwned())) {
+          lockLost = true;
+          stopHeartbeat();
+          return;
+        }
+        await fs.promises.writeFile(heartbeatPath(owner), String(Date.now()), 'utf-8');
+      } catch (error) {
+        console.error('Failed to refresh sync folder lock:', error);
+      }
+    };
+    heartbeatTimer = setInterval(() => {
+      pendingBeat = beat();
+    }, LOCK_HEARTBEAT_MS);
+    return (pendingBeat = beat());
+  };
+
+  const stopHeartbeat = () => {
+    if (heartbeatTimer) {
+      clearInterval(heartbeatTimer);
+      heartbeatTimer = null;
+    }
+  };
+
+  const acquireLock = async (): Promise<void> => {
+    let deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    while (true) {
+      try {
+        const handle = await fs.promises.open(lockPath, 'wx');
+        try {
+          const info: LockInfo = { owner, host: `${os.hostname()}:${process.pid}`, acquired_at: Date.now() };
+          await handle.writeFile(JSON.stringify(info), 'utf-8');
+        } finally {
+          await handle.close();
+        }
+        observedLock = null;
+        lockLost = false;
+        await startHeartbeat();
+        return;
+      } catch (error: any) {
+        if (error?.code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      try {
+        const held = await checkHeldLock();
+        if (held === 'alive') {
+          deadline = Date.now() + LOCK_TIMEOUT_MS;
+        } else if (held !== 'waiting') {
+          const stale = readLockInfo(held.stale);
+          if (await removeLockIf(content => content === held.stale)) {
+            console.warn(`Removed stale sync folder lock held by ${stale.host ?? 'an unknown client'}:`, lockPath);
+            if (stale.owner) {
+              await fs.promises.rm(heartbeatPath(stale.owner), { force: true });
+            }
+          }
+          observedLock = null;
+          continue;
+        }
+      } catch {
+        // Lock was released between open and read - try again
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for sync folder lock: ${lockPath}`);
+      }
+      await sleep(LOCK_RETRY_MS);
+    }
+  };
+
+  /**
+   * Fail instead of writing when another client has taken the lock over
+   */
+  const ensureLockOwned = async (): Promise<void> => {
+    if (lockLost || !(await isLockOwned())) {
+      lockLost = true;
+      throw new Error(`Lost the sync folder lock to another client: ${lockPath}`);
+    }
+  };
+
+  const releaseLock = async (): Promise<void> => {
+    stopHeartbeat();
+    await pendingBeat;
+    try {
+      // Leave a lock alone that another client took over after declaring ours stale
+      await removeLockIf(content => readLockInfo(content).owner === owner);
+      await fs.promises.rm(heartbeatPath(owner), { force: true });
+    } catch (error) {
+      console.error('Failed to release sync folder lock:', error);
+    }
+  };
+
+  const writeDocument = async (doc: SyncDocument): Promise<void> => {
+    // Write to a temp file first so readers never see a partial document
+    const tempPath = `${storePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(doc), 'utf-8');
+    await fs.promises.rename(tempPath, storePath);
+  };
+
+  // The document held under the lock while a batch runs
+  let batch: { doc: SyncDocument; dirty: boolean } | null = null;
+
+  const scopeHash = crypto.createHash('sha1').update(path.resolve(folderPath)).digest('hex').slice(0, 12);
+
+  return createDocumentSyncBackend(
+    {
+      name: 'Shared folder',
+      scope: `folder_${scopeHash}`,
+      isAvailable: () => fs.existsSync(folderPath),
+      healthCheck: async () => {
+        try {
+          await fs.promises.access(folderPath, fs.constants.R_OK | fs.constants.W_OK);
+          return true;
+        } catch (error) {
+          console.error('❌ Sync folder is not accessible:', error);
+          return false;
+        }
+      },
+    },
+    {
+      read: async () => batch?.doc ?? readDocument(),
+      update: async (mutate) => {
+        if (batch) {
+          if (mutate(batch.doc) !== false) {
+            batch.dirty = true;
+          }
+          return;
+        }
+
+        await acquireLock();
+        try {
+          const doc = await readDocument();
+          if (mutate(doc) !== false) {
+            await ensureLockOwned();
+            await writeDocument(doc);
+          }
+        } finally {
+          await releaseLock();
+        }
+      },
+      batch: async (work) => {
+        if (batch) {
+          return await work();
+        }
+
+        await acquireLock();
+        try {
+          const held = { doc: await readDocument(), dirty: false };
+          batch = held;
+          try {
+            return await work();
+          } finally {
+            // Changes made before a failure were already reported as pushed
+            if (held.dirty) {
+              await ensureLockOwned();
+              await writeDocument(held.doc);
+            }
+          }
+        } finally {
+          batch = null;
+          await releaseLock();
+        }
+      },
+    }
+  );
+}
@@ -5,11 +5,17 @@
 
 import { ipcMain, dialog, shell, BrowserWindow, clipboard } from 'electron';
 import { autoUpdater } from 'electron-updater';
-import { dbOperations } from './db-operations';
-import { db, getDatabasePath } from './database';
+import { dbOperations, ItemType } from './db-operations';
+import { db, getDatabasePath, getDatabaseStartupError } from './database';
+import { SQLiteSchemaTooNewError } from './sqlite-migrations';
 import * as mysqlConnection from './mysql-connection';
 import * as syncEngine from './sync-engine';
+import { SyncActivityFilter } from './sync-backend';
 import * as authService from './auth-service';
+import * as teamService from './team-service';
+import * as tagService from './tag-service';
+import * as backupService from './backup-service';
+import * as trashService from './trash-service';
 import * as faviconService from './favicon-service';
 import * as iconService from './icon-service';
 import * as scriptExecutor from './script-executor';
@@ -20,10 +26,16 @@ import * as scriptExecutor from './script-executor';
  */
 export function registerAllHandlers(mainWindow: BrowserWindow) {
   registerDatabaseHandlers();
+  registerBackupHandlers();
   registerBookmarkHandlers();
   registerExecutableHandlers();
   registerScriptHandlers();
-  registerSyncHandlers();
+  registerSearchHandlers();
+  registerRevisionHandlers();
+  registerTrashHandlers();
+  registerSyncHandlers(mainWindow);
+  registerTeamHandlers();
+  registerTagHandlers();
   registerAuthHandlers(mainWindow);
   registerSystemHandlers();
   registerUpdateHandlers();
@@ -69,6 +81,35 @@ function registerDatabaseHandlers() {
     }
   });
 
+  ipcMain.handle('db:getStartupError', async () => {
+    const error = getDatabaseStartupError();
+    if (!error) {
+      return null;
+    }
+    return {
+      message: error.message,
+      version: error.version,
+      description: error.description,
+      schemaVersion: error.schemaVersion,
+      backupPath: error.backupPath,
+      databasePath: getDatabasePath(),
+      newerSchema: error instanceof SQLiteSchemaTooNewError,
+    };
+  });
+
+  ipcMain.handle('db:showStartupBackup', async () => {
+    try {
+      const backupPath = getDatabaseStartupError()?.backupPath;
+      if (backupPath) {
+        shell.showItemInFolder(backupPath);
+      }
+      return { success: true };
+    } catch (error) {
+      console.error('Error showing database backup:', error);
+      throw error;
+    }
+  });
+
   ipcMain.handle('db:getStats', async () => {
     try {
       return dbOperations.getStats();
@@ -79,12 +120,91 @@ function registerDatabaseHandlers() {
   });
 }
 
+// ============ Backup Handlers ============
+
+function registerBackupHandlers() {
+  ipcMain.handle('backups:list', async () => {
+    try {
+      return backupService.listBackups();
+    } catch (error) {
+      console.error('Error listing backups:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('backups:create', async () => {
+    try {
+      return await backupService.createBackup('manual');
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('backups:preview', async (_event, fileName: string) => {
+    try {
+      return backupService.previewBackup(fileName);
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('backups:restore', async (_event, fileName: string) => {
+    try {
+      await backupService.restoreBackup(fileName);
+      return { success: true };
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('backups:delete', async (_event, fileName: string) => {
+    try {
+      backupService.deleteBackup(fileName);
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting backup:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('backups:show', async (_event, fileName: string) => {
+    try {
+      backupService.showBackup(fileName);
+      return { success: true };
+    } catch (error) {
+      console.error('Error showing backup:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('backups:getPolicy', async () => {
+    try {
+      return backupService.getBackupPolicy();
+    } catch (error) {
+      console.error('Error getting backup policy:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('backups:setPolicy', async (_event, policy: backupService.BackupPolicy) => {
+    try {
+      return backupService.setBackupPolicy(policy);
+    } catch (error) {
+      console.error('Error setting backup policy:', error);
+      throw error;
+    }
+  });
+}
+
 // ============ Bookmarks Handlers ============
 
 function registerBookmarkHandlers() {
   ipcMain.handle('bookmarks:getAll', async (_event, userEmail?: string) => {
     try {
-      return dbOperations.getAllBookmarks(userEmail);
+      return dbOperations.getAllBookmarks(userEmail, teamService.getActiveTeamId());
     } catch (error) {
       console.error('Error getting bookmarks:', error);
       throw error;
@@ -93,7 +213,9 @@ function registerBookmarkHandlers() {
 
   ipcMain.handle('bookmarks:create', async (_event, bookmark: any) => {
     try {
-      return dbOperations.createBookmark(bookmark);
+      const result = dbOperations.createBookmark({ team_id: teamService.getActiveTeamId(), ...bookmark });
+      syncEngine.scheduleOutboxReplay();
+      return result;
     } catch (error) {
       console.error('Error creating bookmark:', error);
       throw error;
@@ -102,7 +224,9 @@ function registerBookmarkHandlers() {
 
   ipcMain.handle('bookmarks:update', async (_event, id: string, updates: any) => {
     try {
-      return dbOperations.updateBookmark(id, updates);
+      const result = dbOperations.updateBookmark(id, updates);
+      syncEngine.scheduleOutboxReplay();
+      return result;
     } catch (error) {
       console.error('Error updating bookmark:', error);
       throw error;
@@ -111,7 +235,9 @@ function registerBookmarkHandlers() {
 
   ipcMain.handle('bookmarks:delete', async (_event, id: string) => {
     try {
-      return dbOperations.deleteBookmark(id);
+      const result = dbOperations.deleteBookmark(id, authService.getCurrentUserEmail() ?? undefined);
+      syncEngine.scheduleOutboxReplay();
+      return result;
     } catch (error) {
       console.error('Error deleting bookmark:', error);
       throw error;
@@ -120,7 +246,7 @@ function registerBookmarkHandlers() {
 
   ipcMain.handle('bookmarks:search', async (_event, searchTerm: string, userEmail?: string) => {
     try {
-      return dbOperations.searchBookmarks(searchTerm, userEmail);
+      return dbOperations.searchBookmarks(searchTerm, userEmail, teamService.getActiveTeamId());
     } catch (error) {
       console.error('Error searching bookmarks:', error);
       throw error;
@@ -143,7 +269,9 @@ function registerBookmarkHandlers() {
 
   ipcMain.handle('bookmarks:promoteToTeam', async (_event, bookmarkId: string, userEmail: string) => {
     try {
-      return dbOperations.promoteToTeam('bookmark', bookmarkId, userEmail);
+      const result = dbOperations.promoteToTeam('bookmark', bookmarkId, userEmail, teamService.getActiveTeamId());
+      syncEngine.scheduleOutboxReplay();
+      return result;
     } catch (error) {
       console.error('Error promoting bookmark:', error);
       throw error;
@@ -156,7 +284,7 @@ function registerBookmarkHandlers() {
 function registerExecutableHandlers() {
   ipcMain.handle('executables:getAll', async (_event, userEmail?: string) => {
     try {
-      return dbOperations.getAllExecutables(userEmail);
+      return dbOperations.getAllExecutables(userEmail, teamService.getActiveTeamId());
     } catch (error) {
       console.error('Error getting executables:', error);
       throw error;
@@ -165,7 +293,9 @@ function registerExecutableHandlers() {
 
   ipcMain.handle('executables:create', async (_event, executable: any) => {
     try {
-      return dbOperations.createExecutable(executable);
+      const result = dbOperations.createExecutable({ team_id: teamService.getActiveTeamId(), ...executable });
+      syncEngine.scheduleOutboxReplay();
+      return result;
     } catch (error) {
       console.error('Error creating executable:', error);
       throw error;
@@ -174,7 +304,9 @@ function registerExecutableHandlers() {
 
   ipcMain.handle('executables:update', async (_event, id: string, updates: any) => {
     try {
-      return dbOperations.updateExecutable(id, updates);
+      const result = dbOperations.updateExecutable(id, updates);
+      syncEngine.scheduleOutboxReplay();
+      return result;
     } catch (error) {
       console.error('Error updating executable:', error);
       throw error;
@@ -183,7 +315,9 @@ function registerExecutableHandlers() {
 
   ipcMain.handle('executables:delete', async (_event, id: string) => {
     try {
-      return dbOperations.deleteExecutable(id);
+      const result = dbOperations.deleteExecutable(id, authService.getCurrentUserEmail() ?? undefined);
+      syncEngine.scheduleOutboxReplay();
+      return result;
     } catch (error) {
       console.error('Error deleting executable:', error);
       throw error;
@@ -192,7 +326,7 @@ function registerExecutableHandlers() {
 
   ipcMain.handle('executables:search', async (_event, searchTerm: string, userEmail?: string) => {
     try {
-      return dbOperations.searchExecutables(searchTerm, userEmail);
+      return dbOperations.searchExecutables(searchTerm, userEmail, teamService.getActiveTeamId());
     } catch (error) {
       console.error('Error searching executables:', error);
       throw error;
@@ -233,7 +367,9 @@ function registerExecutableHandlers() {
 
   ipcMain.handle('executables:promoteToTeam', async (_event, executableId: string, userEmail: string) => {
     try {
-      return dbOperations.promoteToTeam('executable', executableId, userEmail);
+      const result = dbOperations.promoteToTeam('executable', executableId, userEmail, teamService.getActiveTeamId());
+      syncEngine.scheduleOutboxReplay();
+      return result;
     } catch (error) {
       console.error('Error promoting executable:', error);
       throw error;
@@ -246,7 +382,7 @@ function registerExecutableHandlers() {
 function registerScriptHandlers() {
   ipcMain.handle('scripts:getAll', async (_event, userEmail?: string) => {
     try {
-      return dbOperations.getAllScripts(userEmail);
+      return dbOperations.getAllScripts(userEmail, teamService.getActiveTeamId());
     } catch (error) {
       console.error('Error getting scripts:', error);
       throw error;
@@ -255,7 +391,9 @@ function registerScriptHandlers() {
 
   ipcMain.handle('scripts:create', async (_event, script: any) => {
     try {
-      return dbOperations.createScript(script);
+      const result = dbOperations.createScript({ team_id: teamService.getActiveTeamId(), ...script });
+      syncEngine.scheduleOutboxReplay();
+      return result;
     } catch (error) {
       console.error('Error creating script:', error);
       throw error;
@@ -264,7 +402,9 @@ function registerScriptHandlers() {
 
   ipcMain.handle('scripts:update', async (_event, id: string, updates: any) => {
     try {
-      return dbOperations.updateScript(id, updates);
+      const result = dbOperations.updateScript(id, updates);
+      syncEngine.scheduleOutboxReplay();
+      return result;
     } catch (error) {
       console.error('Error updating script:', error);
       throw error;
@@ -273,7 +413,9 @@ function registerScriptHandlers() {
 
   ipcMain.handle('scripts:delete', async (_event, id: string) => {
     try {
-      return dbOperations.deleteScript(id);
+      const result = dbOperations.deleteScript(id, authService.getCurrentUserEmail() ?? undefined);
+      syncEngine.scheduleOutboxReplay();
+      return result;
     } catch (error) {
       console.error('Error deleting script:', error);
       throw error;
@@ -282,7 +424,7 @@ function registerScriptHandlers() {
 
   ipcMain.handle('scripts:search', async (_event, searchTerm: string, userEmail?: string) => {
     try {
-      return dbOperations.searchScripts(searchTerm, userEmail);
+      return dbOperations.searchScripts(searchTerm, userEmail, teamService.getActiveTeamId());
     } catch (error) {
       console.error('Error searching scripts:', error);
       throw error;
@@ -337,7 +479,9 @@ function registerScriptHandlers() {
 
   ipcMain.handle('scripts:promoteToTeam', async (_event, scriptId: string, userEmail: string) => {
     try {
-      return dbOperations.promoteToTeam('script', scriptId, userEmail);
+      const result = dbOperations.promoteToTeam('script', scriptId, userEmail, teamService.getActiveTeamId());
+      syncEngine.scheduleOutboxReplay();
+      return result;
     } catch (error) {
       console.error('Error promoting script:', error);
       throw error;
@@ -345,9 +489,114 @@ function registerScriptHandlers() {
   });
 }
 
+// ============ Search Handlers ============
+
+function registerSearchHandlers() {
+  ipcMain.handle('search:items', async (_event, searchTerm: string, options?: { itemType?: ItemType; limit?: number }) => {
+    try {
+      return dbOperations.searchItems(searchTerm, {
+        ...options,
+        userEmail: authService.getCurrentUserEmail() ?? undefined,
+        teamId: teamService.getActiveTeamId(),
+      });
+    } catch (error) {
+      console.error('Error searching items:', error);
+      throw error;
+    }
+  });
+}
+
+// ============ Revision Handlers ============
+
+function registerRevisionHandlers() {
+  ipcMain.handle('revisions:getForItem', async (_event, itemType: ItemType, itemId: string) => {
+    try {
+      return dbOperations.getItemRevisions(itemType, itemId);
+    } catch (error) {
+      console.error('Error getting item revisions:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('revisions:restore', async (_event, revisionId: number) => {
+    try {
+      dbOperations.restoreItemRevision(revisionId, authService.getCurrentUserEmail() ?? undefined);
+      syncEngine.scheduleOutboxReplay();
+      return { success: true };
+    } catch (error) {
+      console.error('Error restoring item revision:', error);
+      throw error;
+    }
+  });
+}
+
+// ============ Trash Handlers ============
+
+function registerTrashHandlers() {
+  ipcMain.handle('trash:getAll', async () => {
+    try {
+      return trashService.getTrashedItems();
+    } catch (error) {
+      console.error('Error getting trashed items:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('trash:restore', async (_event, itemType: ItemType, id: string) => {
+    try {
+      const restoredId = trashService.restoreItem(itemType, id);
+      syncEngine.scheduleOutboxReplay();
+      return restoredId;
+    } catch (error) {
+      console.error('Error restoring item from trash:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('trash:purge', async (_event, itemType: ItemType, id: string) => {
+    try {
+      trashService.purgeItem(itemType, id);
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting item from trash:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('trash:empty', async () => {
+    try {
+      return trashService.emptyTrash();
+    } catch (error) {
+      console.error('Error emptying trash:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('trash:getRetentionDays', async () => {
+    try {
+      return trashService.getRetentionDays();
+    } catch (error) {
+      console.error('Error getting trash retention:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('trash:setRetentionDays', async (_event, days: number) => {
+    try {
+      trashService.setRetentionDays(days);
+      return { success: true };
+    } catch (error) {
+      console.error('Error setting trash retention:', error);
+      throw error;
+    }
+  });
+}
+
 // ============ Sync Handlers ============
 
-function registerSyncHandlers() {
+function registerSyncHandlers(mainWindow: BrowserWindow) {
+  syncEngine.setSyncProgressWindow(mainWindow);
+
   ipcMain.handle('sync:manual', async () => {
     try {
       return await syncEngine.manualSync();
@@ -357,6 +606,15 @@ function registerSyncHandlers() {
     }
   });
 
+  ipcMain.handle('sync:approve', async (_event, scope: string) => {
+    try {
+      return await syncEngine.approveSync(scope);
+    } catch (error) {
+      console.error('Error during approved sync:', error);
+      throw error;
+    }
+  });
+
   ipcMain.handle('sync:getStatus', async () => {
     try {
       return syncEngine.getSyncStatus();
@@ -366,6 +624,199 @@ function registerSyncHandlers() {
     }
   });
 
+  ipcMain.handle('sync:getPendingChanges', async () => {
+    try {
+      return syncEngine.getPendingChanges();
+    } catch (error) {
+      console.error('Error getting pending sync changes:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('sync:getActivity', async (_event, filter?: SyncActivityFilter) => {
+    try {
+      return await syncEngine.getActivity(filter);
+    } catch (error) {
+      console.error('Error getting team activity:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('sync:getRuns', async (_event, limit?: number) => {
+    try {
+      return syncEngine.getSyncRuns(limit);
+    } catch (error) {
+      console.error('Error getting sync history:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('sync:getRunItems', async (_event, runId: string) => {
+    try {
+      return syncEngine.getSyncRunItems(runId);
+    } catch (error) {
+      console.error('Error getting sync run details:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('sync:findRunItems', async (_event, searchTerm: string) => {
+    try {
+      return syncEngine.findSyncRunItems(searchTerm);
+    } catch (error) {
+      console.error('Error searching sync history:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('sync:preview', async () => {
+    try {
+      return await syncEngine.previewSync();
+    } catch (error) {
+      console.error('Error previewing sync:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('sync:verify', async () => {
+    try {
+      return await syncEngine.verifySync();
+    } catch (error) {
+      console.error('Error verifying sync:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('sync:repair', async (_event, requests: syncEngine.SyncRepairRequest[]) => {
+    try {
+      return await syncEngine.repairSync(requests);
+    } catch (error) {
+      console.error('Error repairing sync:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('sync:getConflicts', async () => {
+    try {
+      return syncEngine.getConflicts();
+    } catch (error) {
+      console.error('Error getting sync conflicts:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('sync:resolveConflict', async (_event, conflictId: string, resolution: 'mine' | 'theirs' | 'merge', mergedValues?: Record<string, any>) => {
+    try {
+      await syncEngine.resolveConflict(conflictId, resolution, mergedValues, authService.getCurrentUserEmail() ?? undefined);
+      return { success: true };
+    } catch (error) {
+      console.error('Error resolving sync conflict:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('sync:getBackendConfig', async () => {
+    try {
+      return syncEngine.getSyncBackendConfig();
+    } catch (error) {
+      console.error('Error getting sync backend config:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('sync:setBackendConfig', async (_event, type: 'mysql' | 'folder', folderPath?: string | null) => {
+    try {
+      syncEngine.setSyncBackendConfig(type, folderPath);
+      return { success: true };
+    } catch (error) {
+      console.error('Error saving sync backend config:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('sync:testBackend', async () => {
+    try {
+      return await syncEngine.testSyncBackend();
+    } catch (error) {
+      console.error('Error testing sync backend:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('sync:getSubscriptions', async () => {
+    try {
+      return syncEngine.getSyncSubscriptions();
+    } catch (error) {
+      console.error('Error getting sync subscriptions:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('sync:addSubscription', async (_event, kind: 'tag' | 'category', value: string) => {
+    try {
+      return syncEngine.addSyncSubscription(kind, value);
+    } catch (error) {
+      console.error('Error adding sync subscription:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('sync:removeSubscription', async (_event, id: string) => {
+    try {
+      syncEngine.removeSyncSubscription(id);
+      return { success: true };
+    } catch (error) {
+      console.error('Error removing sync subscription:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('sync:getPersonalRoaming', async () => {
+    try {
+      return syncEngine.isPersonalRoamingEnabled();
+    } catch (error) {
+      console.error('Error getting personal roaming setting:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('sync:setPersonalRoaming', async (_event, enabled: boolean) => {
+    try {
+      syncEngine.setPersonalRoaming(enabled);
+      return { success: true };
+    } catch (error) {
+      console.error('Error saving personal roaming setting:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('sync:restorePersonalItems', async () => {
+    try {
+      return await syncEngine.restorePersonalItems();
+    } catch (error) {
+      console.error('Error restoring personal items:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('sync:getPolicy', async () => {
+    try {
+      return syncEngine.getSyncPolicy();
+    } catch (error) {
+      console.error('Error getting sync policy:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('sync:setPolicy', async (_event, policy: syncEngine.SyncPolicy) => {
+    try {
+      return syncEngine.setSyncPolicy(policy);
+    } catch (error) {
+      console.error('Error saving sync policy:', error);
+      throw error;
+    }
+  });
+
   ipcMain.handle('sync:startLongPolling', async () => {
     try {
       syncEngine.startSyncPolling();
@@ -387,12 +838,155 @@ function registerSyncHandlers() {
   });
 }
 
+// ============ Team Handlers ============
+
+function registerTeamHandlers() {
+  ipcMain.handle('teams:getMine', async () => {
+    try {
+      return teamService.getMyTeams();
+    } catch (error) {
+      console.error('Error getting teams:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('teams:getActive', async () => {
+    try {
+      return teamService.getActiveTeamId();
+    } catch (error) {
+      console.error('Error getting active team:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('teams:setActive', async (_event, teamId: string) => {
+    try {
+      teamService.setActiveTeam(teamId);
+      return { success: true };
+    } catch (error) {
+      console.error('Error switching team:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('teams:create', async (_event, name: string) => {
+    try {
+      return teamService.createTeam(name);
+    } catch (error) {
+      console.error('Error creating team:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('teams:getMembers', async (_event, teamId: string) => {
+    try {
+      return teamService.getTeamMembers(teamId);
+    } catch (error) {
+      console.error('Error getting team members:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('teams:addMember', async (_event, teamId: string, userEmail: string) => {
+    try {
+      teamService.addTeamMember(teamId, userEmail);
+      return { success: true };
+    } catch (error) {
+      console.error('Error adding team member:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('teams:removeMember', async (_event, teamId: string, userEmail: string) => {
+    try {
+      teamService.removeTeamMember(teamId, userEmail);
+      return { success: true };
+    } catch (error) {
+      console.error('Error removing team member:', error);
+      throw error;
+    }
+  });
+}
+
+// ============ Tag Handlers ============
+
+function registerTagHandlers() {
+  ipcMain.handle('tags:getAll', async () => {
+    try {
+      return tagService.getTags();
+    } catch (error) {
+      console.error('Error getting tags:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('tags:rename', async (_event, id: string, newName: string) => {
+    try {
+      const changed = tagService.renameTag(id, newName);
+      syncEngine.scheduleOutboxReplay();
+      return changed;
+    } catch (error) {
+      console.error('Error renaming tag:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('tags:merge', async (_event, sourceIds: string[], targetId: string) => {
+    try {
+      const changed = tagService.mergeTags(sourceIds, targetId);
+      syncEngine.scheduleOutboxReplay();
+      return changed;
+    } catch (error) {
+      console.error('Error merging tags:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('tags:setColor', async (_event, id: string, color: string | null) => {
+    try {
+      tagService.setTagColor(id, color);
+      return { success: true };
+    } catch (error) {
+      console.error('Error setting tag color:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('tags:delete', async (_event, id: string) => {
+    try {
+      const changed = tagService.deleteTag(id);
+      syncEngine.scheduleOutboxReplay();
+      return changed;
+    } catch (error) {
+      console.error('Error deleting tag:', error);
+      throw error;
+    }
+  });
+}
+
 // ============ Auth Handlers ============
 
+/**
+ * Restore roamed personal items once the user is signed in. A failure here
+ * must not fail the sign-in - the next sync retries.
+ */
+async function restorePersonalItemsAfterSignIn(): Promise<void> {
+  try {
+    const restored = await syncEngine.restorePersonalItems();
+    if (restored > 0) {
+      console.log(`✅ Restored ${restored} personal items`);
+    }
+  } catch (error) {
+    console.error('Error restoring personal items after sign-in:', error);
+  }
+}
+
 function registerAuthHandlers(mainWindow: BrowserWindow) {
   ipcMain.handle('auth:login', async () => {
     try {
-      return await authService.login(mainWindow);
+      const result = await authService.login(mainWindow);
+      await restorePersonalItemsAfterSignIn();
+      return result;
     } catch (error) {
       console.error('Error during login:', error);
       throw error;
@@ -437,7 +1031,11 @@ function registerAuthHandlers(mainWindow: BrowserWindow) {
 
   ipcMain.handle('auth:restoreSession', async () => {
     try {
-      return await authService.restoreSession();
+      const restored = await authService.restoreSession();
+      if (restored) {
+        await restorePersonalItemsAfterSignIn();
+      }
+      return restored;
     } catch (error) {
       console.error('Error restoring session:', error);
       throw error;
@@ -479,6 +1077,23 @@ function registerSystemHandlers() {
     }
   });
 
+  ipcMain.handle('system:pickFolder', async () => {
+    try {
+      const result = await dialog.showOpenDialog({
+        properties: ['openDirectory', 'createDirectory'],
+      });
+
+      if (result.canceled || result.filePaths.length === 0) {
+        return null;
+      }
+
+      return result.filePaths[0];
+    } catch (error) {
+      console.error('Error picking folder:', error);
+      throw error;
+    }
+  });
+
   ipcMain.handle('system:openExternal', async (_event, url: string) => {
     try {
       await shell.openExternal(url);
@@ -575,6 +1190,10 @@ function registerMySQLHandlers() {
 
   ipcMain.handle('mysql:switchEnvironment', async (_event, env: 'dev' | 'prod') => {
     try {
+      if (env !== mysqlConnection.getCurrentEnvironment()) {
+        // A different server - hold automatic syncs until the user has previewed one
+        syncEngine.requireSyncApproval();
+      }
       await mysqlConnection.switchEnvironment(env);
       return { success: true };
     } catch (error) {
@@ -5,8 +5,16 @@ import { autoUpdater } from 'electron-updater';
 import { initializeDatabase, closeDatabase } from './database';
 import { registerAllHandlers } from './ipc-handlers-new';
 import { closeMySQLConnection } from './mysql-connection';
-import { stopSyncPolling } from './sync-engine';
+import {
+  stopSyncPolling,
+  scheduleOutboxReplay,
+  startSyncPolling,
+  getSyncPolicy,
+  registerSyncTriggers,
+} from './sync-engine';
 import { restoreSession } from './auth-service';
+import { startTrashPurge, stopTrashPurge } from './trash-service';
+import { rotateBackups, startBackupSchedule, stopBackupSchedule } from './backup-service';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -67,7 +75,7 @@ autoUpdater.on('error', (err) => {
 // initialization and is ready to create browser windows.
 app.whenReady().then(async () => {
   // Initialize database before creating windows
-  initializeDatabase();
+  const databaseReady = initializeDatabase();
   
   // Create window first
   createWindow();
@@ -76,6 +84,13 @@ app.whenReady().then(async () => {
   if (mainWindow) {
     registerAllHandlers(mainWindow);
   }
+
+  // A failed migration leaves the renderer showing the failure screen -
+  // nothing that reads or writes the database may start
+  if (!databaseReady) {
+    createApplicationMenu();
+    return;
+  }
   
   // Try to restore authentication session
   try {
@@ -87,6 +102,23 @@ app.whenReady().then(async () => {
   // Create application menu
   createApplicationMenu();
 
+  // Delete items that have been in the trash longer than the retention window
+  startTrashPurge();
+
+  // Back up the database on a schedule. Backups taken before this start's
+  // migrations are rotated here: migrations run before settings can be read.
+  rotateBackups();
+  startBackupSchedule();
+
+  // Start automatic sync (or at least upload team changes left in the outbox
+  // by a previous session) once the renderer has had time to connect to the team server
+  registerSyncTriggers();
+  if (getSyncPolicy().autoSync) {
+    startSyncPolling(10 * 1000);
+  } else {
+    scheduleOutboxReplay(10 * 1000);
+  }
+
   // Check for updates (only in production)
   if (!process.env.VITE_DEV_SERVER_URL) {
     // Check for updates after 3 seconds and then every 4 hours
@@ -118,6 +150,8 @@ app.on('window-all-closed', () => {
 // Close connections before quitting
 app.on('before-quit', async () => {
   stopSyncPolling();
+  stopTrashPurge();
+  stopBackupSchedule();
   await closeMySQLConnection();
   closeDatabase();
 });
@@ -0,0 +1,361 @@
+/**
+ * Document-based sync backends
+ * The whole team store is a single JSON-serialisable document with a revision
+ * counter; every change bumps the revision, which doubles as the change cursor
+ * and as the row version of the item it touched.
+ * Used as-is for the in-memory backend and persisted by the folder backend.
+ */
+
+import { DEFAULT_TEAM_ID, ItemType, ITEM_FIELDS, Team, TeamMember, UserShare } from './db-operations';
+import {
+  DEFAULT_ACTIVITY_LIMIT,
+  RemoteItemFilter,
+  RemoteTombstone,
+  SyncActivity,
+  SyncBackend,
+  SyncVersionConflictError,
+  toSqliteDateTime,
+} from './sync-backend';
+
+type StoredItem = Record<string, any> & { revision: number };
+type StoredTombstone = RemoteTombstone & { revision: number };
+
+const MAX_ACTIVITY_ENTRIES = 1000; // oldest entries are dropped beyond this
+
+export interface SyncDocument {
+  revision: number;
+  items: Record<ItemType, Record<string, StoredItem>>;
+  tombstones: Record<string, StoredTombstone>;
+  /** Team activity, oldest first */
+  activity: SyncActivity[];
+  shares: Record<string, UserShare>;
+  teams: Record<string, Team>;
+  /** Keyed by `${team_id}:${user_email}` */
+  teamMembers: Record<string, TeamMember>;
+}
+
+export interface DocumentStore {
+  /** Read the current document */
+  read: () => Promise<SyncDocument>;
+  /**
+   * Apply a change to the document atomically. mutate returns false when it
+   * left the document unchanged, so it is not written back.
+   */
+  update: (mutate: (doc: SyncDocument) => boolean | void) => Promise<void>;
+  /** Hold the document for the duration of work and write it back once at the end */
+  batch?: <T>(work: () => Promise<T>) => Promise<T>;
+}
+
+export function createEmptySyncDocument(): SyncDocument {
+  return {
+    revision: 0,
+    items: { bookmark: {}, executable: {}, script: {} },
+    tombstones: {},
+    activity: [],
+    shares: {},
+    teams: {},
+    teamMembers: {},
+  };
+}
+
+function appendActivity(doc: SyncDocument, entry: Omit<SyncActivity, 'synced_at'>): void {
+  doc.activity.push({ ...entry, synced_at: toSqliteDateTime(new Date()) as string });
+  if (doc.activity.length > MAX_ACTIVITY_ENTRIES) {
+    doc.activity.splice(0, doc.activity.length - MAX_ACTIVITY_ENTRIES);
+  }
+}
+
+function isAfter(revision: number, since: string | null): boolean {
+  return since === null || revision > Number(since);
+}
+
+function isInTeams(item: StoredItem, teamIds: string[] | undefined): boolean {
+  return !teamIds || teamIds.includes(item.team_id ?? DEFAULT_TEAM_ID);
+}
+
+function matchesFilter(item: StoredItem, filter: RemoteItemFilter | undefined): boolean {
+  if (!filter) {
+    return true;
+  }
+  if (!isInTeams(item, filter.teamIds)) {
+    return false;
+  }
+
+  const subscriptions = filter.subscriptions;
+  if (!subscriptions || (subscriptions.createdBy && item.created_by === subscriptions.createdBy)) {
+    return true;
+  }
+  if (item.category && subscriptions.categories.includes(String(item.category).trim().toLowerCase())) {
+    return true;
+  }
+  const tags: string[] = item.tags ? String(item.tags).split(',').map(tag => tag.trim().toLowerCase()) : [];
+  return tags.some(tag => subscriptions.tags.includes(tag));
+}
+
+function withoutRevision<T extends { revision: number }>(entry: T): Omit<T, 'revision'> {
+  const { revision: _revision, ...rest } = entry;
+  return rest;
+}
+
+/**
+ * An item as handed to the sync engine, with its revision as the row version
+ */
+function toRemoteItem(item: StoredItem): Record<string, any> {
+  const { revision, ...rest } = item;
+  return { ...rest, row_version: revision };
+}
+
+/**
+ * Build a sync backend on top of a document store
+ */
+export function createDocumentSyncBackend(
+  options: {
+    name: string;
+    scope: string;
+    isAvailable: () => boolean;
+    healthCheck: () => Promise<boolean>;
+  },
+  store: DocumentStore
+): SyncBackend {
+  return {
+    ...options,
+    batch: store.batch,
+
+    getChangeCursor: async () => String((await store.read()).revision),
+
+    listChanges: async (itemType, since, filter) => {
+      const doc = await store.read();
+      return Object.values(doc.items[itemType])
+        .filter(item => item.is_team_level === 1 && isAfter(item.revision, since) && matchesFilter(item, filter))
+        .map(toRemoteItem);
+    },
+
+    listPersonalItems: async (itemType, userEmail, since) => {
+      const doc = await store.read();
+      return Object.values(doc.items[itemType])
+        .filter(item => item.is_team_level === 0 && item.created_by === userEmail && isAfter(item.revision, since))
+        .map(toRemoteItem);
+    },
+
+    getItems: async (itemType, ids, userEmail, teamIds) => {
+      const doc = await store.read();
+      const sharedWithUser = new Set(
+        Object.values(doc.shares)
+          .filter(share => share.item_type === itemType && share.shared_with === userEmail)
+          .map(share => share.item_id)
+      );
+      const isReadable = (item: StoredItem) => item.is_team_level === 0
+        ? userEmail !== null && (item.created_by === userEmail || sharedWithUser.has(item.id))
+        : isInTeams(item, teamIds);
+
+      const items = new Map<string, any>();
+      for (const id of ids) {
+        const item = doc.items[itemType][id];
+        if (item && isReadable(item)) {
+          items.set(id, toRemoteItem(item));
+        }
+      }
+      return items;
+    },
+
+    upsertItem: async (itemType, item, expectedVersion) => {
+      let rowVersion = 0;
+      await store.update(doc => {
+        const existing = doc.items[itemType][item.id];
+        if (expectedVersion !== undefined && (existing?.revision ?? null) !== expectedVersion) {
+          throw new SyncVersionConflictError(itemType, item.id, expectedVersion);
+        }
+        const isTeamLevel = item.is_team_level === 0 ? 0 : 1;
+        doc.revision++;
+        doc.items[itemType][item.id] = {
+          id: item.id,
+          ...Object.fromEntries(ITEM_FIELDS[itemType].map(field => [field, item[field] ?? null])),
+          is_team_level: isTeamLevel,
+          is_personal: item.is_personal ?? 1,
+          team_id: item.team_id ?? DEFAULT_TEAM_ID,
+          created_by: existing?.created_by ?? item.created_by ?? null,
+          updated_by: item.updated_by ?? null,
+          created_at: existing?.created_at ?? item.created_at ?? toSqliteDateTime(new Date()),
+          updated_at: toSqliteDateTime(new Date()),
+          sync_hash: item.sync_hash ?? null,
+          revision: doc.revision,
+        };
+        // Personal items uploaded for sharing are not team activity
+        if (isTeamLevel) {
+          appendActivity(doc, {
+            item_type: itemType,
+            item_id: item.id,
+            title: item.title ?? null,
+            operation: existing ? 'update' : 'create',
+            synced_by: item.updated_by || item.created_by || null,
+          });
+        }
+        rowVersion = doc.revision;
+      });
+      return rowVersion;
+    },
+
+    deleteItem: async (itemType, itemId, deletedBy, expectedVersion) => {
+      await store.update(doc => {
+        const existing = doc.items[itemType][itemId];
+        if (expectedVersion !== undefined && existing && existing.revision !== expectedVersion) {
+          throw new SyncVersionConflictError(itemType, itemId, expectedVersion);
+        }
+        doc.revision++;
+        delete doc.items[itemType][itemId];
+        doc.tombstones[`${itemType}:${itemId}`] = {
+          item_type: itemType,
+          item_id: itemId,
+          deleted_by: deletedBy,
+          deleted_at: toSqliteDateTime(new Date()) as string,
+          revision: doc.revision,
+        };
+        // Roamed personal items are not team activity
+        if (existing?.is_team_level === 1) {
+          appendActivity(doc, {
+            item_type: itemType,
+            item_id: itemId,
+            title: existing.title ?? null,
+            operation: 'delete',
+            synced_by: deletedBy || null,
+          });
+        }
+      });
+    },
+
+    listTombstones: async (since) => {
+      const doc = await store.read();
+      return Object.values(doc.tombstones)
+        .filter(tombstone => isAfter(tombstone.revision, since))
+        .map(withoutRevision);
+    },
+
+    purgeTombstones: async (retentionDays) => {
+      const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+      const isExpired = (tombstone: StoredTombstone) => new Date(tombstone.deleted_at.replace(' ', 'T')).getTime() < cutoff;
+
+      if (!Object.values((await store.read()).tombstones).some(isExpired)) {
+        return;
+      }
+      await store.update(doc => {
+        let purged = false;
+        for (const [key, tombstone] of Object.entries(doc.tombstones)) {
+          if (isExpired(tombstone)) {
+            delete doc.tombstones[key];
+            purged = true;
+          }
+        }
+        return purged;
+      });
+    },
+
+    listActivity: async (filter) => {
+      const doc = await store.read();
+      const search = filter.search?.toLowerCase();
+
+      return doc.activity
+        .filter(entry =>
+          (!filter.itemType || entry.item_type === filter.itemType) &&
+          (!filter.operation || entry.operation === filter.operation) &&
+          (!search ||
+            (entry.synced_by ?? '').toLowerCase().includes(search) ||
+            (entry.title ?? '').toLowerCase().includes(search))
+        )
+        .reverse()
+        .slice(0, filter.limit ?? DEFAULT_ACTIVITY_LIMIT);
+    },
+
+    listShares: async (userEmail) => {
+      const doc = await store.read();
+      return Object.values(doc.shares)
+        .filter(share => share.shared_by === userEmail || share.shared_with === userEmail);
+    },
+
+    upsertShare: async (share) => {
+      await store.update(doc => {
+        doc.shares[share.id] = {
+          id: share.id,
+          item_type: share.item_type,
+          item_id: share.item_id,
+          shared_by: share.shared_by,
+          shared_with: share.shared_with,
+          shared_at: share.shared_at,
+        };
+      });
+    },
+
+    deleteShare: async (shareId) => {
+      await store.update(doc => {
+        if (!doc.shares[shareId]) {
+          return false;
+        }
+        delete doc.shares[shareId];
+      });
+    },
+
+    listTeams: async (userEmail) => {
+      const doc = await store.read();
+      const members = Object.values(doc.teamMembers);
+      const teamIds = new Set(members.filter(member => member.user_email === userEmail).map(member => member.team_id));
+      return {
+        teams: Object.values(doc.teams).filter(team => teamIds.has(team.id)),
+        members: members.filter(member => teamIds.has(member.team_id)),
+      };
+    },
+
+    upsertTeam: async (team) => {
+      await store.update(doc => {
+        doc.teams[team.id] = {
+          id: team.id,
+          name: team.name,
+          created_by: doc.teams[team.id]?.created_by ?? team.created_by,
+          created_at: doc.teams[team.id]?.created_at ?? team.created_at,
+        };
+      });
+    },
+
+    upsertTeamMember: async (member) => {
+      await store.update(doc => {
+        doc.teamMembers[`${member.team_id}:${member.user_email}`] = {
+          team_id: member.team_id,
+          user_email: member.user_email,
+          role: member.role,
+          added_by: member.added_by,
+          added_at: member.added_at,
+        };
+      });
+    },
+
+    deleteTeamMember: async (teamId, userEmail) => {
+      await store.update(doc => {
+        const key = `${teamId}:${userEmail}`;
+        if (!doc.teamMembers[key]) {
+          return false;
+        }
+        delete doc.teamMembers[key];
+      });
+    },
+  };
+}
+
+/**
+ * In-memory sync backend, e.g. for exercising the sync engine without a server
+ */
+export function createMemorySyncBackend(initial: SyncDocument = createEmptySyncDocument()): SyncBackend {
+  const doc = initial;
+
+  return createDocumentSyncBackend(
+    {
+      name: 'In-memory store',
+      scope: 'memory',
+      isAvailable: () => true,
+      healthCheck: async () => true,
+    },
+    {
+      read: async () => doc,
+      update: async (mutate) => {
+        mutate(doc);
+      },
+    }
+  );
+}
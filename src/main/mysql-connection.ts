@@ -1,5 +1,6 @@
 import mysql from 'mysql2/promise';
 import { dbOperations } from './db-operations';
+import { runMySQLMigrations } from './mysql-migrations';
 
 // MySQL Connection Configuration
 interface MySQLConfig {
@@ -12,6 +13,44 @@ interface MySQLConfig {
 
 let pool: mysql.Pool | null = null;
 let currentEnv: 'dev' | 'prod' = 'dev';
+let connectionLost = false;
+const reconnectListeners: Array<() => void> = [];
+
+// Error codes meaning the server could not be reached, rather than a bad query
+const CONNECTION_ERROR_CODES = new Set([
+  'PROTOCOL_CONNECTION_LOST',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'EHOSTUNREACH',
+  'ENOTFOUND',
+]);
+
+/**
+ * Register a callback for when the pool is (re)initialized or gets a new
+ * connection after the server was unreachable
+ */
+export function onMySQLReconnect(listener: () => void): void {
+  reconnectListeners.push(listener);
+}
+
+function notifyReconnect(): void {
+  connectionLost = false;
+  for (const listener of reconnectListeners) {
+    try {
+      listener();
+    } catch (error) {
+      console.error('MySQL reconnect listener failed:', error);
+    }
+  }
+}
+
+function trackConnectionError(error: unknown): void {
+  const code = (error as { code?: string } | null)?.code;
+  if (code && CONNECTION_ERROR_CODES.has(code)) {
+    connectionLost = true;
+  }
+}
 
 /**
  * Initialize MySQL connection pool
@@ -37,12 +76,29 @@ export async function initializeMySQLConnection(config: MySQLConfig, env: 'dev'
       keepAliveInitialDelay: 0,
     });
 
+    pool.on('connection', () => {
+      if (connectionLost) {
+        console.log('✅ MySQL connection restored');
+        notifyReconnect();
+      }
+    });
+
     currentEnv = env;
     
     // Test the connection
-    await testConnection();
+    const connected = await testConnection();
     
     console.log(`✅ MySQL connection initialized (${env})`);
+
+    // Bring an existing team schema up to date; not fatal, sync reports any mismatch
+    if (connected) {
+      try {
+        await runMySQLMigrations();
+      } catch (error) {
+        console.error('❌ Failed to migrate MySQL schema:', error);
+      }
+      notifyReconnect();
+    }
     
     // Store current environment in settings
     dbOperations.setSetting('mysql_env', env);
@@ -108,6 +164,7 @@ export async function testConnection(): Promise<boolean> {
     return true;
   } catch (error) {
     console.error('❌ MySQL connection test failed:', error);
+    trackConnectionError(error);
     return false;
   }
 }
@@ -125,7 +182,49 @@ export async function executeQuery<T = any>(query: string, params: any[] = []):
     return rows as T;
   } catch (error) {
     console.error('MySQL query error:', error);
+    trackConnectionError(error);
+    throw error;
+  }
+}
+
+export type TransactionQuery = <T = any>(query: string, params?: any[]) => Promise<T>;
+
+/**
+ * Run queries in one transaction on a single pooled connection. Commits when
+ * the callback resolves and rolls back when it throws.
+ */
+export async function executeTransaction<T>(work: (query: TransactionQuery) => Promise<T>): Promise<T> {
+  if (!pool) {
+    throw new Error('MySQL pool not initialized. Please configure connection first.');
+  }
+
+  let connection: mysql.PoolConnection;
+  try {
+    connection = await pool.getConnection();
+  } catch (error) {
+    trackConnectionError(error);
+    throw error;
+  }
+
+  try {
+    await connection.beginTransaction();
+    const result = await work(async <R = any>(query: string, params: any[] = []) => {
+      try {
+        const [rows] = await connection.execute(query, params);
+        return rows as R;
+      } catch (error) {
+        console.error('MySQL query error:', error);
+        trackConnectionError(error);
+        throw error;
+      }
+    });
+    await connection.commit();
+    return result;
+  } catch (error) {
+    await connection.rollback().catch(() => undefined);
     throw error;
+  } finally {
+    connection.release();
   }
 }
 
@@ -187,15 +286,22 @@ export async function initializeMySQLTables(): Promise<void> {
         url TEXT NOT NULL,
         favicon LONGTEXT,
         category VARCHAR(100),
+        tags TEXT,
         is_team_level TINYINT(1) DEFAULT 0,
+        is_personal TINYINT(1) DEFAULT 1,
+        team_id VARCHAR(36) DEFAULT 'default',
         created_by VARCHAR(255),
         updated_by VARCHAR(255),
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
         sync_hash VARCHAR(64),
+        row_version BIGINT UNSIGNED NOT NULL DEFAULT 1,
+        change_seq BIGINT UNSIGNED NOT NULL DEFAULT 0,
         INDEX idx_team_level (is_team_level),
         INDEX idx_created_by (created_by),
-        INDEX idx_category (category)
+        INDEX idx_category (category),
+        INDEX idx_updated_at (updated_at),
+        INDEX idx_change_seq (change_seq)
       ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
     `);
 
@@ -208,15 +314,22 @@ export async function initializeMySQLTables(): Promise<void> {
         parameters TEXT,
         icon LONGTEXT,
         category VARCHAR(100),
+        tags TEXT,
         is_team_level TINYINT(1) DEFAULT 0,
+        is_personal TINYINT(1) DEFAULT 1,
+        team_id VARCHAR(36) DEFAULT 'default',
         created_by VARCHAR(255),
         updated_by VARCHAR(255),
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
         sync_hash VARCHAR(64),
+        row_version BIGINT UNSIGNED NOT NULL DEFAULT 1,
+        change_seq BIGINT UNSIGNED NOT NULL DEFAULT 0,
         INDEX idx_team_level (is_team_level),
         INDEX idx_created_by (created_by),
-        INDEX idx_category (category)
+        INDEX idx_category (category),
+        INDEX idx_updated_at (updated_at),
+        INDEX idx_change_seq (change_seq)
       ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
     `);
 
@@ -229,25 +342,33 @@ export async function initializeMySQLTables(): Promise<void> {
         script_type ENUM('powershell', 'cmd') NOT NULL,
         icon LONGTEXT,
         category VARCHAR(100),
+        tags TEXT,
         is_team_level TINYINT(1) DEFAULT 0,
+        is_personal TINYINT(1) DEFAULT 1,
+        team_id VARCHAR(36) DEFAULT 'default',
         created_by VARCHAR(255),
         updated_by VARCHAR(255),
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
         sync_hash VARCHAR(64),
+        row_version BIGINT UNSIGNED NOT NULL DEFAULT 1,
+        change_seq BIGINT UNSIGNED NOT NULL DEFAULT 0,
         INDEX idx_team_level (is_team_level),
         INDEX idx_created_by (created_by),
         INDEX idx_category (category),
-        INDEX idx_script_type (script_type)
+        INDEX idx_script_type (script_type),
+        INDEX idx_updated_at (updated_at),
+        INDEX idx_change_seq (change_seq)
       ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
     `);
 
-    // Sync log table (for tracking sync operations)
+    // Sync log table (team activity: items created, updated and deleted through sync)
     await executeQuery(`
       CREATE TABLE IF NOT EXISTS sync_log (
         id INT AUTO_INCREMENT PRIMARY KEY,
         item_type ENUM('bookmark', 'executable', 'script') NOT NULL,
         item_id VARCHAR(36) NOT NULL,
+        title VARCHAR(255),
         operation ENUM('create', 'update', 'delete') NOT NULL,
         synced_by VARCHAR(255),
         synced_at DATETIME DEFAULT CURRENT_TIMESTAMP,
@@ -256,6 +377,23 @@ export async function initializeMySQLTables(): Promise<void> {
       ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
     `);
 
+    // Tombstones table (deleted team-level items, purged after the retention window)
+    await executeQuery(`
+      CREATE TABLE IF NOT EXISTS sync_tombstones (
+        item_type ENUM('bookmark', 'executable', 'script') NOT NULL,
+        item_id VARCHAR(36) NOT NULL,
+        deleted_by VARCHAR(255),
+        deleted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        change_seq BIGINT UNSIGNED NOT NULL DEFAULT 0,
+        PRIMARY KEY (item_type, item_id),
+        INDEX idx_deleted_at (deleted_at),
+        INDEX idx_change_seq (change_seq)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    // Upgrade tables created by older versions of the app
+    await runMySQLMigrations();
+
     console.log('✅ MySQL tables initialized successfully');
   } catch (error) {
     console.error('❌ Failed to initialize MySQL tables:', error);
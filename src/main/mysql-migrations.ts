@@ -0,0 +1,203 @@
+/**
+ * MySQL schema migrations
+ * Each step upgrades the team server schema by one version; the versions
+ * applied so far are recorded in the schema_version table.
+ */
+
+import { executeQuery } from './mysql-connection';
+
+interface MySQLMigration {
+  version: number;
+  description: string;
+  up: () => Promise<void>;
+}
+
+const ITEM_TABLE_NAMES = ['bookmarks', 'executables', 'scripts'];
+
+/**
+ * Add a column to an existing table unless it is already there.
+ * Tables that do not exist yet are skipped - initializeMySQLTables creates them
+ * with the current schema.
+ */
+async function addColumnIfMissing(table: string, column: string, definition: string): Promise<void> {
+  const rows = await executeQuery<any[]>(
+    `SELECT
+       (SELECT COUNT(*) FROM information_schema.TABLES
+        WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ?) AS table_exists,
+       (SELECT COUNT(*) FROM information_schema.COLUMNS
+        WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = ?) AS column_exists`,
+    [table, table, column]
+  );
+
+  if (Number(rows[0].table_exists) > 0 && Number(rows[0].column_exists) === 0) {
+    console.log(`📊 Adding ${column} column to MySQL ${table} table...`);
+    await executeQuery(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Add an index to an existing table unless it is already there.
+ * Tables that do not exist yet are skipped, as in addColumnIfMissing.
+ */
+async function addIndexIfMissing(table: string, index: string, columns: string): Promise<void> {
+  const rows = await executeQuery<any[]>(
+    `SELECT
+       (SELECT COUNT(*) FROM information_schema.TABLES
+        WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ?) AS table_exists,
+       (SELECT COUNT(*) FROM information_schema.STATISTICS
+        WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND INDEX_NAME = ?) AS index_exists`,
+    [table, table, index]
+  );
+
+  if (Number(rows[0].table_exists) > 0 && Number(rows[0].index_exists) === 0) {
+    console.log(`📊 Adding ${index} index to MySQL ${table} table...`);
+    await executeQuery(`ALTER TABLE ${table} ADD INDEX ${index} (${columns})`);
+  }
+}
+
+/**
+ * Ordered migration steps. Never edit or reorder an applied step - append a new one.
+ */
+const MIGRATIONS: MySQLMigration[] = [
+  {
+    version: 1,
+    description: 'Add tags column to item tables',
+    up: async () => {
+      for (const table of ITEM_TABLE_NAMES) {
+        await addColumnIfMissing(table, 'tags', 'TEXT AFTER category');
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'Add is_personal column to item tables',
+    up: async () => {
+      for (const table of ITEM_TABLE_NAMES) {
+        await addColumnIfMissing(table, 'is_personal', 'TINYINT(1) DEFAULT 1 AFTER is_team_level');
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'Add item title to sync_log for the activity feed',
+    up: async () => {
+      await addColumnIfMissing('sync_log', 'title', 'VARCHAR(255) AFTER item_id');
+    },
+  },
+  {
+    version: 4,
+    description: 'Add user_shares table for user-to-user sharing',
+    up: async () => {
+      await executeQuery(`
+        CREATE TABLE IF NOT EXISTS user_shares (
+          id VARCHAR(36) PRIMARY KEY,
+          item_type ENUM('bookmark', 'executable', 'script') NOT NULL,
+          item_id VARCHAR(36) NOT NULL,
+          shared_by VARCHAR(255) NOT NULL,
+          shared_with VARCHAR(255) NOT NULL,
+          shared_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          INDEX idx_item (item_type, item_id),
+          INDEX idx_shared_by (shared_by),
+          INDEX idx_shared_with (shared_with)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: 'Add teams, team memberships and team_id on item tables',
+    up: async () => {
+      for (const table of ITEM_TABLE_NAMES) {
+        await addColumnIfMissing(table, 'team_id', "VARCHAR(36) DEFAULT 'default' AFTER is_personal");
+      }
+      await executeQuery(`
+        CREATE TABLE IF NOT EXISTS teams (
+          id VARCHAR(36) PRIMARY KEY,
+          name VARCHAR(255) NOT NULL,
+          created_by VARCHAR(255),
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `);
+      await executeQuery(`
+        CREATE TABLE IF NOT EXISTS team_members (
+          team_id VARCHAR(36) NOT NULL,
+          user_email VARCHAR(255) NOT NULL,
+          role ENUM('owner', 'member') DEFAULT 'member',
+          added_by VARCHAR(255),
+          added_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (team_id, user_email),
+          INDEX idx_user_email (user_email)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: 'Add row_version to item tables for optimistic concurrency',
+    up: async () => {
+      for (const table of ITEM_TABLE_NAMES) {
+        await addColumnIfMissing(table, 'row_version', 'BIGINT UNSIGNED NOT NULL DEFAULT 1 AFTER sync_hash');
+      }
+    },
+  },
+  {
+    version: 7,
+    description: 'Add a server-wide change sequence for incremental pulls',
+    up: async () => {
+      await executeQuery(`
+        CREATE TABLE IF NOT EXISTS sync_sequence (
+          id TINYINT PRIMARY KEY,
+          value BIGINT UNSIGNED NOT NULL
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `);
+      await executeQuery('INSERT IGNORE INTO sync_sequence (id, value) VALUES (1, 0)');
+      for (const table of [...ITEM_TABLE_NAMES, 'sync_tombstones']) {
+        await addColumnIfMissing(table, 'change_seq', 'BIGINT UNSIGNED NOT NULL DEFAULT 0');
+        await addIndexIfMissing(table, 'idx_change_seq', 'change_seq');
+      }
+    },
+  },
+];
+
+/**
+ * Latest schema version known to this build
+ */
+export const LATEST_MYSQL_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Get the schema version of the team server (0 when no migration has run)
+ */
+export async function getMySQLSchemaVersion(): Promise<number> {
+  await executeQuery(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INT PRIMARY KEY,
+      description VARCHAR(255),
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+
+  const rows = await executeQuery<any[]>('SELECT MAX(version) AS version FROM schema_version');
+  return Number(rows[0]?.version ?? 0);
+}
+
+/**
+ * Apply pending migrations in order
+ */
+export async function runMySQLMigrations(): Promise<void> {
+  const currentVersion = await getMySQLSchemaVersion();
+
+  if (currentVersion > LATEST_MYSQL_SCHEMA_VERSION) {
+    console.warn(`⚠️ MySQL schema version ${currentVersion} is newer than this app supports (${LATEST_MYSQL_SCHEMA_VERSION})`);
+    return;
+  }
+
+  for (const migration of MIGRATIONS.filter(m => m.version > currentVersion)) {
+    console.log(`📊 Applying MySQL migration ${migration.version}: ${migration.description}`);
+    await migration.up();
+    // INSERT IGNORE: another client may have applied the same step concurrently
+    await executeQuery(
+      'INSERT IGNORE INTO schema_version (version, description) VALUES (?, ?)',
+      [migration.version, migration.description]
+    );
+  }
+}
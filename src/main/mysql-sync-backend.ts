@@ -0,0 +1,431 @@
+/**
+ * MySQL sync backend
+ * Team items live in the bookmarks/executables/scripts tables created by initializeMySQLTables
+ */
+
+import { DEFAULT_TEAM_ID, ItemType, ITEM_FIELDS, ITEM_TABLES } from './db-operations';
+import {
+  executeQuery,
+  executeTransaction,
+  getCurrentEnvironment,
+  isConnected,
+  testConnection,
+  TransactionQuery,
+} from './mysql-connection';
+import {
+  DEFAULT_ACTIVITY_LIMIT,
+  RemoteSubscriptionFilter,
+  RemoteTombstone,
+  SyncActivity,
+  SyncActivityOperation,
+  SyncBackend,
+  SyncVersionConflictError,
+  toSqliteDateTime,
+} from './sync-backend';
+
+const ID_BATCH_SIZE = 200;
+
+/**
+ * Convert a MySQL row to the shape stored in SQLite
+ */
+function normalizeRow(row: any): any {
+  return {
+    ...row,
+    created_at: toSqliteDateTime(row.created_at),
+    updated_at: toSqliteDateTime(row.updated_at),
+    row_version: Number(row.row_version ?? 1),
+  };
+}
+
+/**
+ * Read a change cursor. Cursors from before the change sequence (server
+ * timestamps) are treated as no cursor, so the next pull is a full one.
+ */
+function parseCursor(since: string | null): number | null {
+  return since !== null && /^\d+$/.test(since) ? Number(since) : null;
+}
+
+/**
+ * Take the next value of the server-wide change sequence for a row being
+ * written in the transaction. The sequence row stays locked until the
+ * transaction commits, so changes become visible in sequence order and a pull
+ * from a cursor never skips a change that commits later.
+ */
+async function nextChangeSeq(query: TransactionQuery): Promise<number> {
+  const result = await query<{ affectedRows: number }>(
+    'UPDATE sync_sequence SET value = LAST_INSERT_ID(value + 1) WHERE id = 1'
+  );
+  if (result.affectedRows === 0) {
+    throw new Error('The team server has no change sequence - its schema needs upgrading');
+  }
+  const rows = await query<any[]>('SELECT LAST_INSERT_ID() AS seq');
+  return Number(rows[0].seq);
+}
+
+/**
+ * SQL condition restricting rows to the given teams, with its parameters.
+ * Rows without a team belong to the default team.
+ */
+function teamCondition(teamIds: string[]): { sql: string; params: string[] } {
+  if (teamIds.length === 0) {
+    return { sql: '0', params: [] };
+  }
+
+  const inTeams = `team_id IN (${teamIds.map(() => '?').join(', ')})`;
+  return {
+    sql: teamIds.includes(DEFAULT_TEAM_ID) ? `(${inTeams} OR team_id IS NULL)` : inTeams,
+    params: teamIds,
+  };
+}
+
+/**
+ * SQL condition matching the subscribed categories and tags, with its parameters.
+ * Tags are matched as substrings of the serialized tag list, which can only
+ * over-select (e.g. "ops" in "devops"); the sync engine checks the exact tags.
+ */
+function subscriptionCondition(filter: RemoteSubscriptionFilter): { sql: string; params: string[] } {
+  const conditions: string[] = [];
+  const params: string[] = [];
+
+  if (filter.createdBy) {
+    conditions.push('created_by = ?');
+    params.push(filter.createdBy);
+  }
+  if (filter.categories.length > 0) {
+    conditions.push(`LOWER(TRIM(category)) IN (${filter.categories.map(() => '?').join(', ')})`);
+    params.push(...filter.categories);
+  }
+  for (const tag of filter.tags) {
+    conditions.push('LOWER(tags) LIKE ?');
+    params.push(`%${tag.replace(/[\\%_]/g, '\\$&')}%`);
+  }
+
+  return { sql: conditions.length > 0 ? `(${conditions.join(' OR ')})` : '0', params };
+}
+
+/**
+ * Record a change in sync_log, which backs the team activity feed
+ */
+async function logActivity(
+  query: TransactionQuery,
+  itemType: ItemType,
+  itemId: string,
+  title: string | null,
+  operation: SyncActivityOperation,
+  syncedBy: string | null
+): Promise<void> {
+  await query(
+    'INSERT INTO sync_log (item_type, item_id, title, operation, synced_by) VALUES (?, ?, ?, ?, ?)',
+    [itemType, itemId, title, operation, syncedBy]
+  );
+}
+
+export const mysqlSyncBackend: SyncBackend = {
+  name: 'MySQL',
+
+  get scope() {
+    return `mysql_${getCurrentEnvironment()}`;
+  },
+
+  isAvailable: () => isConnected(),
+
+  healthCheck: () => testConnection(),
+
+  // The server-wide change sequence: every write takes the next value, so
+  // unlike timestamps the cursor neither depends on clocks nor misses ties
+  getChangeCursor: async () => {
+    const rows = await executeQuery<any[]>('SELECT value FROM sync_sequence WHERE id = 1');
+    return String(rows[0]?.value ?? 0);
+  },
+
+  listChanges: async (itemType, since, filter) => {
+    const conditions = ['is_team_level = 1'];
+    const params: any[] = [];
+    const cursor = parseCursor(since);
+
+    if (cursor !== null) {
+      conditions.push('change_seq > ?');
+      params.push(cursor);
+    }
+    if (filter) {
+      const teams = teamCondition(filter.teamIds);
+      conditions.push(teams.sql);
+      params.push(...teams.params);
+    }
+    if (filter?.subscriptions) {
+      const subscriptions = subscriptionCondition(filter.subscriptions);
+      conditions.push(subscriptions.sql);
+      params.push(...subscriptions.params);
+    }
+
+    const rows = await executeQuery<any[]>(
+      `SELECT * FROM ${ITEM_TABLES[itemType]} WHERE ${conditions.join(' AND ')}`,
+      params
+    );
+    return rows.map(normalizeRow);
+  },
+
+  listPersonalItems: async (itemType, userEmail, since) => {
+    const table = ITEM_TABLES[itemType];
+    const cursor = parseCursor(since);
+    const rows = cursor !== null
+      ? await executeQuery<any[]>(
+        `SELECT * FROM ${table} WHERE is_team_level = 0 AND created_by = ? AND change_seq > ?`,
+        [userEmail, cursor]
+      )
+      : await executeQuery<any[]>(`SELECT * FROM ${table} WHERE is_team_level = 0 AND created_by = ?`, [userEmail]);
+    return rows.map(normalizeRow);
+  },
+
+  getItems: async (itemType, ids, userEmail, teamIds) => {
+    const items = new Map<string, any>();
+    // Personal copies (roamed or shared) are not tied to the user's teams,
+    // but only their creator and the users they are shared with may read them
+    const teams = teamIds ? teamCondition(teamIds) : { sql: '1', params: [] };
+    const personal = `is_team_level = 0 AND (created_by = ? OR EXISTS (
+      SELECT 1 FROM user_shares s WHERE s.item_type = ? AND s.item_id = ${ITEM_TABLES[itemType]}.id AND s.shared_with = ?
+    ))`;
+
+    for (let i = 0; i < ids.length; i += ID_BATCH_SIZE) {
+      const batch = ids.slice(i, i + ID_BATCH_SIZE);
+      const rows = await executeQuery<any[]>(
+        `SELECT * FROM ${ITEM_TABLES[itemType]} WHERE id IN (${batch.map(() => '?').join(', ')})
+         AND ((${personal}) OR (is_team_level = 1 AND ${teams.sql}))`,
+        [...batch, userEmail, itemType, userEmail, ...teams.params]
+      );
+      rows.forEach(row => items.set(row.id, normalizeRow(row)));
+    }
+
+    return items;
+  },
+
+  upsertItem: async (itemType, item, expectedVersion) => {
+    const table = ITEM_TABLES[itemType];
+    const fields = ITEM_FIELDS[itemType];
+    const columns = ['id', ...fields, 'is_team_level', 'is_personal', 'team_id', 'created_by', 'updated_by', 'created_at', 'sync_hash'];
+    const updatable = [...fields, 'is_team_level', 'is_personal', 'team_id', 'updated_by', 'sync_hash'];
+    const isTeamLevel = item.is_team_level === 0 ? 0 : 1;
+    const values: Record<string, any> = {
+      ...Object.fromEntries(fields.map(field => [field, item[field] ?? null])),
+      id: item.id,
+      is_team_level: isTeamLevel,
+      is_personal: item.is_personal ?? 1,
+      team_id: item.team_id || DEFAULT_TEAM_ID,
+      created_by: item.created_by || null,
+      updated_by: item.updated_by || null,
+      created_at: item.created_at || null,
+      sync_hash: item.sync_hash || null,
+    };
+
+    // Each write takes the next change sequence value, so pulls on other machines see the row
+    return await executeTransaction(async (query) => {
+      const changeSeq = await nextChangeSeq(query);
+      let operation: SyncActivityOperation;
+      let rowVersion: number;
+
+      if (expectedVersion === undefined) {
+        const result = await query<{ affectedRows: number }>(
+          `INSERT INTO ${table} (${columns.join(', ')}, updated_at, row_version, change_seq)
+           VALUES (${columns.map(() => '?').join(', ')}, NOW(), 1, ?)
+           ON DUPLICATE KEY UPDATE ${updatable.map(column => `${column} = VALUES(${column})`).join(', ')},
+             updated_at = NOW(), row_version = row_version + 1, change_seq = VALUES(change_seq)`,
+          [...columns.map(column => values[column]), changeSeq]
+        );
+        // ON DUPLICATE KEY UPDATE reports 1 affected row for an insert and 2 for an update
+        operation = result.affectedRows === 1 ? 'create' : 'update';
+        const rows = await query<any[]>(`SELECT row_version FROM ${table} WHERE id = ?`, [item.id]);
+        rowVersion = Number(rows[0]?.row_version ?? 1);
+      } else if (expectedVersion === null) {
+        try {
+          await query(
+            `INSERT INTO ${table} (${columns.join(', ')}, updated_at, row_version, change_seq)
+             VALUES (${columns.map(() => '?').join(', ')}, NOW(), 1, ?)`,
+            [...columns.map(column => values[column]), changeSeq]
+          );
+        } catch (error: any) {
+          if (error?.code === 'ER_DUP_ENTRY') {
+            throw new SyncVersionConflictError(itemType, item.id, expectedVersion);
+          }
+          throw error;
+        }
+        operation = 'create';
+        rowVersion = 1;
+      } else {
+        const result = await query<{ affectedRows: number }>(
+          `UPDATE ${table}
+           SET ${updatable.map(column => `${column} = ?`).join(', ')},
+             updated_at = NOW(), row_version = row_version + 1, change_seq = ?
+           WHERE id = ? AND row_version = ?`,
+          [...updatable.map(column => values[column]), changeSeq, item.id, expectedVersion]
+        );
+        if (result.affectedRows === 0) {
+          throw new SyncVersionConflictError(itemType, item.id, expectedVersion);
+        }
+        operation = 'update';
+        rowVersion = expectedVersion + 1;
+      }
+
+      // Personal items uploaded for sharing are not team activity
+      if (isTeamLevel) {
+        await logActivity(query, itemType, item.id, item.title ?? null, operation, item.updated_by || item.created_by || null);
+      }
+
+      return rowVersion;
+    });
+  },
+
+  deleteItem: async (itemType, itemId, deletedBy, expectedVersion) => {
+    const table = ITEM_TABLES[itemType];
+
+    await executeTransaction(async (query) => {
+      // Take the sequence lock first, in the same order as upsertItem
+      const changeSeq = await nextChangeSeq(query);
+      const rows = await query<any[]>(`SELECT title, is_team_level FROM ${table} WHERE id = ? FOR UPDATE`, [itemId]);
+      if (expectedVersion !== undefined) {
+        const result = await query<{ affectedRows: number }>(
+          `DELETE FROM ${table} WHERE id = ? AND row_version = ?`,
+          [itemId, expectedVersion]
+        );
+        // Still there at another version: edited by another client meanwhile
+        if (result.affectedRows === 0 && rows.length > 0) {
+          throw new SyncVersionConflictError(itemType, itemId, expectedVersion);
+        }
+      } else {
+        await query(`DELETE FROM ${table} WHERE id = ?`, [itemId]);
+      }
+
+      await query(
+        `INSERT INTO sync_tombstones (item_type, item_id, deleted_by, deleted_at, change_seq)
+         VALUES (?, ?, ?, NOW(), ?)
+         ON DUPLICATE KEY UPDATE deleted_by = VALUES(deleted_by), deleted_at = NOW(), change_seq = VALUES(change_seq)`,
+        [itemType, itemId, deletedBy || null, changeSeq]
+      );
+
+      // Already deleted by another client - that deletion was logged there.
+      // Roamed personal items are not team activity.
+      if (rows.length > 0 && rows[0].is_team_level) {
+        await logActivity(query, itemType, itemId, rows[0].title ?? null, 'delete', deletedBy || null);
+      }
+    });
+  },
+
+  listTombstones: async (since) => {
+    const cursor = parseCursor(since);
+    const rows = cursor !== null
+      ? await executeQuery<any[]>('SELECT * FROM sync_tombstones WHERE change_seq > ?', [cursor])
+      : await executeQuery<any[]>('SELECT * FROM sync_tombstones');
+
+    return rows.map((row): RemoteTombstone => ({
+      item_type: row.item_type as ItemType,
+      item_id: row.item_id,
+      deleted_by: row.deleted_by || undefined,
+      deleted_at: toSqliteDateTime(row.deleted_at) as string,
+    }));
+  },
+
+  purgeTombstones: async (retentionDays) => {
+    await executeQuery(
+      'DELETE FROM sync_tombstones WHERE deleted_at < DATE_SUB(NOW(), INTERVAL ? DAY)',
+      [retentionDays]
+    );
+  },
+
+  listActivity: async (filter) => {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter.itemType) {
+      conditions.push('item_type = ?');
+      params.push(filter.itemType);
+    }
+    if (filter.operation) {
+      conditions.push('operation = ?');
+      params.push(filter.operation);
+    }
+    if (filter.search) {
+      conditions.push('(synced_by LIKE ? OR title LIKE ?)');
+      params.push(`%${filter.search}%`, `%${filter.search}%`);
+    }
+
+    // LIMIT is inlined: prepared statements reject it as a placeholder on some MySQL versions
+    const limit = Math.max(1, Math.floor(filter.limit ?? DEFAULT_ACTIVITY_LIMIT));
+    const rows = await executeQuery<any[]>(
+      `SELECT * FROM sync_log
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY synced_at DESC, id DESC
+       LIMIT ${limit}`,
+      params
+    );
+
+    return rows.map((row): SyncActivity => ({
+      item_type: row.item_type as ItemType,
+      item_id: row.item_id,
+      title: row.title ?? null,
+      operation: row.operation as SyncActivityOperation,
+      synced_by: row.synced_by ?? null,
+      synced_at: toSqliteDateTime(row.synced_at) as string,
+    }));
+  },
+
+  listShares: async (userEmail) => {
+    const rows = await executeQuery<any[]>(
+      'SELECT * FROM user_shares WHERE shared_by = ? OR shared_with = ?',
+      [userEmail, userEmail]
+    );
+    return rows.map(row => ({ ...row, shared_at: toSqliteDateTime(row.shared_at) }));
+  },
+
+  upsertShare: async (share) => {
+    await executeQuery(
+      `INSERT INTO user_shares (id, item_type, item_id, shared_by, shared_with, shared_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE shared_with = VALUES(shared_with)`,
+      [share.id, share.item_type, share.item_id, share.shared_by, share.shared_with, share.shared_at]
+    );
+  },
+
+  deleteShare: async (shareId) => {
+    await executeQuery('DELETE FROM user_shares WHERE id = ?', [shareId]);
+  },
+
+  listTeams: async (userEmail) => {
+    const teams = await executeQuery<any[]>(
+      `SELECT t.* FROM teams t
+       JOIN team_members m ON m.team_id = t.id
+       WHERE m.user_email = ?`,
+      [userEmail]
+    );
+    if (teams.length === 0) {
+      return { teams: [], members: [] };
+    }
+
+    const members = await executeQuery<any[]>(
+      `SELECT * FROM team_members WHERE team_id IN (${teams.map(() => '?').join(', ')})`,
+      teams.map(team => team.id)
+    );
+    return {
+      teams: teams.map(team => ({ ...team, created_at: toSqliteDateTime(team.created_at) })),
+      members: members.map(member => ({ ...member, added_at: toSqliteDateTime(member.added_at) })),
+    };
+  },
+
+  upsertTeam: async (team) => {
+    await executeQuery(
+      `INSERT INTO teams (id, name, created_by, created_at) VALUES (?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE name = VALUES(name)`,
+      [team.id, team.name, team.created_by || null, team.created_at]
+    );
+  },
+
+  upsertTeamMember: async (member) => {
+    await executeQuery(
+      `INSERT INTO team_members (team_id, user_email, role, added_by, added_at) VALUES (?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE role = VALUES(role), added_by = VALUES(added_by)`,
+      [member.team_id, member.user_email, member.role, member.added_by || null, member.added_at]
+    );
+  },
+
+  deleteTeamMember: async (teamId, userEmail) => {
+    await executeQuery('DELETE FROM team_members WHERE team_id = ? AND user_email = ?', [teamId, userEmail]);
+  },
+};
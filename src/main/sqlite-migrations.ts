@@ -0,0 +1,651 @@
+/**
+ * SQLite schema migrations
+ * Each step upgrades the local database by one version; the version applied
+ * so far is kept in PRAGMA user_version. Every step runs in its own
+ * transaction, and a backup is taken before the first pending step.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { db, getNewBackupPath } from './database';
+import { parseTagList } from './tag-list';
+
+interface SQLiteMigration {
+  version: number;
+  description: string;
+  up: () => void;
+}
+
+const ITEM_TABLE_NAMES = ['bookmarks', 'executables', 'scripts'];
+
+const ITEM_TYPE_TABLES: Record<string, string> = {
+  bookmark: 'bookmarks',
+  executable: 'executables',
+  script: 'scripts',
+};
+
+// Indexed columns of the full-text search table, and which of them each item table has
+const SEARCH_COLUMNS = ['title', 'url', 'executable_path', 'parameters', 'script_content', 'tags', 'category'];
+
+const SEARCH_SOURCE_COLUMNS: Record<string, string[]> = {
+  bookmark: ['title', 'url', 'tags', 'category'],
+  executable: ['title', 'executable_path', 'parameters', 'tags', 'category'],
+  script: ['title', 'script_content', 'tags', 'category'],
+};
+
+// Content fields of each item type as of migration 4 (kept here rather than
+// imported, so the migration does not change when the app's fields do)
+const ITEM_CONTENT_FIELDS: Record<string, string[]> = {
+  bookmark: ['title', 'url', 'favicon', 'category', 'tags'],
+  executable: ['title', 'executable_path', 'parameters', 'icon', 'category', 'tags'],
+  script: ['title', 'script_content', 'script_type', 'icon', 'category', 'tags'],
+};
+
+/**
+ * A migration step failed and was rolled back. The database is left at the
+ * last version that applied cleanly.
+ */
+export class SQLiteMigrationError extends Error {
+  constructor(
+    public readonly version: number,
+    public readonly description: string,
+    public readonly schemaVersion: number,
+    public readonly backupPath: string | null,
+    cause: unknown
+  ) {
+    super(`Migration ${version} (${description}) failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'SQLiteMigrationError';
+  }
+}
+
+/**
+ * The database was written by a newer build with migrations this build does
+ * not know. Nothing was changed; opening it could lose or corrupt data.
+ */
+export class SQLiteSchemaTooNewError extends SQLiteMigrationError {
+  constructor(schemaVersion: number, supportedVersion: number) {
+    super(schemaVersion, 'Newer database', schemaVersion, null, null);
+    this.message = `Database schema version ${schemaVersion} is newer than this app supports (${supportedVersion})`;
+    this.name = 'SQLiteSchemaTooNewError';
+  }
+}
+
+/**
+ * Add a column to an existing table unless it is already there.
+ * Tables that do not exist yet are skipped - they are created with the column.
+ */
+function addColumnIfMissing(table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (columns.length > 0 && !columns.some(col => col.name === column)) {
+    console.log(`📊 Adding ${column} column to ${table} table...`);
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Ordered migration steps. Never edit or reorder an applied step - append a new one.
+ */
+const MIGRATIONS: SQLiteMigration[] = [
+  {
+    version: 1,
+    description: 'Baseline schema',
+    // Also upgrades databases created before migrations were versioned,
+    // so every statement tolerates tables and columns that already exist
+    up: () => {
+      // App settings table
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS app_settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
+      // User preferences table
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS user_preferences (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          category TEXT NOT NULL,
+          preference_key TEXT NOT NULL,
+          preference_value TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(category, preference_key)
+        );
+      `);
+
+      // Columns added to tables created by earlier versions of the app
+      for (const table of ITEM_TABLE_NAMES) {
+        addColumnIfMissing(table, 'tags', 'TEXT');
+        addColumnIfMissing(table, 'team_id', "TEXT DEFAULT 'default'");
+      }
+      addColumnIfMissing('sync_base', 'sync_hash', 'TEXT');
+      addColumnIfMissing('user_shares', 'pushed_at', 'DATETIME');
+      addColumnIfMissing('user_shares', 'deleted_at', 'DATETIME');
+
+      // Bookmarks table
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS bookmarks (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          url TEXT NOT NULL,
+          favicon TEXT,
+          category TEXT,
+          tags TEXT, -- Comma-separated list of tags
+          is_team_level INTEGER DEFAULT 0,
+          is_personal INTEGER DEFAULT 1,
+          team_id TEXT DEFAULT 'default', -- Team that owns a team-level item
+          created_by TEXT,
+          updated_by TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          last_sync_at DATETIME,
+          sync_hash TEXT
+        );
+      `);
+
+      // Executables table
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS executables (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          executable_path TEXT NOT NULL,
+          parameters TEXT,
+          icon TEXT,
+          category TEXT,
+          tags TEXT, -- Comma-separated list of tags
+          is_team_level INTEGER DEFAULT 0,
+          is_personal INTEGER DEFAULT 1,
+          team_id TEXT DEFAULT 'default', -- Team that owns a team-level item
+          created_by TEXT,
+          updated_by TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          last_sync_at DATETIME,
+          sync_hash TEXT
+        );
+      `);
+
+      // Scripts table
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS scripts (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          script_content TEXT NOT NULL,
+          script_type TEXT CHECK(script_type IN ('powershell', 'cmd')),
+          icon TEXT,
+          category TEXT,
+          tags TEXT, -- Comma-separated list of tags
+          is_team_level INTEGER DEFAULT 0,
+          is_personal INTEGER DEFAULT 1,
+          team_id TEXT DEFAULT 'default', -- Team that owns a team-level item
+          created_by TEXT,
+          updated_by TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          last_sync_at DATETIME,
+          sync_hash TEXT
+        );
+      `);
+
+      // User shares table (for direct user-to-user sharing)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS user_shares (
+          id TEXT PRIMARY KEY,
+          item_type TEXT CHECK(item_type IN ('bookmark', 'executable', 'script')),
+          item_id TEXT NOT NULL,
+          shared_by TEXT NOT NULL,
+          shared_with TEXT NOT NULL,
+          shared_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          pushed_at DATETIME, -- Uploaded to the team server
+          deleted_at DATETIME -- Unshared locally, removal not yet pushed
+        );
+      `);
+
+      // Sync tombstones table (records deletions of team-level items so they
+      // can be propagated to the team server and other clients)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sync_tombstones (
+          item_type TEXT CHECK(item_type IN ('bookmark', 'executable', 'script')),
+          item_id TEXT NOT NULL,
+          deleted_by TEXT,
+          deleted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          pushed_at DATETIME,
+          PRIMARY KEY (item_type, item_id)
+        );
+      `);
+
+      // Sync base table (snapshot of each team-level item as of its last
+      // successful sync, used as the common ancestor for three-way merges)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sync_base (
+          item_type TEXT CHECK(item_type IN ('bookmark', 'executable', 'script')),
+          item_id TEXT NOT NULL,
+          snapshot TEXT NOT NULL, -- JSON object of synced field values
+          sync_hash TEXT, -- Sync hash of the item as of the snapshot
+          synced_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (item_type, item_id)
+        );
+      `);
+
+      // Sync conflicts table (fields changed on both sides, awaiting user review)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sync_conflicts (
+          id TEXT PRIMARY KEY,
+          item_type TEXT CHECK(item_type IN ('bookmark', 'executable', 'script')),
+          item_id TEXT NOT NULL,
+          title TEXT,
+          conflicting_fields TEXT NOT NULL, -- JSON array of field names
+          base_snapshot TEXT,
+          local_snapshot TEXT NOT NULL,
+          remote_snapshot TEXT NOT NULL,
+          detected_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          resolved_at DATETIME,
+          resolution TEXT CHECK(resolution IN ('mine', 'theirs', 'merge'))
+        );
+      `);
+
+      // Sync outbox table (journal of local team-level changes, replayed in
+      // order against the team server; entries stay queued while it is unreachable)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sync_outbox (
+          seq INTEGER PRIMARY KEY AUTOINCREMENT,
+          item_type TEXT CHECK(item_type IN ('bookmark', 'executable', 'script')),
+          item_id TEXT NOT NULL,
+          operation TEXT CHECK(operation IN ('create', 'update', 'delete', 'promote')),
+          changed_by TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          attempts INTEGER DEFAULT 0,
+          next_attempt_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          last_error TEXT
+        );
+      `);
+
+      // Sync run history (one row per sync run, with the actions taken per item)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sync_runs (
+          id TEXT PRIMARY KEY,
+          trigger TEXT CHECK(trigger IN ('auto', 'manual')),
+          started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          finished_at DATETIME,
+          success INTEGER,
+          items_synced INTEGER DEFAULT 0,
+          conflicts INTEGER DEFAULT 0,
+          errors TEXT -- JSON array of error messages
+        );
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sync_run_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          run_id TEXT NOT NULL REFERENCES sync_runs(id) ON DELETE CASCADE,
+          item_type TEXT CHECK(item_type IN ('bookmark', 'executable', 'script')),
+          item_id TEXT NOT NULL,
+          title TEXT,
+          action TEXT CHECK(action IN ('pulled', 'pushed', 'merged', 'conflict', 'deleted', 'removed', 'error')),
+          message TEXT,
+          recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
+      // Teams (workspaces) that team-level items belong to
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS teams (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          created_by TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          pushed_at DATETIME -- Uploaded to the team server
+        );
+      `);
+
+      // Everyone belongs to the default team, which holds items from before teams existed
+      db.exec(`
+        INSERT OR IGNORE INTO teams (id, name, pushed_at)
+        VALUES ('default', 'Default Team', CURRENT_TIMESTAMP);
+      `);
+
+      // Team memberships
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS team_members (
+          team_id TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+          user_email TEXT NOT NULL,
+          role TEXT CHECK(role IN ('owner', 'member')) DEFAULT 'member',
+          added_by TEXT,
+          added_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          pushed_at DATETIME, -- Uploaded to the team server
+          deleted_at DATETIME, -- Removed locally, removal not yet pushed
+          PRIMARY KEY (team_id, user_email)
+        );
+      `);
+
+      // Tags/categories of team items this machine syncs (none = all team items)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sync_subscriptions (
+          id TEXT PRIMARY KEY,
+          kind TEXT CHECK(kind IN ('tag', 'category')),
+          value TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(kind, value)
+        );
+      `);
+
+      // Create indices for better query performance
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_bookmarks_team ON bookmarks(is_team_level);
+        CREATE INDEX IF NOT EXISTS idx_bookmarks_personal ON bookmarks(is_personal);
+        CREATE INDEX IF NOT EXISTS idx_bookmarks_created_by ON bookmarks(created_by);
+        CREATE INDEX IF NOT EXISTS idx_bookmarks_team_id ON bookmarks(team_id);
+
+        CREATE INDEX IF NOT EXISTS idx_executables_team ON executables(is_team_level);
+        CREATE INDEX IF NOT EXISTS idx_executables_personal ON executables(is_personal);
+        CREATE INDEX IF NOT EXISTS idx_executables_created_by ON executables(created_by);
+        CREATE INDEX IF NOT EXISTS idx_executables_team_id ON executables(team_id);
+
+        CREATE INDEX IF NOT EXISTS idx_scripts_team ON scripts(is_team_level);
+        CREATE INDEX IF NOT EXISTS idx_scripts_personal ON scripts(is_personal);
+        CREATE INDEX IF NOT EXISTS idx_scripts_created_by ON scripts(created_by);
+        CREATE INDEX IF NOT EXISTS idx_scripts_team_id ON scripts(team_id);
+        CREATE INDEX IF NOT EXISTS idx_scripts_type ON scripts(script_type);
+
+        CREATE INDEX IF NOT EXISTS idx_user_shares_item ON user_shares(item_type, item_id);
+        CREATE INDEX IF NOT EXISTS idx_user_shares_with ON user_shares(shared_with);
+        CREATE INDEX IF NOT EXISTS idx_user_shares_by ON user_shares(shared_by);
+
+        CREATE INDEX IF NOT EXISTS idx_team_members_user ON team_members(user_email);
+
+        CREATE INDEX IF NOT EXISTS idx_sync_tombstones_pending ON sync_tombstones(pushed_at);
+
+        CREATE INDEX IF NOT EXISTS idx_sync_conflicts_item ON sync_conflicts(item_type, item_id, resolved_at);
+
+        CREATE INDEX IF NOT EXISTS idx_sync_outbox_item ON sync_outbox(item_type, item_id);
+
+        CREATE INDEX IF NOT EXISTS idx_sync_runs_started ON sync_runs(started_at);
+        CREATE INDEX IF NOT EXISTS idx_sync_run_items_run ON sync_run_items(run_id);
+        CREATE INDEX IF NOT EXISTS idx_sync_run_items_item ON sync_run_items(item_type, item_id);
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: 'Normalized tags',
+    // The tags column stays the serialized form that is synced and hashed;
+    // item_tags indexes it so tags can be listed and edited in one place
+    up: () => {
+      db.exec(`
+        CREATE TABLE tags (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          color TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE item_tags (
+          item_type TEXT CHECK(item_type IN ('bookmark', 'executable', 'script')),
+          item_id TEXT NOT NULL,
+          tag_id TEXT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+          PRIMARY KEY (item_type, item_id, tag_id)
+        );
+
+        CREATE INDEX idx_item_tags_tag ON item_tags(tag_id);
+      `);
+
+      // Items are deleted from many places (user, sync, unsharing); unlink them all here
+      for (const [itemType, table] of Object.entries(ITEM_TYPE_TABLES)) {
+        db.exec(`
+          CREATE TRIGGER trg_${table}_unlink_tags AFTER DELETE ON ${table}
+          BEGIN
+            DELETE FROM item_tags WHERE item_type = '${itemType}' AND item_id = old.id;
+          END;
+        `);
+      }
+
+      const insertTag = db.prepare('INSERT INTO tags (id, name) VALUES (?, ?) ON CONFLICT(name) DO NOTHING');
+      const findTag = db.prepare('SELECT id FROM tags WHERE name = ?');
+      const linkTag = db.prepare('INSERT OR IGNORE INTO item_tags (item_type, item_id, tag_id) VALUES (?, ?, ?)');
+
+      for (const [itemType, table] of Object.entries(ITEM_TYPE_TABLES)) {
+        const rows = db.prepare(`SELECT id, tags FROM ${table} WHERE tags IS NOT NULL AND tags != ''`).all() as
+          { id: string; tags: string }[];
+        for (const row of rows) {
+          for (const name of parseTagList(row.tags)) {
+            insertTag.run(uuidv4(), name);
+            const tag = findTag.get(name) as { id: string };
+            linkTag.run(itemType, row.id, tag.id);
+          }
+        }
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'Full-text search index',
+    // One index over all item types, kept current by triggers on the item tables
+    up: () => {
+      db.exec(`
+        CREATE VIRTUAL TABLE item_search USING fts5(
+          item_type UNINDEXED,
+          item_id UNINDEXED,
+          title,
+          url,
+          executable_path,
+          parameters,
+          script_content,
+          tags,
+          category,
+          tokenize = 'unicode61 remove_diacritics 2',
+          prefix = '2 3'
+        );
+      `);
+
+      for (const [itemType, table] of Object.entries(ITEM_TYPE_TABLES)) {
+        const values = (prefix: string) => SEARCH_COLUMNS
+          .map(column => (SEARCH_SOURCE_COLUMNS[itemType].includes(column) ? `${prefix}${column}` : 'NULL'))
+          .join(', ');
+        const insert = `
+          INSERT INTO item_search (item_type, item_id, ${SEARCH_COLUMNS.join(', ')})
+          VALUES ('${itemType}', new.id, ${values('new.')});
+        `;
+        const remove = `DELETE FROM item_search WHERE item_type = '${itemType}' AND item_id = old.id;`;
+
+        db.exec(`
+          CREATE TRIGGER trg_${table}_search_insert AFTER INSERT ON ${table}
+          BEGIN
+            ${insert}
+          END;
+
+          CREATE TRIGGER trg_${table}_search_update AFTER UPDATE ON ${table}
+          BEGIN
+            ${remove}
+            ${insert}
+          END;
+
+          CREATE TRIGGER trg_${table}_search_delete AFTER DELETE ON ${table}
+          BEGIN
+            ${remove}
+          END;
+        `);
+
+        db.exec(`
+          INSERT INTO item_search (item_type, item_id, ${SEARCH_COLUMNS.join(', ')})
+          SELECT '${itemType}', id, ${values('')} FROM ${table};
+        `);
+      }
+    },
+  },
+  {
+    version: 4,
+    description: 'Item revision history',
+    // Existing items start their history with their current content
+    up: () => {
+      db.exec(`
+        CREATE TABLE item_revisions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          item_type TEXT CHECK(item_type IN ('bookmark', 'executable', 'script')),
+          item_id TEXT NOT NULL,
+          snapshot TEXT NOT NULL, -- JSON object of the item's content fields
+          content_hash TEXT NOT NULL, -- Sync hash of the snapshot
+          source TEXT CHECK(source IN ('local', 'sync', 'restore')),
+          changed_by TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX idx_item_revisions_item ON item_revisions(item_type, item_id, id);
+      `);
+
+      for (const [itemType, table] of Object.entries(ITEM_TYPE_TABLES)) {
+        const fields = ITEM_CONTENT_FIELDS[itemType];
+        db.exec(`
+          INSERT INTO item_revisions (item_type, item_id, snapshot, content_hash, source, changed_by, created_at)
+          SELECT '${itemType}', id, json_object(${fields.map(field => `'${field}', ${field}`).join(', ')}),
+            COALESCE(sync_hash, ''), 'local', COALESCE(updated_by, created_by), COALESCE(updated_at, CURRENT_TIMESTAMP)
+          FROM ${table}
+        `);
+      }
+    },
+  },
+  {
+    version: 5,
+    description: 'Trash',
+    // Deleted items are kept, marked with when and by whom, until the trash is emptied
+    up: () => {
+      for (const table of ITEM_TABLE_NAMES) {
+        db.exec(`
+          ALTER TABLE ${table} ADD COLUMN deleted_at DATETIME;
+          ALTER TABLE ${table} ADD COLUMN deleted_by TEXT;
+          CREATE INDEX idx_${table}_deleted_at ON ${table}(deleted_at);
+        `);
+      }
+    },
+  },
+  {
+    version: 6,
+    description: 'Key the full-text search index by rowid',
+    // item_type and item_id are UNINDEXED in item_search, so the version 3
+    // triggers scanned the whole index on every change. item_search_keys maps
+    // an item to its index row, which the triggers now delete by rowid.
+    up: () => {
+      db.exec(`
+        CREATE TABLE item_search_keys (
+          rowid INTEGER PRIMARY KEY,
+          item_type TEXT NOT NULL,
+          item_id TEXT NOT NULL,
+          UNIQUE(item_type, item_id)
+        );
+        DELETE FROM item_search;
+      `);
+
+      for (const [itemType, table] of Object.entries(ITEM_TYPE_TABLES)) {
+        const values = (prefix: string) => SEARCH_COLUMNS
+          .map(column => (SEARCH_SOURCE_COLUMNS[itemType].includes(column) ? `${prefix}${column}` : 'NULL'))
+          .join(', ');
+        const insert = `
+          INSERT INTO item_search_keys (item_type, item_id) VALUES ('${itemType}', new.id);
+          INSERT INTO item_search (rowid, item_type, item_id, ${SEARCH_COLUMNS.join(', ')})
+          VALUES (last_insert_rowid(), '${itemType}', new.id, ${values('new.')});
+        `;
+        const remove = `
+          DELETE FROM item_search WHERE rowid = (
+            SELECT rowid FROM item_search_keys WHERE item_type = '${itemType}' AND item_id = old.id
+          );
+          DELETE FROM item_search_keys WHERE item_type = '${itemType}' AND item_id = old.id;
+        `;
+
+        db.exec(`
+          DROP TRIGGER trg_${table}_search_insert;
+          DROP TRIGGER trg_${table}_search_update;
+          DROP TRIGGER trg_${table}_search_delete;
+
+          CREATE TRIGGER trg_${table}_search_insert AFTER INSERT ON ${table}
+          BEGIN
+            ${insert}
+          END;
+
+          CREATE TRIGGER trg_${table}_search_update AFTER UPDATE ON ${table}
+          BEGIN
+            ${remove}
+            ${insert}
+          END;
+
+          CREATE TRIGGER trg_${table}_search_delete AFTER DELETE ON ${table}
+          BEGIN
+            ${remove}
+          END;
+
+          INSERT INTO item_search_keys (item_type, item_id) SELECT '${itemType}', id FROM ${table};
+          INSERT INTO item_search (rowid, item_type, item_id, ${SEARCH_COLUMNS.join(', ')})
+          SELECT k.rowid, '${itemType}', i.id, ${values('i.')}
+          FROM ${table} i JOIN item_search_keys k ON k.item_type = '${itemType}' AND k.item_id = i.id;
+        `);
+      }
+    },
+  },
+];
+
+/**
+ * Latest schema version known to this build
+ */
+export const LATEST_SQLITE_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Get the schema version of the local database (0 when no migration has run)
+ */
+export function getSQLiteSchemaVersion(): number {
+  return db.pragma('user_version', { simple: true }) as number;
+}
+
+/**
+ * Copy the database into the backups folder before upgrading, so a failed or
+ * unwanted upgrade can be undone by restoring it. Returns null for a new,
+ * empty database.
+ */
+function backupBeforeMigration(fromVersion: number): string | null {
+  const tableCount = db.prepare(
+    "SELECT COUNT(*) AS count FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'"
+  ).get() as { count: number };
+  if (tableCount.count === 0) {
+    return null;
+  }
+
+  const backupPath = getNewBackupPath('pre-migration', fromVersion);
+  // VACUUM INTO writes a consistent copy, including changes still in the WAL.
+  // Unlike the online backup API it is synchronous, as migrations must be.
+  db.prepare('VACUUM INTO ?').run(backupPath);
+  console.log('💾 Database backed up before migration to:', backupPath);
+  return backupPath;
+}
+
+/**
+ * Apply pending migrations in order. Throws SQLiteMigrationError when a step
+ * fails, and SQLiteSchemaTooNewError when the database is newer than this build.
+ */
+export function runSQLiteMigrations(): void {
+  const currentVersion = getSQLiteSchemaVersion();
+
+  if (currentVersion > LATEST_SQLITE_SCHEMA_VERSION) {
+    throw new SQLiteSchemaTooNewError(currentVersion, LATEST_SQLITE_SCHEMA_VERSION);
+  }
+
+  const pending = MIGRATIONS.filter(m => m.version > currentVersion);
+  if (pending.length === 0) {
+    return;
+  }
+
+  const backupPath = backupBeforeMigration(currentVersion);
+
+  for (const migration of pending) {
+    console.log(`📊 Applying database migration ${migration.version}: ${migration.description}`);
+    try {
+      db.transaction(() => {
+        migration.up();
+        db.pragma(`user_version = ${migration.version}`);
+      })();
+    } catch (error) {
+      throw new SQLiteMigrationError(
+        migration.version,
+        migration.description,
+        getSQLiteSchemaVersion(),
+        backupPath,
+        error
+      );
+    }
+  }
+}
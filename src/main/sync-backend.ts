@@ -0,0 +1,161 @@
+/**
+ * Sync backend abstraction
+ * The sync engine talks to the team server only through this interface, so the
+ * shared store can be MySQL, a JSON file on a network folder, or in memory.
+ */
+
+import { ItemType, Team, TeamMember, UserShare } from './db-operations';
+
+export type SyncBackendType = 'mysql' | 'folder';
+
+export interface RemoteTombstone {
+  item_type: ItemType;
+  item_id: string;
+  deleted_by?: string;
+  deleted_at: string;
+}
+
+export type SyncActivityOperation = 'create' | 'update' | 'delete';
+
+/**
+ * A change made to a team item, as recorded on the team server
+ */
+export interface SyncActivity {
+  item_type: ItemType;
+  item_id: string;
+  title: string | null;
+  operation: SyncActivityOperation;
+  synced_by: string | null;
+  synced_at: string;
+}
+
+export interface SyncActivityFilter {
+  itemType?: ItemType;
+  operation?: SyncActivityOperation;
+  /** Matches the user or the item title */
+  search?: string;
+  limit?: number;
+}
+
+export const DEFAULT_ACTIVITY_LIMIT = 200;
+
+/**
+ * Sync subscriptions: items with one of the categories or tags (lower case),
+ * plus the items created by createdBy
+ */
+export interface RemoteSubscriptionFilter {
+  categories: string[];
+  tags: string[];
+  createdBy: string | null;
+}
+
+/**
+ * Narrows the team items a backend returns to those this machine syncs,
+ * so rows it does not sync are not downloaded at all. A backend may return
+ * more than the filter asks for, never less.
+ */
+export interface RemoteItemFilter {
+  /** Teams the user belongs to; items without a team belong to the default team */
+  teamIds: string[];
+  /** Absent when every item of the teams is synced */
+  subscriptions?: RemoteSubscriptionFilter;
+}
+
+/**
+ * Thrown by a conditional upsertItem or deleteItem when the server row is not
+ * at the expected version, i.e. another client pushed the item first
+ */
+export class SyncVersionConflictError extends Error {
+  constructor(itemType: ItemType, itemId: string, expectedVersion: number | null) {
+    super(expectedVersion === null
+      ? `${itemType} ${itemId} already exists on the server`
+      : `${itemType} ${itemId} changed on the server since version ${expectedVersion}`);
+    this.name = 'SyncVersionConflictError';
+  }
+}
+
+export interface SyncBackend {
+  /** Human readable name used in status and error messages */
+  name: string;
+  /** Identifies the shared store, so per-store state (watermarks) is kept apart */
+  scope: string;
+  /** Whether the backend is configured and can be synced with right now */
+  isAvailable: () => boolean;
+  /** Actively check that the store can be reached */
+  healthCheck: () => Promise<boolean>;
+  /** Opaque cursor marking "now" on the store; pass it to listChanges next time */
+  getChangeCursor: () => Promise<string>;
+  /**
+   * Team-level items changed since the cursor, or all of them when it is null.
+   * With a filter, only the items matching it.
+   */
+  listChanges: (itemType: ItemType, since: string | null, filter?: RemoteItemFilter) => Promise<any[]>;
+  /**
+   * The user's own personal items (is_team_level 0, created by them) changed
+   * since the cursor, or all of them when it is null. Used for personal roaming.
+   */
+  listPersonalItems: (itemType: ItemType, userEmail: string, since: string | null) => Promise<any[]>;
+  /**
+   * Fetch specific items by id. Items carry the server's row_version.
+   * Personal items are only returned to the user who created them or a user
+   * they are shared with. With teamIds, team-level items of other teams are left out.
+   */
+  getItems: (itemType: ItemType, ids: string[], userEmail: string | null, teamIds?: string[]) => Promise<Map<string, any>>;
+  /**
+   * Insert or overwrite an item and resolve with its new row_version. Items are
+   * team-level unless is_team_level is 0, which is used to upload personal items
+   * shared with other users.
+   * With an expectedVersion the write is a compare-and-swap: null requires that
+   * the item does not exist yet, a number that the server row is still at that
+   * version; otherwise it rejects with SyncVersionConflictError.
+   */
+  upsertItem: (itemType: ItemType, item: Record<string, any>, expectedVersion?: number | null) => Promise<number>;
+  /**
+   * Delete an item and record a tombstone for other clients.
+   * With an expectedVersion the item is only deleted while the server row is
+   * still at that version; otherwise it rejects with SyncVersionConflictError.
+   */
+  deleteItem: (itemType: ItemType, itemId: string, deletedBy?: string, expectedVersion?: number) => Promise<void>;
+  /** Tombstones recorded since the cursor, or all of them when it is null */
+  listTombstones: (since: string | null) => Promise<RemoteTombstone[]>;
+  /** Remove tombstones older than the retention window */
+  purgeTombstones: (retentionDays: number) => Promise<void>;
+  /** Team activity (creates, updates and deletes), newest first */
+  listActivity: (filter: SyncActivityFilter) => Promise<SyncActivity[]>;
+  /** Shares made by or with the user */
+  listShares: (userEmail: string) => Promise<UserShare[]>;
+  /** Insert or overwrite a share */
+  upsertShare: (share: UserShare) => Promise<void>;
+  /** Remove a share */
+  deleteShare: (shareId: string) => Promise<void>;
+  /** Teams the user belongs to, with all their memberships (the default team is implicit) */
+  listTeams: (userEmail: string) => Promise<{ teams: Team[]; members: TeamMember[] }>;
+  /** Insert a team or rename it */
+  upsertTeam: (team: Team) => Promise<void>;
+  /** Insert or overwrite a membership */
+  upsertTeamMember: (member: TeamMember) => Promise<void>;
+  /** Remove a membership */
+  deleteTeamMember: (teamId: string, userEmail: string) => Promise<void>;
+  /**
+   * Run a sync's reads and writes as one batch, for stores that would
+   * otherwise be rewritten on every change. Optional.
+   */
+  batch?: <T>(work: () => Promise<T>) => Promise<T>;
+}
+
+/**
+ * Format a date the way SQLite's CURRENT_TIMESTAMP stores it.
+ * Dates are formatted from local-time components, matching how mysql2 reads DATETIME columns.
+ */
+export function toSqliteDateTime(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (!(value instanceof Date)) {
+    return String(value);
+  }
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())} ` +
+    `${pad(value.getHours())}:${pad(value.getMinutes())}:${pad(value.getSeconds())}`;
+}
@@ -0,0 +1,110 @@
+import fs from 'fs';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// database.ts opens the database under the app's user data folder on import
+const userDataPath = await vi.hoisted(async () => {
+  const { default: nodeFs } = await import('fs');
+  const { default: nodeOs } = await import('os');
+  const { default: nodePath } = await import('path');
+  return nodeFs.mkdtempSync(nodePath.join(nodeOs.tmpdir(), 'sync-engine-test-'));
+});
+
+vi.mock('electron', () => ({
+  app: { getPath: () => userDataPath },
+  BrowserWindow: class {},
+  powerMonitor: { on: () => {} },
+}));
+
+import { closeDatabase, initializeDatabase } from './database';
+import { dbOperations, DEFAULT_TEAM_ID } from './db-operations';
+import { createMemorySyncBackend } from './memory-sync-backend';
+import { SyncBackend, SyncVersionConflictError } from './sync-backend';
+import { approveSync, manualSync, setSyncBackendOverride } from './sync-engine';
+
+const USER = 'alice@example.com';
+
+let backend: SyncBackend;
+
+async function createSyncedBookmark(title: string): Promise<string> {
+  const id = dbOperations.createBookmark({
+    title,
+    url: `https://example.com/${encodeURIComponent(title)}`,
+    is_team_level: 1,
+    is_personal: 0,
+    team_id: DEFAULT_TEAM_ID,
+    created_by: USER,
+    updated_by: USER,
+  });
+  const result = await approveSync(backend.scope);
+  expect(result?.errors).toEqual([]);
+  return id;
+}
+
+async function getRemoteBookmark(id: string): Promise<any | undefined> {
+  return (await backend.getItems('bookmark', [id], USER)).get(id);
+}
+
+describe('sync engine', () => {
+  beforeAll(() => {
+    expect(initializeDatabase()).toBe(true);
+    dbOperations.setSetting('current_user_email', USER);
+  });
+
+  afterAll(() => {
+    setSyncBackendOverride(null);
+    closeDatabase();
+    fs.rmSync(userDataPath, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    // Every test starts against an empty server, so the previous cursor no longer applies
+    backend = createMemorySyncBackend();
+    setSyncBackendOverride(backend);
+    dbOperations.setSetting(`sync_pull_watermark_${backend.scope}`, '');
+  });
+
+  it('pushes a local deletion as a tombstone when the server copy is unchanged', async () => {
+    const id = await createSyncedBookmark('Unchanged');
+    expect(await getRemoteBookmark(id)).toBeDefined();
+    expect(dbOperations.getSyncBase('bookmark', id)).toBeDefined();
+
+    dbOperations.deleteBookmark(id, USER);
+    const result = await manualSync();
+
+    expect(result?.errors).toEqual([]);
+    expect(result?.conflicts).toBe(0);
+    expect(await getRemoteBookmark(id)).toBeUndefined();
+    expect((await backend.listTombstones(null)).map(tombstone => tombstone.item_id)).toContain(id);
+    expect(dbOperations.getSyncBase('bookmark', id)).toBeUndefined();
+    expect(dbOperations.getItem('bookmark', id)).toBeUndefined();
+    expect(dbOperations.getItem('bookmark', id, true)?.deleted_at).toBeTruthy();
+    expect(dbOperations.getOutboxSummary().pending).toBe(0);
+  });
+
+  it('restores an item deleted here that was edited on the server meanwhile', async () => {
+    const id = await createSyncedBookmark('Original');
+    const remote = await getRemoteBookmark(id);
+    await backend.upsertItem('bookmark', { ...remote, title: 'Edited elsewhere', updated_by: 'bob@example.com' }, remote.row_version);
+
+    dbOperations.deleteBookmark(id, USER);
+    const result = await manualSync();
+
+    expect(result?.errors).toEqual([]);
+    expect(result?.conflicts).toBe(1);
+    expect(dbOperations.getItem('bookmark', id)?.title).toBe('Edited elsewhere');
+    expect(dbOperations.hasTombstone('bookmark', id)).toBe(false);
+    expect((await getRemoteBookmark(id))?.title).toBe('Edited elsewhere');
+    expect(await backend.listTombstones(null)).toEqual([]);
+    expect(dbOperations.getOutboxSummary().pending).toBe(0);
+  });
+
+  it('refuses a deletion made against an outdated row version', async () => {
+    const id = await createSyncedBookmark('Raced');
+    const remote = await getRemoteBookmark(id);
+    await backend.upsertItem('bookmark', { ...remote, title: 'Raced again' }, remote.row_version);
+
+    await expect(backend.deleteItem('bookmark', id, USER, remote.row_version)).rejects.toBeInstanceOf(SyncVersionConflictError);
+    expect((await getRemoteBookmark(id))?.title).toBe('Raced again');
+    expect(await backend.listTombstones(null)).toEqual([]);
+  });
+});
@@ -1,11 +1,85 @@
-import { dbOperations, Bookmark, Executable, Script } from './db-operations';
-import { executeQuery, isConnected } from './mysql-connection';
+import { BrowserWindow, powerMonitor } from 'electron';
+import path from 'path';
+import {
+  dbOperations,
+  DEFAULT_TEAM_ID,
+  generateSyncHash,
+  ConflictResolution,
+  ItemType,
+  ITEM_FIELDS,
+  SyncOutboxEntry,
+  SyncOutboxSummary,
+  SyncRunAction,
+  SyncSubscription,
+  SyncSubscriptionKind,
+  SyncTrigger,
+  UserShare,
+} from './db-operations';
+import {
+  SyncActivity,
+  SyncActivityFilter,
+  RemoteItemFilter,
+  RemoteSubscriptionFilter,
+  SyncBackend,
+  SyncBackendType,
+  SyncVersionConflictError,
+} from './sync-backend';
+import { mysqlSyncBackend } from './mysql-sync-backend';
+import { onMySQLReconnect } from './mysql-connection';
+import { createFolderSyncBackend } from './folder-sync-backend';
+import { sameValue, threeWayMerge } from './sync-merge';
+import { getCurrentUserEmail } from './auth-service';
 
 // Sync status tracking
 let isSyncing = false;
 let lastSyncTime: Date | null = null;
-let syncInterval: NodeJS.Timeout | null = null;
-const SYNC_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+let progressWindow: BrowserWindow | null = null;
+let lastProgressEmit = 0;
+let currentRunId: string | null = null;
+let pollTimer: NodeJS.Timeout | null = null;
+let isPolling = false;
+let nextSyncTime: Date | null = null;
+let consecutiveFailures = 0;
+let outboxTimer: NodeJS.Timeout | null = null;
+let syncTriggersRegistered = false;
+let approvalRequired = false;
+const SYNC_RETRY_BASE_MS = 30 * 1000;
+const RECONNECT_SYNC_DELAY_MS = 2 * 1000;
+const RESUME_SYNC_DELAY_MS = 5 * 1000; // give the network a moment to come back after sleep
+const DEFAULT_TOMBSTONE_RETENTION_DAYS = 30;
+const OUTBOX_REPLAY_DELAY_MS = 2 * 1000; // batch up quick successive edits
+const PROGRESS_THROTTLE_MS = 100;
+const SYNC_RUN_HISTORY_SIZE = 200;
+const MAX_VERSION_CONFLICT_RETRIES = 3; // re-merges when another client pushes the same item first
+const PERSONAL_ROAMING_SETTING = 'sync_personal_roaming';
+
+const ITEM_LABELS: Record<ItemType, string> = {
+  bookmark: 'Bookmark',
+  executable: 'Executable',
+  script: 'Script',
+};
+
+type ReconcileOutcome = 'unchanged' | 'pulled' | 'pushed' | 'merged' | 'conflict';
+
+interface EntitySyncResult {
+  synced: number;
+  conflicts: number;
+  errors: string[];
+}
+
+export type SyncPhase = 'started' | 'deletions' | 'outbox' | 'pull' | 'push' | 'cleanup' | 'completed' | 'failed';
+
+/**
+ * Progress of a running sync, sent to the renderer on the 'sync:progress' channel
+ */
+export interface SyncProgressEvent {
+  phase: SyncPhase;
+  itemType?: ItemType;
+  processed: number;
+  total: number;
+  /** Errors so far in this phase (the whole run for 'completed' and 'failed') */
+  errors: string[];
+}
 
 export interface SyncStatus {
   isSyncing: boolean;
@@ -16,501 +90,2069 @@ export interface SyncStatus {
     conflicts: number;
     errors: string[];
   } | null;
+  pendingChanges: number;
+  lastError: string | null;
+  nextSyncTime: Date | null;
+  /** Syncs are held until a sync preview is approved */
+  awaitingApproval: boolean;
+}
+
+export type SyncPlanAction = 'pull' | 'push' | 'overwrite' | 'merge' | 'delete' | 'remove' | 'conflict';
+
+export interface SyncPlanItem {
+  item_type: ItemType;
+  item_id: string;
+  title?: string;
+  action: SyncPlanAction;
+  /** Fields changed on both sides, for conflicts */
+  conflicting_fields?: string[];
+  message?: string;
+}
+
+/**
+ * What a sync would do, computed without writing anything
+ */
+export interface SyncPlan {
+  backend: string;
+  scope: string;
+  /** No sync has completed against this backend yet */
+  firstSync: boolean;
+  items: SyncPlanItem[];
+  counts: Record<SyncPlanAction, number>;
+  errors: string[];
+}
+
+export type SyncDriftKind = 'missing_local' | 'missing_remote' | 'mismatch';
+
+/**
+ * A team item whose content differs between SQLite and the server although
+ * no local change or conflict explains it
+ */
+export interface SyncDriftItem {
+  item_type: ItemType;
+  item_id: string;
+  title?: string;
+  kind: SyncDriftKind;
+  local_hash: string | null;
+  remote_hash: string | null;
+}
+
+/**
+ * Result of comparing the canonical content hashes of every team item
+ */
+export interface SyncVerifyReport {
+  backend: string;
+  scope: string;
+  /** Team items compared */
+  checked: number;
+  drift: SyncDriftItem[];
+  errors: string[];
+  verified_at: string;
+}
+
+export type SyncRepairAction = 'pull' | 'push';
+
+export interface SyncRepairRequest {
+  item_type: ItemType;
+  item_id: string;
+  /** Pull overwrites (or drops) the local copy, push overwrites the server copy */
+  action: SyncRepairAction;
+}
+
+/**
+ * When automatic syncs run
+ */
+export interface SyncPolicy {
+  /** Poll the backend on a schedule */
+  autoSync: boolean;
+  intervalMinutes: number;
+  /** Upper bound for the retry delay after consecutive failed syncs */
+  maxBackoffMinutes: number;
+  /** Sync right away when the MySQL connection comes back or the machine wakes up */
+  syncOnReconnect: boolean;
+}
+
+const DEFAULT_SYNC_POLICY: SyncPolicy = {
+  autoSync: true,
+  intervalMinutes: 5,
+  maxBackoffMinutes: 30,
+  syncOnReconnect: true,
+};
+
+const MIN_SYNC_INTERVAL_MINUTES = 1;
+const MAX_SYNC_INTERVAL_MINUTES = 24 * 60;
+
+let lastSyncResult: SyncStatus['lastSyncResult'] = null;
+let backendOverride: SyncBackend | null = null;
+// One instance per folder, so its lock and batch state are shared by every caller
+const folderBackends = new Map<string, SyncBackend>();
+
+/**
+ * Set the window that receives sync progress events
+ */
+export function setSyncProgressWindow(window: BrowserWindow | null): void {
+  progressWindow = window;
+}
+
+/**
+ * Send a progress event to the renderer. Per-item updates are throttled;
+ * the first and last update of a phase are always sent.
+ */
+function emitProgress(event: SyncProgressEvent): void {
+  const now = Date.now();
+  const isBoundary = event.processed === 0 || event.processed >= event.total;
+  if (!isBoundary && now - lastProgressEmit < PROGRESS_THROTTLE_MS) {
+    return;
+  }
+  lastProgressEmit = now;
+
+  if (progressWindow && !progressWindow.isDestroyed()) {
+    progressWindow.webContents.send('sync:progress', event);
+  }
+}
+
+/**
+ * Use a specific backend instead of the configured one (e.g. an in-memory
+ * backend). Pass null to go back to the configured backend.
+ */
+export function setSyncBackendOverride(backend: SyncBackend | null): void {
+  backendOverride = backend;
+}
+
+/**
+ * Get the configured backend settings
+ */
+export function getSyncBackendConfig(): { type: SyncBackendType; folderPath: string | null } {
+  const backendType = dbOperations.getSetting('sync_backend');
+  const folderPath = dbOperations.getSetting('sync_folder_path');
+  return {
+    type: backendType?.value === 'folder' ? 'folder' : 'mysql',
+    folderPath: folderPath?.value || null,
+  };
+}
+
+/**
+ * Save the backend settings
+ */
+export function setSyncBackendConfig(type: SyncBackendType, folderPath?: string | null): void {
+  if (type === 'folder' && !folderPath) {
+    throw new Error('A shared folder path is required for the folder backend');
+  }
+
+  dbOperations.setSetting('sync_backend', type);
+  if (folderPath) {
+    dbOperations.setSetting('sync_folder_path', folderPath);
+  }
+}
+
+/**
+ * Get the backend to sync with: the shared folder when one is configured, MySQL otherwise
+ */
+export function getSyncBackend(): SyncBackend {
+  if (backendOverride) {
+    return backendOverride;
+  }
+
+  const config = getSyncBackendConfig();
+  if (config.type === 'folder' && config.folderPath) {
+    const folderPath = path.resolve(config.folderPath);
+    let backend = folderBackends.get(folderPath);
+    if (!backend) {
+      backend = createFolderSyncBackend(folderPath);
+      folderBackends.set(folderPath, backend);
+    }
+    return backend;
+  }
+
+  return mysqlSyncBackend;
+}
+
+/**
+ * Check that the configured backend can be reached
+ */
+export async function testSyncBackend(): Promise<boolean> {
+  return await getSyncBackend().healthCheck();
+}
+
+/**
+ * Get the automatic sync policy
+ */
+export function getSyncPolicy(): SyncPolicy {
+  const readNumber = (key: string, fallback: number) => {
+    const value = Number(dbOperations.getSetting(key)?.value);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+  const readFlag = (key: string, fallback: boolean) => {
+    const setting = dbOperations.getSetting(key);
+    return setting ? setting.value === 'true' : fallback;
+  };
+
+  return {
+    autoSync: readFlag('sync_auto_enabled', DEFAULT_SYNC_POLICY.autoSync),
+    intervalMinutes: readNumber('sync_interval_minutes', DEFAULT_SYNC_POLICY.intervalMinutes),
+    maxBackoffMinutes: readNumber('sync_max_backoff_minutes', DEFAULT_SYNC_POLICY.maxBackoffMinutes),
+    syncOnReconnect: readFlag('sync_on_reconnect', DEFAULT_SYNC_POLICY.syncOnReconnect),
+  };
+}
+
+/**
+ * Save the automatic sync policy and apply it to the running schedule
+ */
+export function setSyncPolicy(policy: SyncPolicy): SyncPolicy {
+  const clampMinutes = (minutes: number) =>
+    Math.min(Math.max(Math.round(minutes), MIN_SYNC_INTERVAL_MINUTES), MAX_SYNC_INTERVAL_MINUTES);
+
+  if (!Number.isFinite(policy.intervalMinutes) || !Number.isFinite(policy.maxBackoffMinutes)) {
+    throw new Error('Sync interval and backoff must be numbers of minutes');
+  }
+
+  dbOperations.setSetting('sync_auto_enabled', String(policy.autoSync));
+  dbOperations.setSetting('sync_interval_minutes', String(clampMinutes(policy.intervalMinutes)));
+  dbOperations.setSetting('sync_max_backoff_minutes', String(clampMinutes(policy.maxBackoffMinutes)));
+  dbOperations.setSetting('sync_on_reconnect', String(policy.syncOnReconnect));
+
+  const saved = getSyncPolicy();
+  if (saved.autoSync) {
+    if (isPolling) {
+      scheduleNextPoll();
+    } else {
+      startSyncPolling();
+    }
+  } else {
+    stopSyncPolling();
+  }
+
+  return saved;
+}
+
+/**
+ * Start automatic sync polling on the policy's interval
+ */
+export function startSyncPolling(initialDelayMs: number = 0): void {
+  if (isPolling) {
+    console.log('Sync polling already running');
+    return;
+  }
+
+  console.log('Starting sync polling...');
+  isPolling = true;
+  schedulePoll(initialDelayMs);
+}
+
+/**
+ * Stop automatic sync polling
+ */
+export function stopSyncPolling(): void {
+  if (outboxTimer) {
+    clearTimeout(outboxTimer);
+    outboxTimer = null;
+  }
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+    pollTimer = null;
+  }
+  nextSyncTime = null;
+  if (isPolling) {
+    isPolling = false;
+    console.log('Sync polling stopped');
+  }
+}
+
+/**
+ * Sync when the MySQL pool reconnects or the machine resumes from sleep,
+ * if the policy allows it. Call once the app is ready.
+ */
+export function registerSyncTriggers(): void {
+  if (syncTriggersRegistered) {
+    return;
+  }
+  syncTriggersRegistered = true;
+
+  onMySQLReconnect(() => {
+    if (getSyncBackendConfig().type === 'mysql') {
+      triggerImmediateSync('MySQL reconnected', RECONNECT_SYNC_DELAY_MS);
+    }
+  });
+
+  powerMonitor.on('resume', () => {
+    triggerImmediateSync('system resumed', RESUME_SYNC_DELAY_MS);
+  });
 }
 
-let lastSyncResult: SyncStatus['lastSyncResult'] = null;
+/**
+ * Sync shortly, skipping any pending backoff
+ */
+function triggerImmediateSync(reason: string, delayMs: number): void {
+  if (!getSyncPolicy().syncOnReconnect) {
+    return;
+  }
+
+  console.log(`Syncing after ${reason}`);
+  consecutiveFailures = 0;
+  if (isPolling) {
+    schedulePoll(delayMs);
+  } else {
+    // Automatic sync is off - only upload what is waiting in the outbox
+    scheduleOutboxReplay(delayMs);
+  }
+}
+
+/**
+ * Schedule the next poll: the policy's interval after a successful sync,
+ * exponential backoff with jitter after consecutive failures
+ */
+function scheduleNextPoll(): void {
+  if (consecutiveFailures === 0) {
+    schedulePoll(getSyncPolicy().intervalMinutes * 60 * 1000);
+    return;
+  }
+
+  schedulePoll(getBackoffDelayMs(consecutiveFailures));
+}
+
+/**
+ * Retry delay after the given number of consecutive failures: exponential,
+ * capped by the policy's maximum backoff
+ */
+function getBackoffDelayMs(failures: number): number {
+  const maxBackoffMs = getSyncPolicy().maxBackoffMinutes * 60 * 1000;
+  const backoffMs = Math.min(SYNC_RETRY_BASE_MS * 2 ** Math.max(failures - 1, 0), maxBackoffMs);
+  // Jitter spreads out clients that lost the server at the same moment
+  return backoffMs / 2 + Math.random() * (backoffMs / 2);
+}
+
+function schedulePoll(delayMs: number): void {
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+  }
+
+  nextSyncTime = new Date(Date.now() + delayMs);
+  pollTimer = setTimeout(() => {
+    pollTimer = null;
+    nextSyncTime = null;
+    performSync().catch(console.error);
+  }, delayMs);
+}
+
+/**
+ * Replay queued local changes shortly, if there are any.
+ * Called after local mutations so team changes are uploaded without waiting for
+ * the next poll. Only the outbox is replayed; pulling is left to the policy.
+ */
+export function scheduleOutboxReplay(delayMs: number = OUTBOX_REPLAY_DELAY_MS): void {
+  if (outboxTimer) {
+    clearTimeout(outboxTimer);
+    outboxTimer = null;
+  }
+  if (dbOperations.getOutboxSummary().pending === 0) {
+    return;
+  }
+
+  outboxTimer = setTimeout(() => {
+    outboxTimer = null;
+    replayPendingChanges().catch(console.error);
+  }, delayMs);
+}
+
+/**
+ * Upload the outbox entries that are due, without pulling from the server
+ */
+async function replayPendingChanges(): Promise<void> {
+  if (isSyncing) {
+    // The running sync replays the outbox and schedules a retry for what is left
+    return;
+  }
+
+  const backend = getSyncBackend();
+  if (!isSyncApproved(backend)) {
+    return;
+  }
+  if (!backend.isAvailable()) {
+    console.log(`${backend.name} not available, keeping local changes in the outbox`);
+    retryWhenAvailable();
+    return;
+  }
+  if (!dbOperations.getOutboxEntries().some(entry => entry.is_due)) {
+    scheduleOutboxRetry();
+    return;
+  }
+
+  isSyncing = true;
+  const runId = dbOperations.startSyncRun('auto');
+  currentRunId = runId;
+  let result: NonNullable<SyncStatus['lastSyncResult']>;
+
+  try {
+    emitProgress({ phase: 'started', processed: 0, total: 0, errors: [] });
+    const outboxResult = await withBatch(backend, () => replayOutbox(backend));
+    result = {
+      success: outboxResult.errors.length === 0,
+      itemsSynced: outboxResult.synced,
+      conflicts: outboxResult.conflicts,
+      errors: outboxResult.errors,
+    };
+    consecutiveFailures = 0;
+    emitProgress({ phase: 'completed', processed: result.itemsSynced, total: result.itemsSynced, errors: result.errors });
+  } catch (error) {
+    console.error('❌ Outbox replay failed:', error);
+    result = {
+      success: false,
+      itemsSynced: 0,
+      conflicts: 0,
+      errors: [error instanceof Error ? error.message : 'Unknown error'],
+    };
+    emitProgress({ phase: 'failed', processed: 0, total: 0, errors: result.errors });
+  } finally {
+    currentRunId = null;
+    isSyncing = false;
+  }
+
+  finishSyncRun(runId, result);
+  lastSyncResult = result;
+  scheduleOutboxRetry();
+}
+
+/**
+ * Count a sync skipped because the backend cannot be reached and retry with
+ * backoff: through the poll when polling, by replaying the outbox otherwise.
+ * No sync run is recorded, so a long offline spell leaves the history alone.
+ */
+function retryWhenAvailable(): void {
+  consecutiveFailures++;
+  if (isPolling) {
+    scheduleNextPoll();
+  } else {
+    scheduleOutboxReplay(getBackoffDelayMs(consecutiveFailures));
+  }
+}
+
+/**
+ * Get the local changes waiting to be uploaded to the team server
+ */
+export function getPendingChanges(): SyncOutboxSummary {
+  return dbOperations.getOutboxSummary();
+}
+
+/**
+ * Get current sync status
+ */
+export function getSyncStatus(): SyncStatus {
+  // Fall back to the time persisted by a previous session
+  const persistedSyncTime = dbOperations.getSetting('last_sync_timestamp');
+  const outbox = dbOperations.getOutboxSummary();
+  const backend = getSyncBackend();
+
+  return {
+    isSyncing,
+    lastSyncTime: lastSyncTime ?? (persistedSyncTime ? new Date(persistedSyncTime.value) : null),
+    lastSyncResult,
+    pendingChanges: outbox.pending,
+    lastError: lastSyncResult?.errors[0] ?? outbox.lastError,
+    nextSyncTime,
+    awaitingApproval: backend.isAvailable() && !isSyncApproved(backend),
+  };
+}
+
+/**
+ * Perform manual sync. Refused, like automatic syncs, until a sync preview of
+ * the current backend has been approved (see approveSync).
+ */
+export async function manualSync(): Promise<SyncStatus['lastSyncResult']> {
+  return await performSync('manual');
+}
+
+/**
+ * Run the sync the user reviewed in a sync preview. The scope is the one the
+ * preview was computed for; a preview of another backend is not an approval.
+ */
+export async function approveSync(scope: string): Promise<SyncStatus['lastSyncResult']> {
+  const backend = getSyncBackend();
+  if (backend.scope !== scope) {
+    throw new Error('The sync preview is out of date - preview the sync again');
+  }
+
+  return await performSync('manual', true);
+}
+
+/**
+ * Get the team activity feed from the team server
+ */
+export async function getActivity(filter: SyncActivityFilter = {}): Promise<SyncActivity[]> {
+  const backend = getSyncBackend();
+  if (!backend.isAvailable()) {
+    throw new Error(`${backend.name} not available`);
+  }
+
+  return await backend.listActivity(filter);
+}
+
+/**
+ * Get recent sync runs, newest first
+ */
+export function getSyncRuns(limit?: number) {
+  return dbOperations.getSyncRuns(limit);
+}
+
+/**
+ * Get what a sync run did to each item
+ */
+export function getSyncRunItems(runId: string) {
+  return dbOperations.getSyncRunItems(runId);
+}
+
+/**
+ * Find the sync history of items by title or id
+ */
+export function findSyncRunItems(searchTerm: string) {
+  return dbOperations.findSyncRunItems(searchTerm);
+}
+
+/**
+ * Whether the current user's personal items are roamed through the team server
+ */
+export function isPersonalRoamingEnabled(): boolean {
+  return dbOperations.getSetting(PERSONAL_ROAMING_SETTING)?.value === 'true';
+}
+
+/**
+ * Opt in to (or out of) personal roaming. Turning it off keeps the copies
+ * already on the server, so another machine can still restore them.
+ */
+export function setPersonalRoaming(enabled: boolean): void {
+  dbOperations.setSetting(PERSONAL_ROAMING_SETTING, enabled ? 'true' : 'false');
+  if (enabled) {
+    // Pull everything again - items may have been roamed while this machine was opted out
+    for (const setting of dbOperations.getAllSettings() as { key: string; value: string }[]) {
+      if (setting.key.startsWith('sync_personal_watermark_')) {
+        dbOperations.deleteSetting(setting.key);
+      }
+    }
+  }
+}
+
+/**
+ * Bring back the user's roamed personal items after sign-in. On a machine
+ * where roaming was never chosen, it is switched on when the user already
+ * roams items from another machine. Returns the number of items synced.
+ */
+export async function restorePersonalItems(): Promise<number> {
+  const backend = getSyncBackend();
+  const userEmail = getCurrentUserEmail();
+  // Nothing is exchanged with a store before a previewed sync was approved
+  if (!userEmail || isSyncing || !isSyncApproved(backend) || !backend.isAvailable()) {
+    return 0;
+  }
+
+  if (!dbOperations.getSetting(PERSONAL_ROAMING_SETTING)) {
+    for (const itemType of Object.keys(ITEM_LABELS) as ItemType[]) {
+      if ((await backend.listPersonalItems(itemType, userEmail, null)).length > 0) {
+        setPersonalRoaming(true);
+        break;
+      }
+    }
+  }
+  if (!isPersonalRoamingEnabled()) {
+    return 0;
+  }
+
+  isSyncing = true;
+  try {
+    const result = await withBatch(backend, () => syncPersonalItems(backend));
+    if (result.errors.length > 0) {
+      console.error('Personal items restored with errors:', result.errors);
+    }
+    return result.synced;
+  } finally {
+    isSyncing = false;
+  }
+}
+
+/**
+ * Get the tags and categories of team items this machine syncs
+ */
+export function getSyncSubscriptions(): SyncSubscription[] {
+  return dbOperations.getSyncSubscriptions();
+}
+
+/**
+ * Subscribe to team items with a tag or category
+ */
+export function addSyncSubscription(kind: SyncSubscriptionKind, value: string): string {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    throw new Error('A tag or category name is required');
+  }
+
+  const id = dbOperations.addSyncSubscription(kind, trimmed);
+  onSubscriptionsChanged();
+  return id;
+}
+
+/**
+ * Unsubscribe from a tag or category
+ */
+export function removeSyncSubscription(id: string): void {
+  dbOperations.removeSyncSubscription(id);
+  onSubscriptionsChanged();
+}
+
+/**
+ * Items skipped under the old subscriptions were never pulled, so pull
+ * everything again on the next sync, which also drops newly unsubscribed items
+ */
+function onSubscriptionsChanged(): void {
+  for (const setting of dbOperations.getAllSettings() as { key: string; value: string }[]) {
+    if (setting.key.startsWith('sync_pull_watermark_') && setting.value) {
+      const scope = setting.key.slice('sync_pull_watermark_'.length);
+      dbOperations.setSetting(`sync_initialized_${scope}`, 'true');
+      dbOperations.deleteSetting(setting.key);
+    }
+  }
+
+  if (isPolling) {
+    schedulePoll(OUTBOX_REPLAY_DELAY_MS);
+  }
+}
+
+/**
+ * Build a predicate for team items synced to this machine: everything when
+ * there are no subscriptions, otherwise items with a subscribed tag or category.
+ * Items created by the current user are always synced. The same subscriptions
+ * are handed to the backend so unsubscribed items are not downloaded.
+ */
+function loadSubscriptionFilter(): { isSubscribed: (item: any) => boolean; remote?: RemoteSubscriptionFilter } {
+  const subscriptions = dbOperations.getSyncSubscriptions();
+  if (subscriptions.length === 0) {
+    return { isSubscribed: () => true };
+  }
+
+  const normalize = (value: string) => value.trim().toLowerCase();
+  const tags = new Set(subscriptions.filter(sub => sub.kind === 'tag').map(sub => normalize(sub.value)));
+  const categories = new Set(subscriptions.filter(sub => sub.kind === 'category').map(sub => normalize(sub.value)));
+  const userEmail = getCurrentUserEmail();
+
+  return {
+    isSubscribed: (item: any) => {
+      if (userEmail && item.created_by === userEmail) {
+        return true;
+      }
+      if (item.category && categories.has(normalize(item.category))) {
+        return true;
+      }
+      const itemTags: string[] = item.tags ? String(item.tags).split(',').map(normalize) : [];
+      return itemTags.some(tag => tags.has(tag));
+    },
+    remote: { categories: [...categories], tags: [...tags], createdBy: userEmail },
+  };
+}
+
+/**
+ * Build a predicate for team items synced to this machine (in one of the
+ * user's teams and matching the subscriptions), with the reason an item is not.
+ * The backend filter narrows pulls on the server to the same items.
+ */
+function loadSyncFilter(): {
+  isSynced: (item: any) => boolean;
+  reason: (item: any) => string;
+  remote: RemoteItemFilter;
+} {
+  const teamIds = dbOperations.getTeamsForUser(getCurrentUserEmail()).map(team => team.id);
+  const inMyTeams = (item: any) => teamIds.includes(item.team_id ?? DEFAULT_TEAM_ID);
+  const subscriptions = loadSubscriptionFilter();
+  return {
+    isSynced: (item: any) => inMyTeams(item) && subscriptions.isSubscribed(item),
+    reason: (item: any) => (inMyTeams(item) ? 'Not in your sync subscriptions' : 'Not in any of your teams'),
+    remote: { teamIds, subscriptions: subscriptions.remote },
+  };
+}
+
+/**
+ * Local team items no longer synced to this machine that can be dropped:
+ * ones without local changes waiting to be pushed
+ */
+function getUnsubscribedItems(itemType: ItemType, isSynced: (item: any) => boolean): any[] {
+  const pendingIds = new Set(dbOperations.getPendingTeamItems(itemType).map(item => item.id));
+  return dbOperations.getTeamItems(itemType).filter(item =>
+    !isSynced(item) && !pendingIds.has(item.id) && !dbOperations.hasOutboxEntries(itemType, item.id)
+  );
+}
+
+/**
+ * Get sync conflicts awaiting review
+ */
+export function getConflicts() {
+  return dbOperations.getOpenConflicts();
+}
+
+/**
+ * Resolve a sync conflict.
+ * The chosen values are written locally and the remote snapshot becomes the
+ * merge base, so the next sync pushes them as an ordinary local change (or
+ * merges again if the server has moved on in the meantime).
+ */
+export async function resolveConflict(
+  conflictId: string,
+  resolution: ConflictResolution,
+  mergedValues?: Record<string, any>,
+  resolvedBy?: string
+): Promise<void> {
+  const conflict = dbOperations.getConflict(conflictId);
+  if (!conflict || conflict.resolved_at) {
+    throw new Error('Conflict not found or already resolved');
+  }
+
+  const item = dbOperations.getItem(conflict.item_type, conflict.item_id);
+  if (!item) {
+    // Item was deleted in the meantime - nothing left to resolve
+    dbOperations.markConflictResolved(conflictId, resolution);
+    return;
+  }
+
+  const localValues = pickFields(conflict.item_type, item);
+  let chosen: Record<string, any>;
+  if (resolution === 'theirs') {
+    chosen = conflict.remote_snapshot;
+  } else if (resolution === 'mine') {
+    chosen = localValues;
+  } else {
+    if (!mergedValues) {
+      throw new Error('Merged values are required to resolve a conflict by merging');
+    }
+    chosen = pickFields(conflict.item_type, { ...localValues, ...mergedValues });
+  }
+
+  const resolved = { ...item, ...chosen, updated_by: resolvedBy || item.updated_by };
+  resolved.sync_hash = generateSyncHash(conflict.item_type, resolved);
+
+  dbOperations.transaction(() => {
+    dbOperations.saveSyncedItem(conflict.item_type, resolved, 'local');
+    dbOperations.saveSyncBase(conflict.item_type, conflict.item_id, conflict.remote_snapshot, null);
+    dbOperations.markConflictResolved(conflictId, resolution);
+    dbOperations.queueOutboxEntry(conflict.item_type, conflict.item_id, 'update', resolvedBy);
+  });
+
+  // Push the resolution right away when possible
+  scheduleOutboxReplay(0);
+}
+
+/**
+ * Hold all syncs until the user approves a sync preview,
+ * e.g. after pointing the app at a different team server
+ */
+export function requireSyncApproval(): void {
+  approvalRequired = true;
+}
+
+/**
+ * Syncs run once a sync against the backend has been approved.
+ * A backend that was never synced needs an approved (previewed) first sync.
+ */
+function isSyncApproved(backend: SyncBackend): boolean {
+  if (approvalRequired) {
+    return false;
+  }
+  return getPullWatermark(backend) !== null || dbOperations.getSetting(`sync_initialized_${backend.scope}`)?.value === 'true';
+}
+
+/**
+ * Compute what a sync would do - items to pull, push, overwrite, delete and
+ * the conflicts it would raise - without writing anything locally or remotely
+ */
+export async function previewSync(): Promise<SyncPlan> {
+  const backend = getSyncBackend();
+  const items: SyncPlanItem[] = [];
+  const errors: string[] = [];
+  const planned = new Set<string>();
+
+  const addItem = (item: SyncPlanItem) => {
+    planned.add(`${item.item_type}:${item.item_id}`);
+    items.push(item);
+  };
+
+  if (!backend.isAvailable()) {
+    throw new Error(`${backend.name} not available`);
+  }
+
+  const since = getPullWatermark(backend);
+
+  // Deletions made on other machines
+  try {
+    for (const tombstone of await backend.listTombstones(since)) {
+      const localItem = dbOperations.getItem(tombstone.item_type, tombstone.item_id);
+      if (localItem) {
+        addItem({
+          item_type: tombstone.item_type,
+          item_id: tombstone.item_id,
+          title: localItem.title,
+          action: 'remove',
+          message: `Deleted on the team server${tombstone.deleted_by ? ` by ${tombstone.deleted_by}` : ''}`,
+        });
+      }
+    }
+  } catch (error) {
+    errors.push(`Deletions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  // Journaled local changes - one plan entry per item, a deletion wins
+  const outboxEntries = dbOperations.getOutboxEntries()
+    .filter(entry => !planned.has(`${entry.item_type}:${entry.item_id}`));
+  const deletedKeys = new Set(
+    outboxEntries.filter(entry => entry.operation === 'delete').map(entry => `${entry.item_type}:${entry.item_id}`)
+  );
+  for (const entry of outboxEntries) {
+    const key = `${entry.item_type}:${entry.item_id}`;
+    if (planned.has(key)) {
+      continue;
+    }
+
+    if (deletedKeys.has(key)) {
+      addItem({
+        item_type: entry.item_type,
+        item_id: entry.item_id,
+        action: 'delete',
+        message: entry.changed_by ? `Deleted by ${entry.changed_by}` : undefined,
+      });
+      continue;
+    }
+
+    try {
+      const localItem = dbOperations.getItem(entry.item_type, entry.item_id);
+      if (!localItem || localItem.is_team_level !== 1) {
+        continue;
+      }
+      const remoteItem = (await backend.getItems(entry.item_type, [entry.item_id], getCurrentUserEmail())).get(entry.item_id);
+      const planItem = planReconcile(entry.item_type, localItem, remoteItem);
+      if (planItem) {
+        addItem(planItem);
+      }
+    } catch (error) {
+      errors.push(`${ITEM_LABELS[entry.item_type]} ${entry.item_id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  const syncFilter = loadSyncFilter();
+  for (const itemType of Object.keys(ITEM_LABELS) as ItemType[]) {
+    try {
+      // Server changes since the last pull
+      for (const remoteItem of await backend.listChanges(itemType, since, syncFilter.remote)) {
+        if (planned.has(`${itemType}:${remoteItem.id}`) || dbOperations.hasTombstone(itemType, remoteItem.id)) {
+          continue;
+        }
+        if (!syncFilter.isSynced(remoteItem)) {
+          continue;
+        }
+        const localItem = dbOperations.getItem(itemType, remoteItem.id, true);
+        // In the local trash - not pulled (see syncEntity)
+        if (localItem?.deleted_at) {
+          continue;
+        }
+        const planItem = localItem
+          ? planReconcile(itemType, localItem, remoteItem)
+          : { item_type: itemType, item_id: remoteItem.id, title: remoteItem.title, action: 'pull' as const };
+        if (planItem) {
+          addItem(planItem);
+        }
+      }
+
+      // Local team changes not yet pushed
+      const pendingItems = dbOperations.getPendingTeamItems(itemType)
+        .filter(item => !planned.has(`${itemType}:${item.id}`));
+      const remoteItems = await backend.getItems(itemType, pendingItems.map(item => item.id), getCurrentUserEmail(), syncFilter.remote.teamIds);
+      for (const localItem of pendingItems) {
+        const planItem = planReconcile(itemType, localItem, remoteItems.get(localItem.id));
+        if (planItem) {
+          addItem(planItem);
+        }
+      }
+
+      for (const localItem of getUnsubscribedItems(itemType, syncFilter.isSynced)) {
+        if (!planned.has(`${itemType}:${localItem.id}`)) {
+          addItem({
+            item_type: itemType,
+            item_id: localItem.id,
+            title: localItem.title,
+            action: 'remove',
+            message: syncFilter.reason(localItem),
+          });
+        }
+      }
+    } catch (error) {
+      errors.push(`${ITEM_LABELS[itemType]}s: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  const counts: Record<SyncPlanAction, number> = {
+    pull: 0, push: 0, overwrite: 0, merge: 0, delete: 0, remove: 0, conflict: 0,
+  };
+  for (const item of items) {
+    counts[item.action]++;
+  }
+
+  return {
+    backend: backend.name,
+    scope: backend.scope,
+    firstSync: since === null && dbOperations.getSetting(`sync_initialized_${backend.scope}`)?.value !== 'true',
+    items,
+    counts,
+    errors,
+  };
+}
+
+/**
+ * Compare the canonical content hash of every team item in SQLite with the
+ * server's. Items with unpushed local changes, queued outbox entries or open
+ * conflicts are expected to differ and are not reported. Read-only.
+ */
+export async function verifySync(): Promise<SyncVerifyReport> {
+  const backend = getSyncBackend();
+  const drift: SyncDriftItem[] = [];
+  const errors: string[] = [];
+  let checked = 0;
+
+  if (!backend.isAvailable()) {
+    throw new Error(`${backend.name} not available`);
+  }
+
+  const syncFilter = loadSyncFilter();
+  const openConflicts = new Set(
+    dbOperations.getOpenConflicts().map(conflict => `${conflict.item_type}:${conflict.item_id}`)
+  );
+
+  for (const itemType of Object.keys(ITEM_LABELS) as ItemType[]) {
+    try {
+      const remoteItems = new Map<string, any>(
+        (await backend.listChanges(itemType, null, syncFilter.remote))
+          .filter(item => syncFilter.isSynced(item))
+          .map(item => [item.id, item])
+      );
+      const localItems = dbOperations.getTeamItems(itemType).filter(item => syncFilter.isSynced(item));
+      const pendingIds = new Set(dbOperations.getPendingTeamItems(itemType).map(item => item.id));
+      const isExplained = (itemId: string) =>
+        pendingIds.has(itemId) ||
+        openConflicts.has(`${itemType}:${itemId}`) ||
+        dbOperations.hasOutboxEntries(itemType, itemId) ||
+        dbOperations.hasTombstone(itemType, itemId) ||
+        Boolean(dbOperations.getItem(itemType, itemId, true)?.deleted_at);
+
+      for (const localItem of localItems) {
+        checked++;
+        const remoteItem = remoteItems.get(localItem.id);
+        remoteItems.delete(localItem.id);
+        if (isExplained(localItem.id)) {
+          continue;
+        }
+
+        const localHash = generateSyncHash(itemType, localItem);
+        const remoteHash = remoteItem ? generateSyncHash(itemType, remoteItem) : null;
+        if (localHash !== remoteHash) {
+          drift.push({
+            item_type: itemType,
+            item_id: localItem.id,
+            title: localItem.title,
+            kind: remoteItem ? 'mismatch' : 'missing_remote',
+            local_hash: localHash,
+            remote_hash: remoteHash,
+          });
+        }
+      }
+
+      // Left over: server items with no local team copy
+      for (const remoteItem of remoteItems.values()) {
+        checked++;
+        if (isExplained(remoteItem.id)) {
+          continue;
+        }
+        drift.push({
+          item_type: itemType,
+          item_id: remoteItem.id,
+          title: remoteItem.title,
+          kind: 'missing_local',
+          local_hash: null,
+          remote_hash: generateSyncHash(itemType, remoteItem),
+        });
+      }
+    } catch (error) {
+      errors.push(`${ITEM_LABELS[itemType]}s: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  return {
+    backend: backend.name,
+    scope: backend.scope,
+    checked,
+    drift,
+    errors,
+    verified_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Repair drift reported by verifySync, one item at a time. A pull replaces the
+ * local copy with the server's (or drops it when the server has none); a push
+ * uploads the local copy over the server's.
+ */
+export async function repairSync(requests: SyncRepairRequest[]): Promise<{ repaired: number; errors: string[] }> {
+  const backend = getSyncBackend();
+  const errors: string[] = [];
+  let repaired = 0;
+
+  if (isSyncing) {
+    throw new Error('A sync is in progress');
+  }
+  if (!isSyncApproved(backend)) {
+    throw new Error(`Review and approve the sync preview for ${backend.name} first`);
+  }
+  if (!backend.isAvailable()) {
+    throw new Error(`${backend.name} not available`);
+  }
+
+  for (const request of requests) {
+    const { item_type: itemType, item_id: itemId } = request;
+    try {
+      const remoteItem = (await backend.getItems(itemType, [itemId], getCurrentUserEmail())).get(itemId);
+      const localItem = dbOperations.getItem(itemType, itemId);
+
+      if (request.action === 'pull') {
+        if (remoteItem) {
+          saveRemoteItem(itemType, remoteItem, localItem);
+        } else if (localItem) {
+          dbOperations.removeUnsubscribedItem(itemType, itemId);
+        }
+      } else {
+        if (!localItem || localItem.is_team_level !== 1) {
+          throw new Error('No local team copy to push');
+        }
+        const item = { ...localItem, sync_hash: generateSyncHash(itemType, localItem) };
+        await backend.upsertItem(itemType, item, remoteItem?.row_version ?? null);
+        dbOperations.saveSyncedItem(itemType, { ...item, last_sync_at: new Date().toISOString() });
+        dbOperations.saveSyncBase(itemType, itemId, pickFields(itemType, item), item.sync_hash);
+      }
+
+      dbOperations.dismissConflictsForItem(itemType, itemId);
+      repaired++;
+    } catch (error) {
+      errors.push(`${ITEM_LABELS[itemType]} ${itemId} (${request.action}): ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  return { repaired, errors };
+}
+
+/**
+ * Main sync operation. Pass approved when the user has just approved a sync
+ * preview; otherwise the sync only runs against an already approved backend.
+ */
+async function performSync(trigger: SyncTrigger = 'auto', approved: boolean = false): Promise<SyncStatus['lastSyncResult']> {
+  if (isSyncing) {
+    console.log('Sync already in progress, skipping...');
+    return lastSyncResult;
+  }
+
+  const backend = getSyncBackend();
+  if (!approved && !isSyncApproved(backend)) {
+    console.log(`Sync with ${backend.name} is waiting for a previewed sync to be approved`);
+    if (isPolling) {
+      scheduleNextPoll();
+    }
+    if (trigger === 'manual') {
+      return {
+        success: false,
+        itemsSynced: 0,
+        conflicts: 0,
+        errors: [`Review and approve the sync preview for ${backend.name} first`],
+      };
+    }
+    return lastSyncResult;
+  }
+
+  if (!backend.isAvailable()) {
+    console.log(`${backend.name} not available, skipping sync`);
+    const result = {
+      success: false,
+      itemsSynced: 0,
+      conflicts: 0,
+      errors: [`${backend.name} not available`],
+    };
+    emitProgress({ phase: 'failed', processed: 0, total: 0, errors: result.errors });
+    // Local changes stay in the outbox - keep checking for the connection to come back
+    retryWhenAvailable();
+    return result;
+  }
+
+  isSyncing = true;
+  const runId = dbOperations.startSyncRun(trigger);
+  currentRunId = runId;
+  const errors: string[] = [];
+  let itemsSynced = 0;
+  let conflicts = 0;
+
+  try {
+    console.log('Starting sync operation...');
+    emitProgress({ phase: 'started', processed: 0, total: 0, errors: [] });
+
+    // One batch, so a document store is written once per sync
+    const nextCursor = await withBatch(backend, async () => {
+      // Only pull rows changed on the server since the previous sync. The new
+      // cursor is read before pulling so concurrent changes are picked up next time.
+      const since = getPullWatermark(backend);
+      const cursor = await backend.getChangeCursor();
+
+      // Propagate deletions first so deleted items are neither re-pulled nor re-pushed
+      const deletionResult = await syncDeletions(backend, since);
+      itemsSynced += deletionResult.synced;
+      errors.push(...deletionResult.errors);
+
+      // Sync teams first so membership changes decide which team items are pulled
+      const teamsBefore = new Set(dbOperations.getTeamsForUser(getCurrentUserEmail()).map(team => team.id));
+      const teamResult = await syncTeams(backend);
+      itemsSynced += teamResult.synced;
+      errors.push(...teamResult.errors);
+
+      // Items of a newly joined team were filtered out of earlier pulls - pull everything
+      const joinedTeam = dbOperations.getTeamsForUser(getCurrentUserEmail()).some(team => !teamsBefore.has(team.id));
+      const pullSince = joinedTeam ? null : since;
+
+      // Replay journaled local changes in the order they were made
+      const outboxResult = await replayOutbox(backend);
+      itemsSynced += outboxResult.synced;
+      conflicts += outboxResult.conflicts;
+      errors.push(...outboxResult.errors);
+
+      // Sync bookmarks
+      const bookmarkResult = await syncBookmarks(backend, pullSince);
+      itemsSynced += bookmarkResult.synced;
+      conflicts += bookmarkResult.conflicts;
+      errors.push(...bookmarkResult.errors);
+
+      // Sync executables
+      const executableResult = await syncExecutables(backend, pullSince);
+      itemsSynced += executableResult.synced;
+      conflicts += executableResult.conflicts;
+      errors.push(...executableResult.errors);
+
+      // Sync scripts
+      const scriptResult = await syncScripts(backend, pullSince);
+      itemsSynced += scriptResult.synced;
+      conflicts += scriptResult.conflicts;
+      errors.push(...scriptResult.errors);
+
+      // Sync user-to-user shares (and the shared items themselves)
+      const shareResult = await syncShares(backend);
+      itemsSynced += shareResult.synced;
+      errors.push(...shareResult.errors);
+
+      // Roam the user's personal items, when opted in
+      const personalResult = await syncPersonalItems(backend);
+      itemsSynced += personalResult.synced;
+      errors.push(...personalResult.errors);
+
+      emitProgress({ phase: 'cleanup', processed: 0, total: 0, errors: [] });
+      await purgeExpiredTombstones(backend);
+      return cursor;
+    });
+
+    // Keep the old watermark after errors so failed rows are pulled again
+    if (errors.length === 0) {
+      savePullWatermark(backend, nextCursor);
+    }
+
+    lastSyncTime = new Date();
+    dbOperations.setSetting('last_sync_timestamp', lastSyncTime.toISOString());
+    dbOperations.setSetting(`sync_initialized_${backend.scope}`, 'true');
+    approvalRequired = false;
+
+    lastSyncResult = {
+      success: errors.length === 0,
+      itemsSynced,
+      conflicts,
+      errors,
+    };
+
+    consecutiveFailures = 0;
+    console.log(`✅ Sync completed: ${itemsSynced} items synced, ${conflicts} conflicts, ${errors.length} errors`);
+    emitProgress({ phase: 'completed', processed: itemsSynced, total: itemsSynced, errors });
+  } catch (error) {
+    console.error('❌ Sync failed:', error);
+    lastSyncResult = {
+      success: false,
+      itemsSynced: 0,
+      conflicts: 0,
+      errors: [error instanceof Error ? error.message : 'Unknown error'],
+    };
+    emitProgress({ phase: 'failed', processed: 0, total: 0, errors: lastSyncResult.errors });
+    consecutiveFailures++;
+  } finally {
+    finishSyncRun(runId, lastSyncResult!);
+    currentRunId = null;
+    isSyncing = false;
+  }
+
+  scheduleOutboxRetry();
+  // Any sync (manual or triggered) restarts the polling countdown
+  if (isPolling) {
+    scheduleNextPoll();
+  }
+
+  return lastSyncResult;
+}
+
+/**
+ * Run work as one batch on backends that support it
+ */
+function withBatch<T>(backend: SyncBackend, work: () => Promise<T>): Promise<T> {
+  return backend.batch ? backend.batch(work) : work();
+}
+
+/**
+ * Store the result of a sync run and drop the oldest runs from the history
+ */
+function finishSyncRun(runId: string, result: NonNullable<SyncStatus['lastSyncResult']>): void {
+  try {
+    dbOperations.finishSyncRun(runId, result);
+    dbOperations.pruneSyncRuns(SYNC_RUN_HISTORY_SIZE);
+  } catch (error) {
+    console.error('Failed to record sync run:', error);
+  }
+}
+
+/**
+ * Record what the running sync did to an item
+ */
+function recordRunItem(itemType: ItemType, itemId: string, title: string | undefined, action: SyncRunAction, message?: string): void {
+  if (!currentRunId) {
+    return;
+  }
+
+  dbOperations.recordSyncRunItem({ run_id: currentRunId, item_type: itemType, item_id: itemId, title, action, message });
+}
+
+/**
+ * Schedule the next replay attempt for changes still in the outbox, when the
+ * earliest retry backoff elapses. Entries carry their own backoff (see replayOutbox).
+ */
+function scheduleOutboxRetry(): void {
+  const { pending, nextAttemptAt } = dbOperations.getOutboxSummary();
+  if (pending === 0) {
+    return;
+  }
+
+  const dueIn = nextAttemptAt ? new Date(`${nextAttemptAt.replace(' ', 'T')}Z`).getTime() - Date.now() : 0;
+  scheduleOutboxReplay(Math.max(dueIn, OUTBOX_REPLAY_DELAY_MS));
+}
+
+/**
+ * Get the change cursor of the last successful pull from this backend
+ */
+function getPullWatermark(backend: SyncBackend): string | null {
+  const setting = dbOperations.getSetting(`sync_pull_watermark_${backend.scope}`);
+  return setting?.value || null;
+}
+
+function savePullWatermark(backend: SyncBackend, watermark: string): void {
+  dbOperations.setSetting(`sync_pull_watermark_${backend.scope}`, watermark);
+}
+
+/**
+ * Apply deletions made on other machines.
+ * Local deletions are pushed through the outbox.
+ */
+async function syncDeletions(backend: SyncBackend, since: string | null): Promise<EntitySyncResult> {
+  const errors: string[] = [];
+  let synced = 0;
+
+  // Pull remote tombstones
+  try {
+    const remoteTombstones = await backend.listTombstones(since);
+
+    remoteTombstones.forEach((tombstone, index) => {
+      emitProgress({ phase: 'deletions', processed: index, total: remoteTombstones.length, errors });
+      const localItem = dbOperations.getItem(tombstone.item_type, tombstone.item_id);
+      const removed = dbOperations.applyRemoteTombstone(tombstone);
+      if (removed) {
+        recordRunItem(
+          tombstone.item_type,
+          tombstone.item_id,
+          localItem?.title,
+          'removed',
+          `Deleted on the team server${tombstone.deleted_by ? ` by ${tombstone.deleted_by}` : ''} at ${tombstone.deleted_at}`
+        );
+        synced++;
+      }
+    });
+    emitProgress({ phase: 'deletions', processed: remoteTombstones.length, total: remoteTombstones.length, errors });
+  } catch (error) {
+    errors.push(`Deletions sync: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return { synced, conflicts: 0, errors };
+}
+
+/**
+ * Replay the outbox against the team server.
+ * Entries are replayed oldest first; a failed entry is retried with exponential
+ * backoff and holds back later entries for the same item so they stay in order.
+ */
+async function replayOutbox(backend: SyncBackend): Promise<EntitySyncResult> {
+  const errors: string[] = [];
+  let synced = 0;
+  let conflicts = 0;
+  const blocked = new Set<string>();
+  const entries = dbOperations.getOutboxEntries();
+
+  for (const [index, entry] of entries.entries()) {
+    emitProgress({ phase: 'outbox', itemType: entry.item_type, processed: index, total: entries.length, errors });
+    const key = `${entry.item_type}:${entry.item_id}`;
+    if (blocked.has(key)) {
+      continue;
+    }
+    if (!entry.is_due) {
+      blocked.add(key);
+      continue;
+    }
+
+    try {
+      const outcome = await replayOutboxEntry(backend, entry);
+      dbOperations.removeOutboxEntry(entry.seq);
+      if (entry.operation === 'delete' && outcome === 'conflict') {
+        recordRunItem(entry.item_type, entry.item_id, dbOperations.getItem(entry.item_type, entry.item_id)?.title, outcome,
+          'Edited on the server after it was deleted here - restored from the trash');
+      } else if (entry.operation === 'delete') {
+        recordRunItem(entry.item_type, entry.item_id, undefined, 'deleted', entry.changed_by ? `Deleted by ${entry.changed_by}` : undefined);
+      } else if (outcome !== 'unchanged') {
+        recordRunItem(entry.item_type, entry.item_id, dbOperations.getItem(entry.item_type, entry.item_id)?.title, outcome);
+      }
+      if (outcome === 'conflict') {
+        conflicts++;
+      } else if (outcome !== 'unchanged') {
+        synced++;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const retryDelayMs = getBackoffDelayMs(entry.attempts + 1);
+      dbOperations.markOutboxEntryFailed(entry.seq, message, retryDelayMs / 1000);
+      blocked.add(key);
+      errors.push(`${ITEM_LABELS[entry.item_type]} ${entry.item_id} (${entry.operation}): ${message}`);
+      recordRunItem(entry.item_type, entry.item_id, undefined, 'error', `${entry.operation}: ${message}`);
+    }
+  }
+  emitProgress({ phase: 'outbox', processed: entries.length, total: entries.length, errors });
+
+  return { synced, conflicts, errors };
+}
 
 /**
- * Start automatic sync polling
+ * Upload one journaled change. Creates, updates and promotions push the item's
+ * current state, so repeated edits collapse into one upload.
  */
-export function startSyncPolling(): void {
-  if (syncInterval) {
-    console.log('Sync polling already running');
-    return;
+async function replayOutboxEntry(backend: SyncBackend, entry: SyncOutboxEntry): Promise<ReconcileOutcome> {
+  const { item_type: itemType, item_id: itemId } = entry;
+
+  if (entry.operation === 'delete') {
+    return await pushDeletion(backend, entry);
   }
 
-  console.log('Starting sync polling...');
-  
-  // Initial sync
-  performSync().catch(console.error);
-  
-  // Set up interval
-  syncInterval = setInterval(() => {
-    performSync().catch(console.error);
-  }, SYNC_INTERVAL_MS);
+  const localItem = dbOperations.getItem(itemType, itemId);
+  if (!localItem || localItem.is_team_level !== 1) {
+    // No longer a team item - nothing to upload
+    return 'unchanged';
+  }
+
+  const remoteItem = (await backend.getItems(itemType, [itemId], getCurrentUserEmail())).get(itemId);
+  if (!remoteItem) {
+    return await pushNewItem(backend, itemType, localItem);
+  }
+
+  return await reconcileItem(backend, itemType, localItem, remoteItem);
 }
 
 /**
- * Stop automatic sync polling
+ * Push a local deletion. The server row is only deleted while it is still at
+ * the version read here, and only if it was not edited since this machine last
+ * synced it (the sync base). An edit made elsewhere wins over the deletion:
+ * the item comes back out of the trash with the server's content.
  */
-export function stopSyncPolling(): void {
-  if (syncInterval) {
-    clearInterval(syncInterval);
-    syncInterval = null;
-    console.log('Sync polling stopped');
+async function pushDeletion(backend: SyncBackend, entry: SyncOutboxEntry, attempt: number = 0): Promise<ReconcileOutcome> {
+  const { item_type: itemType, item_id: itemId } = entry;
+  const remoteItem = (await backend.getItems(itemType, [itemId], getCurrentUserEmail())).get(itemId);
+
+  if (remoteItem) {
+    const base = dbOperations.getSyncBase(itemType, itemId);
+    if (base && ITEM_FIELDS[itemType].some(field => !sameValue(base[field], remoteItem[field]))) {
+      dbOperations.cancelLocalDeletion(itemType, itemId);
+      if (remoteItem.is_team_level === 0) {
+        saveRoamedItem(itemType, remoteItem);
+      } else {
+        saveRemoteItem(itemType, remoteItem);
+      }
+      return 'conflict';
+    }
+  }
+
+  try {
+    await backend.deleteItem(itemType, itemId, entry.changed_by, remoteItem?.row_version);
+  } catch (error) {
+    if (!(error instanceof SyncVersionConflictError) || attempt >= MAX_VERSION_CONFLICT_RETRIES) {
+      throw error;
+    }
+    return await pushDeletion(backend, entry, attempt + 1);
   }
+  dbOperations.markTombstonePushed(itemType, itemId);
+  return 'pushed';
 }
 
 /**
- * Get current sync status
+ * Drop tombstones older than the retention window on both sides.
+ * Clients offline for longer than the window will not receive those deletions.
  */
-export function getSyncStatus(): SyncStatus {
-  return {
-    isSyncing,
-    lastSyncTime,
-    lastSyncResult,
-  };
+async function purgeExpiredTombstones(backend: SyncBackend): Promise<void> {
+  const setting = dbOperations.getSetting('sync_tombstone_retention_days');
+  const retentionDays = setting ? parseInt(setting.value) : DEFAULT_TOMBSTONE_RETENTION_DAYS;
+  if (!Number.isFinite(retentionDays) || retentionDays <= 0) {
+    return;
+  }
+
+  dbOperations.purgeTombstones(retentionDays);
+  await backend.purgeTombstones(retentionDays);
 }
 
 /**
- * Perform manual sync
+ * Sync bookmarks between SQLite and the team server
  */
-export async function manualSync(): Promise<SyncStatus['lastSyncResult']> {
-  return await performSync();
+async function syncBookmarks(backend: SyncBackend, since: string | null): Promise<EntitySyncResult> {
+  return syncEntity(backend, 'bookmark', since);
 }
 
 /**
- * Main sync operation
+ * Sync executables between SQLite and the team server
  */
-async function performSync(): Promise<SyncStatus['lastSyncResult']> {
-  if (isSyncing) {
-    console.log('Sync already in progress, skipping...');
-    return lastSyncResult;
-  }
+async function syncExecutables(backend: SyncBackend, since: string | null): Promise<EntitySyncResult> {
+  return syncEntity(backend, 'executable', since);
+}
 
-  if (!isConnected()) {
-    console.log('MySQL not connected, skipping sync');
-    return {
-      success: false,
-      itemsSynced: 0,
-      conflicts: 0,
-      errors: ['MySQL not connected'],
-    };
-  }
+/**
+ * Sync scripts between SQLite and the team server
+ */
+async function syncScripts(backend: SyncBackend, since: string | null): Promise<EntitySyncResult> {
+  return syncEntity(backend, 'script', since);
+}
 
-  isSyncing = true;
+/**
+ * Sync team-level items of one type between SQLite and the team server.
+ * Pulls only items changed on the server since the watermark (everything when
+ * there is none) and pushes only items changed locally since their last sync.
+ */
+async function syncEntity(backend: SyncBackend, itemType: ItemType, since: string | null): Promise<EntitySyncResult> {
+  const label = ITEM_LABELS[itemType];
   const errors: string[] = [];
-  let itemsSynced = 0;
+  let synced = 0;
   let conflicts = 0;
 
+  const countOutcome = (item: any, outcome: ReconcileOutcome) => {
+    if (outcome === 'unchanged') {
+      return;
+    }
+    recordRunItem(itemType, item.id, item.title, outcome);
+    if (outcome === 'conflict') {
+      conflicts++;
+    } else {
+      synced++;
+    }
+  };
+
+  const recordError = (item: any, error: unknown) => {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    errors.push(`${label} ${item.id}: ${message}`);
+    recordRunItem(itemType, item.id, item.title, 'error', message);
+  };
+
   try {
-    console.log('Starting sync operation...');
+    const syncFilter = loadSyncFilter();
+
+    // Get team-level items changed on the server since the last pull
+    const remoteChanges = await backend.listChanges(itemType, since, syncFilter.remote);
+    const handled = new Set<string>();
+
+    // Sync from the server to SQLite (pull)
+    for (const [index, remoteItem] of remoteChanges.entries()) {
+      emitProgress({ phase: 'pull', itemType, processed: index, total: remoteChanges.length, errors });
+      handled.add(remoteItem.id);
+      try {
+        // Deleted locally but not yet pushed - the deletion wins
+        if (dbOperations.hasTombstone(itemType, remoteItem.id)) {
+          continue;
+        }
+        // Outside the user's teams or sync subscriptions - any local copy is dropped below
+        if (!syncFilter.isSynced(remoteItem)) {
+          continue;
+        }
 
-    // Sync bookmarks
-    const bookmarkResult = await syncBookmarks();
-    itemsSynced += bookmarkResult.synced;
-    conflicts += bookmarkResult.conflicts;
-    errors.push(...bookmarkResult.errors);
+        const localItem = dbOperations.getItem(itemType, remoteItem.id, true);
+        // In the trash here with no deletion to push (e.g. it was pushed long
+        // ago and the tombstone purged) - the local trash wins over server
+        // edits; restoring the item reconciles it with the server again
+        if (localItem?.deleted_at) {
+          continue;
+        }
 
-    // Sync executables
-    const executableResult = await syncExecutables();
-    itemsSynced += executableResult.synced;
-    conflicts += executableResult.conflicts;
-    errors.push(...executableResult.errors);
+        if (!localItem) {
+          // New item from the server - insert into SQLite
+          saveRemoteItem(itemType, remoteItem);
+          countOutcome(remoteItem, 'pulled');
+        } else {
+          countOutcome(remoteItem, await reconcileItem(backend, itemType, localItem, remoteItem));
+        }
+      } catch (error) {
+        recordError(remoteItem, error);
+      }
+    }
 
-    // Sync scripts
-    const scriptResult = await syncScripts();
-    itemsSynced += scriptResult.synced;
-    conflicts += scriptResult.conflicts;
-    errors.push(...scriptResult.errors);
+    // Push local team-level changes to the server. Items with queued outbox
+    // entries are left to the outbox so its ordering and backoff are respected.
+    const pendingItems = dbOperations.getPendingTeamItems(itemType)
+      .filter(item => !handled.has(item.id) && !dbOperations.hasOutboxEntries(itemType, item.id));
+    emitProgress({ phase: 'pull', itemType, processed: remoteChanges.length, total: remoteChanges.length, errors });
+    const remoteItems = await backend.getItems(itemType, pendingItems.map(item => item.id), getCurrentUserEmail(), syncFilter.remote.teamIds);
 
-    lastSyncTime = new Date();
-    dbOperations.setSetting('last_sync_timestamp', lastSyncTime.toISOString());
+    for (const [index, localItem] of pendingItems.entries()) {
+      emitProgress({ phase: 'push', itemType, processed: index, total: pendingItems.length, errors });
+      try {
+        const remoteItem = remoteItems.get(localItem.id);
 
-    lastSyncResult = {
-      success: errors.length === 0,
-      itemsSynced,
-      conflicts,
-      errors,
-    };
+        if (!remoteItem) {
+          // New item from SQLite - push to the server
+          countOutcome(localItem, await pushNewItem(backend, itemType, localItem));
+        } else {
+          countOutcome(localItem, await reconcileItem(backend, itemType, localItem, remoteItem));
+        }
+      } catch (error) {
+        recordError(localItem, error);
+      }
+    }
+    emitProgress({ phase: 'push', itemType, processed: pendingItems.length, total: pendingItems.length, errors });
 
-    console.log(`✅ Sync completed: ${itemsSynced} items synced, ${conflicts} conflicts, ${errors.length} errors`);
+    // Drop local copies of team items outside the user's teams or subscriptions
+    for (const localItem of getUnsubscribedItems(itemType, syncFilter.isSynced)) {
+      if (dbOperations.removeUnsubscribedItem(itemType, localItem.id)) {
+        recordRunItem(itemType, localItem.id, localItem.title, 'removed', syncFilter.reason(localItem));
+        synced++;
+      }
+    }
   } catch (error) {
-    console.error('❌ Sync failed:', error);
-    lastSyncResult = {
-      success: false,
-      itemsSynced: 0,
-      conflicts: 0,
-      errors: [error instanceof Error ? error.message : 'Unknown error'],
-    };
-  } finally {
-    isSyncing = false;
+    errors.push(`${label}s sync: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 
-  return lastSyncResult;
+  return { synced, conflicts, errors };
 }
 
 /**
- * Sync bookmarks between SQLite and MySQL
+ * Sync teams and memberships: push teams and membership changes made on this
+ * machine, then take the server's list of the user's teams and their members
  */
-async function syncBookmarks(): Promise<{ synced: number; conflicts: number; errors: string[] }> {
+async function syncTeams(backend: SyncBackend): Promise<EntitySyncResult> {
   const errors: string[] = [];
   let synced = 0;
-  let conflicts = 0;
-
-  try {
-    // Get all team-level bookmarks from MySQL
-    const mysqlBookmarks = await executeQuery<any[]>(
-      'SELECT * FROM bookmarks WHERE is_team_level = 1'
-    );
 
-    // Get all team-level bookmarks from SQLite
-    const sqliteBookmarks = dbOperations.getAllBookmarks().filter(b => b.is_team_level === 1);
+  const userEmail = getCurrentUserEmail();
+  if (!userEmail) {
+    return { synced, conflicts: 0, errors };
+  }
 
-    // Create a map for faster lookup
-    const sqliteMap = new Map(sqliteBookmarks.map(b => [b.id, b]));
-    const mysqlMap = new Map(mysqlBookmarks.map((b: any) => [b.id, b]));
+  const teamError = (subject: string, error: unknown) =>
+    `${subject}: ${error instanceof Error ? error.message : 'Unknown error'}`;
 
-    // Sync from MySQL to SQLite (pull)
-    for (const mysqlBookmark of mysqlBookmarks) {
+  try {
+    for (const team of dbOperations.getUnpushedTeams()) {
       try {
-        const sqliteBookmark = sqliteMap.get(mysqlBookmark.id);
-
-        if (!sqliteBookmark) {
-          // New item from MySQL - insert into SQLite
-          await insertBookmarkFromMySQL(mysqlBookmark);
-          synced++;
-        } else {
-          // Item exists in both - check for conflicts
-          const conflict = detectConflict(sqliteBookmark, mysqlBookmark);
-          
-          if (conflict) {
-            // MySQL is source of truth - update SQLite
-            await updateBookmarkFromMySQL(mysqlBookmark);
-            conflicts++;
-          } else if (sqliteBookmark.sync_hash !== mysqlBookmark.sync_hash) {
-            // Item was updated, sync from MySQL
-            await updateBookmarkFromMySQL(mysqlBookmark);
-            synced++;
-          }
-        }
+        await backend.upsertTeam(team);
+        dbOperations.markTeamPushed(team.id);
+        synced++;
       } catch (error) {
-        errors.push(`Bookmark ${mysqlBookmark.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        errors.push(teamError(`Team ${team.name}`, error));
       }
     }
 
-    // Push local team-level changes to MySQL
-    for (const sqliteBookmark of sqliteBookmarks) {
+    for (const member of dbOperations.getUnpushedTeamMembers()) {
+      if (member.team_id === DEFAULT_TEAM_ID) {
+        continue;
+      }
       try {
-        const mysqlBookmark = mysqlMap.get(sqliteBookmark.id);
+        await backend.upsertTeamMember(member);
+        dbOperations.markTeamMemberPushed(member.team_id, member.user_email);
+        synced++;
+      } catch (error) {
+        errors.push(teamError(`Membership of ${member.user_email} in team ${member.team_id}`, error));
+      }
+    }
 
-        if (!mysqlBookmark) {
-          // New item from SQLite - push to MySQL
-          await pushBookmarkToMySQL(sqliteBookmark);
-          synced++;
-        }
+    for (const member of dbOperations.getDeletedTeamMembers()) {
+      try {
+        await backend.deleteTeamMember(member.team_id, member.user_email);
+        dbOperations.purgeTeamMember(member.team_id, member.user_email);
+        synced++;
       } catch (error) {
-        errors.push(`Bookmark ${sqliteBookmark.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        errors.push(teamError(`Removal of ${member.user_email} from team ${member.team_id}`, error));
+      }
+    }
+
+    // Only replace local state once every local change is on the server
+    if (errors.length > 0) {
+      return { synced, conflicts: 0, errors };
+    }
+
+    const remote = await backend.listTeams(userEmail);
+    const remoteTeamIds = new Set(remote.teams.map(team => team.id));
+
+    for (const team of remote.teams) {
+      dbOperations.saveSyncedTeam(team, remote.members.filter(member => member.team_id === team.id));
+    }
+
+    // Teams the user was removed from on another machine
+    for (const team of dbOperations.getTeamsForUser(userEmail)) {
+      if (team.id !== DEFAULT_TEAM_ID && team.pushed_at && !remoteTeamIds.has(team.id)) {
+        dbOperations.removeSyncedTeam(team.id);
+        synced++;
       }
     }
   } catch (error) {
-    errors.push(`Bookmarks sync: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    errors.push(`Teams sync: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 
-  return { synced, conflicts, errors };
+  return { synced, conflicts: 0, errors };
 }
 
 /**
- * Sync executables between SQLite and MySQL
+ * Sync shares made by or with the current user.
+ * Personal items are uploaded with is_team_level = 0 when shared, and the
+ * recipient keeps a local copy that is refreshed on every sync and removed
+ * once it is no longer shared with them.
  */
-async function syncExecutables(): Promise<{ synced: number; conflicts: number; errors: string[] }> {
+async function syncShares(backend: SyncBackend): Promise<EntitySyncResult> {
   const errors: string[] = [];
   let synced = 0;
-  let conflicts = 0;
 
-  try {
-    const mysqlExecutables = await executeQuery<any[]>(
-      'SELECT * FROM executables WHERE is_team_level = 1'
-    );
-
-    const sqliteExecutables = dbOperations.getAllExecutables().filter(e => e.is_team_level === 1);
+  const userEmail = getCurrentUserEmail();
+  if (!userEmail) {
+    return { synced, conflicts: 0, errors };
+  }
 
-    const sqliteMap = new Map(sqliteExecutables.map(e => [e.id, e]));
-    const mysqlMap = new Map(mysqlExecutables.map((e: any) => [e.id, e]));
+  const shareError = (share: UserShare, error: unknown) =>
+    `Share of ${share.item_type} ${share.item_id} with ${share.shared_with}: ${error instanceof Error ? error.message : 'Unknown error'}`;
 
-    // Pull from MySQL
-    for (const mysqlExecutable of mysqlExecutables) {
+  try {
+    // Push shares made on this machine, uploading personal items along with them
+    for (const share of dbOperations.getUnpushedShares(userEmail)) {
       try {
-        const sqliteExecutable = sqliteMap.get(mysqlExecutable.id);
-
-        if (!sqliteExecutable) {
-          await insertExecutableFromMySQL(mysqlExecutable);
-          synced++;
-        } else {
-          const conflict = detectConflict(sqliteExecutable, mysqlExecutable);
-          
-          if (conflict) {
-            await updateExecutableFromMySQL(mysqlExecutable);
-            conflicts++;
-          } else if (sqliteExecutable.sync_hash !== mysqlExecutable.sync_hash) {
-            await updateExecutableFromMySQL(mysqlExecutable);
-            synced++;
-          }
+        const item = dbOperations.getItem(share.item_type, share.item_id);
+        if (!item) {
+          dbOperations.purgeShare(share.id);
+          continue;
+        }
+        if (item.is_team_level !== 1) {
+          const remoteItem = (await backend.getItems(share.item_type, [item.id], userEmail)).get(item.id);
+          await pushSharedItem(backend, share.item_type, item, remoteItem);
         }
+        await backend.upsertShare(share);
+        dbOperations.markSharePushed(share.id);
+        synced++;
       } catch (error) {
-        errors.push(`Executable ${mysqlExecutable.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        errors.push(shareError(share, error));
       }
     }
 
-    // Push to MySQL
-    for (const sqliteExecutable of sqliteExecutables) {
+    // Push shares removed on this machine
+    for (const share of dbOperations.getDeletedShares(userEmail)) {
       try {
-        const mysqlExecutable = mysqlMap.get(sqliteExecutable.id);
+        await backend.deleteShare(share.id);
+        dbOperations.purgeShare(share.id);
+        synced++;
+      } catch (error) {
+        errors.push(shareError(share, error));
+      }
+    }
 
-        if (!mysqlExecutable) {
-          await pushExecutableToMySQL(sqliteExecutable);
-          synced++;
+    // Pull shares made on other machines, drop shares removed there
+    const remoteShares = await backend.listShares(userEmail);
+    const remoteShareIds = new Set(remoteShares.map(share => share.id));
+    const localShareIds = new Set(dbOperations.getSyncedShares(userEmail).map(share => share.id));
+
+    for (const share of remoteShares) {
+      if (!localShareIds.has(share.id)) {
+        dbOperations.saveSyncedShare(share);
+        synced++;
+      }
+    }
+
+    for (const share of dbOperations.getSyncedShares(userEmail)) {
+      if (!remoteShareIds.has(share.id)) {
+        dbOperations.purgeShare(share.id);
+        if (share.shared_with === userEmail) {
+          dbOperations.removeUnsharedItem(share.item_type, share.item_id, userEmail);
+        }
+        synced++;
+      }
+    }
+
+    // Refresh shared personal items: upload my edits, download the sharer's edits
+    // (team-level items are kept in sync by the regular entity sync)
+    for (const itemType of Object.keys(ITEM_LABELS) as ItemType[]) {
+      const itemIds = [...new Set(
+        remoteShares.filter(share => share.item_type === itemType).map(share => share.item_id)
+      )];
+      const remoteItems = await backend.getItems(itemType, itemIds, userEmail);
+
+      for (const itemId of itemIds) {
+        const localItem = dbOperations.getItem(itemType, itemId, true);
+        const remoteItem = remoteItems.get(itemId);
+        // Shared items in the local trash are left alone until restored (see syncEntity)
+        if (localItem?.deleted_at || localItem?.is_team_level === 1 || remoteItem?.is_team_level === 1) {
+          continue;
+        }
+
+        try {
+          if (localItem && localItem.created_by === userEmail) {
+            if (localItem.sync_hash !== remoteItem?.sync_hash) {
+              await pushSharedItem(backend, itemType, localItem, remoteItem);
+              synced++;
+            }
+          } else if (remoteItem && remoteItem.sync_hash !== localItem?.sync_hash) {
+            dbOperations.saveSyncedItem(itemType, {
+              ...remoteItem,
+              is_team_level: 0,
+              is_personal: 1,
+              last_sync_at: new Date().toISOString(),
+            });
+            synced++;
+          }
+        } catch (error) {
+          errors.push(`Shared ${itemType} ${itemId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
-      } catch (error) {
-        errors.push(`Executable ${sqliteExecutable.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     }
   } catch (error) {
-    errors.push(`Executables sync: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    errors.push(`Shares sync: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 
-  return { synced, conflicts, errors };
+  return { synced, conflicts: 0, errors };
+}
+
+/**
+ * Upload a personal item the user shares. Like the other pushes it is
+ * conditional on the server row version it was compared with, and a copy not
+ * edited here since its last upload (the sync base) does not overwrite a
+ * newer server copy - that copy is taken instead. When another client pushed
+ * in between, the item is compared again with its change.
+ */
+async function pushSharedItem(
+  backend: SyncBackend,
+  itemType: ItemType,
+  localItem: any,
+  remoteItem: any | undefined,
+  attempt: number = 0
+): Promise<ReconcileOutcome> {
+  const base = dbOperations.getSyncBase(itemType, localItem.id);
+  if (remoteItem && base && ITEM_FIELDS[itemType].every(field => sameValue(base[field], localItem[field]))) {
+    if (remoteItem.sync_hash === localItem.sync_hash) {
+      return 'unchanged';
+    }
+    saveRoamedItem(itemType, remoteItem, localItem);
+    return 'pulled';
+  }
+
+  try {
+    await backend.upsertItem(itemType, { ...localItem, is_team_level: 0 }, remoteItem?.row_version ?? null);
+  } catch (error) {
+    if (attempt >= MAX_VERSION_CONFLICT_RETRIES) {
+      throw error;
+    }
+    const latestItem = await refetchOnVersionConflict(backend, itemType, localItem.id, error);
+    return await pushSharedItem(backend, itemType, localItem, latestItem, attempt + 1);
+  }
+  dbOperations.saveSyncBase(itemType, localItem.id, pickFields(itemType, localItem), localItem.sync_hash);
+  return 'pushed';
+}
+
+/**
+ * Push an item the server has not seen. The insert only succeeds if no other
+ * client created the same item in the meantime; otherwise the two are reconciled.
+ */
+async function pushNewItem(backend: SyncBackend, itemType: ItemType, localItem: any): Promise<ReconcileOutcome> {
+  try {
+    await backend.upsertItem(itemType, localItem, null);
+  } catch (error) {
+    const remoteItem = await refetchOnVersionConflict(backend, itemType, localItem.id, error);
+    return await reconcileItem(backend, itemType, localItem, remoteItem, 1);
+  }
+
+  dbOperations.saveSyncBase(itemType, localItem.id, pickFields(itemType, localItem), localItem.sync_hash);
+  return 'pushed';
 }
 
 /**
- * Sync scripts between SQLite and MySQL
+ * Fetch the current server version of an item after a compare-and-swap push
+ * lost the race. Any other error, or an item deleted meanwhile, is rethrown.
  */
-async function syncScripts(): Promise<{ synced: number; conflicts: number; errors: string[] }> {
+async function refetchOnVersionConflict(backend: SyncBackend, itemType: ItemType, itemId: string, error: unknown): Promise<any> {
+  if (!(error instanceof SyncVersionConflictError)) {
+    throw error;
+  }
+  const remoteItem = (await backend.getItems(itemType, [itemId], getCurrentUserEmail())).get(itemId);
+  if (!remoteItem) {
+    throw error;
+  }
+  return remoteItem;
+}
+
+/**
+ * Roam the current user's personal items through the team server, when opted in.
+ * They are uploaded with is_team_level = 0 and only ever pulled by their
+ * creator. An item edited both here and on another machine since the last
+ * sync keeps the edit made here.
+ */
+async function syncPersonalItems(backend: SyncBackend): Promise<EntitySyncResult> {
   const errors: string[] = [];
   let synced = 0;
-  let conflicts = 0;
 
-  try {
-    const mysqlScripts = await executeQuery<any[]>(
-      'SELECT * FROM scripts WHERE is_team_level = 1'
-    );
+  const userEmail = getCurrentUserEmail();
+  if (!userEmail || !isPersonalRoamingEnabled()) {
+    return { synced, conflicts: 0, errors };
+  }
 
-    const sqliteScripts = dbOperations.getAllScripts().filter(s => s.is_team_level === 1);
+  const watermarkKey = `sync_personal_watermark_${backend.scope}_${userEmail}`;
+  const itemError = (itemType: ItemType, item: any, error: unknown) => {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    errors.push(`Personal ${itemType} ${item.id}: ${message}`);
+    recordRunItem(itemType, item.id, item.title, 'error', message);
+  };
 
-    const sqliteMap = new Map(sqliteScripts.map(s => [s.id, s]));
-    const mysqlMap = new Map(mysqlScripts.map((s: any) => [s.id, s]));
+  try {
+    const since = dbOperations.getSetting(watermarkKey)?.value || null;
+    const nextCursor = await backend.getChangeCursor();
 
-    // Pull from MySQL
-    for (const mysqlScript of mysqlScripts) {
-      try {
-        const sqliteScript = sqliteMap.get(mysqlScript.id);
+    for (const itemType of Object.keys(ITEM_LABELS) as ItemType[]) {
+      const pendingItems = dbOperations.getPendingPersonalItems(itemType, userEmail);
+      const pendingIds = new Set(pendingItems.map(item => item.id));
 
-        if (!sqliteScript) {
-          await insertScriptFromMySQL(mysqlScript);
-          synced++;
-        } else {
-          const conflict = detectConflict(sqliteScript, mysqlScript);
-          
-          if (conflict) {
-            await updateScriptFromMySQL(mysqlScript);
-            conflicts++;
-          } else if (sqliteScript.sync_hash !== mysqlScript.sync_hash) {
-            await updateScriptFromMySQL(mysqlScript);
-            synced++;
+      // Pull items roamed from the user's other machines
+      for (const remoteItem of await backend.listPersonalItems(itemType, userEmail, since)) {
+        try {
+          const localItem = dbOperations.getItem(itemType, remoteItem.id, true);
+          // Deleted, edited or promoted to the team here - pushed instead
+          if (pendingIds.has(remoteItem.id) || localItem?.is_team_level === 1 ||
+              dbOperations.hasTombstone(itemType, remoteItem.id)) {
+            continue;
+          }
+          // In the local trash - not pulled until restored (see syncEntity)
+          if (localItem?.deleted_at) {
+            continue;
           }
+          if (localItem?.sync_hash === remoteItem.sync_hash) {
+            continue;
+          }
+
+          saveRoamedItem(itemType, remoteItem, localItem);
+          recordRunItem(itemType, remoteItem.id, remoteItem.title, 'pulled');
+          synced++;
+        } catch (error) {
+          itemError(itemType, remoteItem, error);
         }
-      } catch (error) {
-        errors.push(`Script ${mysqlScript.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
-    }
-
-    // Push to MySQL
-    for (const sqliteScript of sqliteScripts) {
-      try {
-        const mysqlScript = mysqlMap.get(sqliteScript.id);
 
-        if (!mysqlScript) {
-          await pushScriptToMySQL(sqliteScript);
+      // Upload items created or edited here
+      const remoteItems = await backend.getItems(itemType, pendingItems.map(item => item.id), userEmail);
+      for (const localItem of pendingItems) {
+        try {
+          await backend.upsertItem(
+            itemType,
+            { ...localItem, is_team_level: 0 },
+            remoteItems.get(localItem.id)?.row_version ?? null
+          );
+          dbOperations.saveSyncBase(itemType, localItem.id, pickFields(itemType, localItem), localItem.sync_hash);
+          recordRunItem(itemType, localItem.id, localItem.title, 'pushed');
           synced++;
+        } catch (error) {
+          itemError(itemType, localItem, error);
         }
-      } catch (error) {
-        errors.push(`Script ${sqliteScript.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     }
+
+    // Keep the old watermark after errors so failed rows are pulled again
+    if (errors.length === 0) {
+      dbOperations.setSetting(watermarkKey, nextCursor);
+    }
   } catch (error) {
-    errors.push(`Scripts sync: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    errors.push(`Personal items sync: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 
-  return { synced, conflicts, errors };
+  return { synced, conflicts: 0, errors };
 }
 
 /**
- * Detect conflict based on updated_at timestamps
+ * Reconcile an item that differs between SQLite and the server using a three-way
+ * merge against the last synced base. Non-overlapping changes are merged and
+ * written to both sides; fields changed on both sides are left as a conflict
+ * with the local value kept.
+ * The push is conditional on the server row version the merge was based on, so
+ * when another client pushed in between the item is merged again with its change.
  */
-function detectConflict(sqliteItem: any, mysqlItem: any): boolean {
-  const sqliteUpdated = new Date(sqliteItem.updated_at);
-  const mysqlUpdated = new Date(mysqlItem.updated_at);
-  
-  // If MySQL is newer and hashes don't match, there's a conflict
-  return mysqlUpdated > sqliteUpdated && sqliteItem.sync_hash !== mysqlItem.sync_hash;
-}
+async function reconcileItem(
+  backend: SyncBackend,
+  itemType: ItemType,
+  localItem: any,
+  remoteItem: any,
+  attempt: number = 0
+): Promise<ReconcileOutcome> {
+  const fields = ITEM_FIELDS[itemType];
+  const base = dbOperations.getSyncBase(itemType, localItem.id);
+
+  // The server only has the personal copy uploaded for roaming or sharing -
+  // the item promoted to the team replaces it
+  if (remoteItem.is_team_level === 0) {
+    await backend.upsertItem(itemType, localItem, remoteItem.row_version ?? null);
+    dbOperations.saveSyncBase(itemType, localItem.id, pickFields(itemType, localItem), localItem.sync_hash);
+    return 'pushed';
+  }
+
+  // Same version on both sides - just make sure the base is recorded
+  if (localItem.sync_hash === remoteItem.sync_hash) {
+    if (!base) {
+      dbOperations.saveSyncBase(itemType, localItem.id, pickFields(itemType, remoteItem), remoteItem.sync_hash);
+    }
+    return 'unchanged';
+  }
+
+  // No base yet (item synced before bases were recorded) - the server is source of truth
+  if (!base) {
+    saveRemoteItem(itemType, remoteItem, localItem);
+    return 'pulled';
+  }
+
+  const result = threeWayMerge(base, localItem, remoteItem, fields);
 
-// Helper functions for bookmarks
-async function insertBookmarkFromMySQL(mysqlBookmark: any): Promise<void> {
-  const stmt = dbOperations.transaction(() => {
-    const id = dbOperations.createBookmark({
-      title: mysqlBookmark.title,
-      url: mysqlBookmark.url,
-      favicon: mysqlBookmark.favicon,
-      category: mysqlBookmark.category,
-      is_team_level: 1,
-      is_personal: 1,
-      created_by: mysqlBookmark.created_by,
-      updated_by: mysqlBookmark.updated_by,
+  if (result.conflicts.length > 0) {
+    // Take the remote changes that do not overlap, keep the local sync hash so
+    // the item is reconciled again on the next run
+    if (result.localNeedsUpdate) {
+      dbOperations.saveSyncedItem(itemType, { ...localItem, ...result.merged });
+    }
+
+    dbOperations.recordSyncConflict({
+      item_type: itemType,
+      item_id: localItem.id,
+      title: localItem.title,
+      conflicting_fields: result.conflicts,
+      base_snapshot: base,
+      local_snapshot: pickFields(itemType, { ...localItem, ...result.merged }),
+      remote_snapshot: pickFields(itemType, remoteItem),
     });
-    
-    // Update with MySQL timestamps and sync info
-    dbOperations.updateBookmark(id, {
-      created_at: mysqlBookmark.created_at,
-      updated_at: mysqlBookmark.updated_at,
-      sync_hash: mysqlBookmark.sync_hash,
-      last_sync_at: new Date().toISOString(),
-    } as any);
-  });
-}
+    return 'conflict';
+  }
 
-async function updateBookmarkFromMySQL(mysqlBookmark: any): Promise<void> {
-  dbOperations.updateBookmark(mysqlBookmark.id, {
-    title: mysqlBookmark.title,
-    url: mysqlBookmark.url,
-    favicon: mysqlBookmark.favicon,
-    category: mysqlBookmark.category,
-    updated_by: mysqlBookmark.updated_by,
-    sync_hash: mysqlBookmark.sync_hash,
-    last_sync_at: new Date().toISOString(),
-  } as any);
-}
-
-async function pushBookmarkToMySQL(sqliteBookmark: Bookmark): Promise<void> {
-  await executeQuery(
-    `INSERT INTO bookmarks (id, title, url, favicon, category, is_team_level, created_by, updated_by, created_at, updated_at, sync_hash)
-     VALUES (?, ?, ?, ?, ?, 1, ?, ?, ?, ?, ?)`,
-    [
-      sqliteBookmark.id,
-      sqliteBookmark.title,
-      sqliteBookmark.url,
-      sqliteBookmark.favicon || null,
-      sqliteBookmark.category || null,
-      sqliteBookmark.created_by || null,
-      sqliteBookmark.updated_by || null,
-      sqliteBookmark.created_at,
-      sqliteBookmark.updated_at,
-      sqliteBookmark.sync_hash || null,
-    ]
-  );
+  // Changes merged cleanly - any previously recorded conflict is obsolete
+  dbOperations.dismissConflictsForItem(itemType, localItem.id);
+
+  if (!result.remoteNeedsUpdate) {
+    saveRemoteItem(itemType, remoteItem, localItem);
+    return result.localNeedsUpdate ? 'pulled' : 'unchanged';
+  }
+
+  const mergedItem = { ...localItem, ...result.merged };
+  if (result.localNeedsUpdate) {
+    mergedItem.updated_by = localItem.updated_by || remoteItem.updated_by;
+    mergedItem.sync_hash = generateSyncHash(itemType, mergedItem);
+  }
+
+  try {
+    await backend.upsertItem(itemType, mergedItem, remoteItem.row_version ?? null);
+  } catch (error) {
+    if (attempt >= MAX_VERSION_CONFLICT_RETRIES) {
+      throw error;
+    }
+    const latestItem = await refetchOnVersionConflict(backend, itemType, localItem.id, error);
+    return await reconcileItem(backend, itemType, localItem, latestItem, attempt + 1);
+  }
+  dbOperations.saveSyncedItem(itemType, { ...mergedItem, last_sync_at: new Date().toISOString() });
+  dbOperations.saveSyncBase(itemType, mergedItem.id, pickFields(itemType, mergedItem), mergedItem.sync_hash);
+
+  return result.localNeedsUpdate ? 'merged' : 'pushed';
 }
 
-// Helper functions for executables
-async function insertExecutableFromMySQL(mysqlExecutable: any): Promise<void> {
-  dbOperations.transaction(() => {
-    const id = dbOperations.createExecutable({
-      title: mysqlExecutable.title,
-      executable_path: mysqlExecutable.executable_path,
-      parameters: mysqlExecutable.parameters,
-      icon: mysqlExecutable.icon,
-      category: mysqlExecutable.category,
-      is_team_level: 1,
-      is_personal: 1,
-      created_by: mysqlExecutable.created_by,
-      updated_by: mysqlExecutable.updated_by,
-    });
-    
-    dbOperations.updateExecutable(id, {
-      created_at: mysqlExecutable.created_at,
-      updated_at: mysqlExecutable.updated_at,
-      sync_hash: mysqlExecutable.sync_hash,
-      last_sync_at: new Date().toISOString(),
-    } as any);
+/**
+ * Decide what reconcileItem would do with an item, without writing anything.
+ * Returns null when the item is already in sync.
+ */
+function planReconcile(itemType: ItemType, localItem: any, remoteItem: any | undefined): SyncPlanItem | null {
+  const planItem = (action: SyncPlanAction, conflictingFields?: string[]): SyncPlanItem => ({
+    item_type: itemType,
+    item_id: localItem.id,
+    title: localItem.title,
+    action,
+    conflicting_fields: conflictingFields,
   });
+
+  if (!remoteItem || remoteItem.is_team_level === 0) {
+    return planItem('push');
+  }
+  if (localItem.sync_hash === remoteItem.sync_hash) {
+    return null;
+  }
+
+  const base = dbOperations.getSyncBase(itemType, localItem.id);
+  if (!base) {
+    return planItem('overwrite');
+  }
+
+  const result = threeWayMerge(base, localItem, remoteItem, ITEM_FIELDS[itemType]);
+  if (result.conflicts.length > 0) {
+    return planItem('conflict', result.conflicts);
+  }
+  if (!result.remoteNeedsUpdate) {
+    return result.localNeedsUpdate ? planItem('overwrite') : null;
+  }
+  return planItem(result.localNeedsUpdate ? 'merge' : 'push');
 }
 
-async function updateExecutableFromMySQL(mysqlExecutable: any): Promise<void> {
-  dbOperations.updateExecutable(mysqlExecutable.id, {
-    title: mysqlExecutable.title,
-    executable_path: mysqlExecutable.executable_path,
-    parameters: mysqlExecutable.parameters,
-    icon: mysqlExecutable.icon,
-    category: mysqlExecutable.category,
-    updated_by: mysqlExecutable.updated_by,
-    sync_hash: mysqlExecutable.sync_hash,
-    last_sync_at: new Date().toISOString(),
-  } as any);
-}
-
-async function pushExecutableToMySQL(sqliteExecutable: Executable): Promise<void> {
-  await executeQuery(
-    `INSERT INTO executables (id, title, executable_path, parameters, icon, category, is_team_level, created_by, updated_by, created_at, updated_at, sync_hash)
-     VALUES (?, ?, ?, ?, ?, ?, 1, ?, ?, ?, ?, ?)`,
-    [
-      sqliteExecutable.id,
-      sqliteExecutable.title,
-      sqliteExecutable.executable_path,
-      sqliteExecutable.parameters || null,
-      sqliteExecutable.icon || null,
-      sqliteExecutable.category || null,
-      sqliteExecutable.created_by || null,
-      sqliteExecutable.updated_by || null,
-      sqliteExecutable.created_at,
-      sqliteExecutable.updated_at,
-      sqliteExecutable.sync_hash || null,
-    ]
-  );
+/**
+ * Pick the synced content fields of an item, as stored in its sync base
+ */
+function pickFields(itemType: ItemType, item: any): Record<string, any> {
+  return Object.fromEntries(ITEM_FIELDS[itemType].map(field => [field, item[field] ?? null]));
 }
 
-// Helper functions for scripts
-async function insertScriptFromMySQL(mysqlScript: any): Promise<void> {
-  dbOperations.transaction(() => {
-    const id = dbOperations.createScript({
-      title: mysqlScript.title,
-      script_content: mysqlScript.script_content,
-      script_type: mysqlScript.script_type,
-      icon: mysqlScript.icon,
-      category: mysqlScript.category,
-      is_team_level: 1,
-      is_personal: 1,
-      created_by: mysqlScript.created_by,
-      updated_by: mysqlScript.updated_by,
-    });
-    
-    dbOperations.updateScript(id, {
-      created_at: mysqlScript.created_at,
-      updated_at: mysqlScript.updated_at,
-      sync_hash: mysqlScript.sync_hash,
-      last_sync_at: new Date().toISOString(),
-    } as any);
+/**
+ * Write a server item into SQLite under the same id.
+ * Local-only columns of an existing item are kept.
+ */
+function saveRemoteItem(itemType: ItemType, remoteItem: any, localItem?: any): void {
+  const remoteFields = pickFields(itemType, remoteItem);
+
+  dbOperations.saveSyncedItem(itemType, {
+    ...localItem,
+    ...remoteFields,
+    id: remoteItem.id,
+    is_team_level: 1,
+    is_personal: remoteItem.is_personal ?? localItem?.is_personal ?? 1,
+    team_id: remoteItem.team_id ?? localItem?.team_id ?? DEFAULT_TEAM_ID,
+    created_by: remoteItem.created_by,
+    updated_by: remoteItem.updated_by,
+    created_at: remoteItem.created_at,
+    updated_at: remoteItem.updated_at,
+    sync_hash: remoteItem.sync_hash,
+    last_sync_at: new Date().toISOString(),
   });
+  dbOperations.saveSyncBase(itemType, remoteItem.id, remoteFields, remoteItem.sync_hash);
 }
 
-async function updateScriptFromMySQL(mysqlScript: any): Promise<void> {
-  dbOperations.updateScript(mysqlScript.id, {
-    title: mysqlScript.title,
-    script_content: mysqlScript.script_content,
-    script_type: mysqlScript.script_type,
-    icon: mysqlScript.icon,
-    category: mysqlScript.category,
-    updated_by: mysqlScript.updated_by,
-    sync_hash: mysqlScript.sync_hash,
+/**
+ * Save the server version of one of the user's roamed personal items locally
+ * and record it as the new sync base
+ */
+function saveRoamedItem(itemType: ItemType, remoteItem: any, localItem?: any): void {
+  dbOperations.saveSyncedItem(itemType, {
+    ...localItem,
+    ...remoteItem,
+    is_team_level: 0,
+    is_personal: 1,
     last_sync_at: new Date().toISOString(),
-  } as any);
-}
-
-async function pushScriptToMySQL(sqliteScript: Script): Promise<void> {
-  await executeQuery(
-    `INSERT INTO scripts (id, title, script_content, script_type, icon, category, is_team_level, created_by, updated_by, created_at, updated_at, sync_hash)
-     VALUES (?, ?, ?, ?, ?, ?, 1, ?, ?, ?, ?, ?)`,
-    [
-      sqliteScript.id,
-      sqliteScript.title,
-      sqliteScript.script_content,
-      sqliteScript.script_type,
-      sqliteScript.icon || null,
-      sqliteScript.category || null,
-      sqliteScript.created_by || null,
-      sqliteScript.updated_by || null,
-      sqliteScript.created_at,
-      sqliteScript.updated_at,
-      sqliteScript.sync_hash || null,
-    ]
-  );
+  });
+  dbOperations.saveSyncBase(itemType, remoteItem.id, pickFields(itemType, remoteItem), remoteItem.sync_hash);
 }
-
@@ -0,0 +1,92 @@
+/**
+ * Three-way field-level merge used by the sync engine
+ * Compares a local and a remote version of an item against the last synced base
+ */
+
+export interface MergeResult {
+  merged: Record<string, any>;
+  conflicts: string[];
+  localNeedsUpdate: boolean;
+  remoteNeedsUpdate: boolean;
+}
+
+// Fields holding comma-separated sets, merged element by element
+const SET_FIELDS = new Set(['tags']);
+
+/**
+ * Compare two field values, treating null, undefined and empty strings as equal
+ */
+export function sameValue(a: unknown, b: unknown): boolean {
+  const normalize = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+  return normalize(a) === normalize(b);
+}
+
+function splitSet(value: unknown): string[] {
+  if (value === null || value === undefined) {
+    return [];
+  }
+  return String(value).split(',').map(v => v.trim()).filter(Boolean);
+}
+
+/**
+ * Merge a comma-separated set field: additions and removals from both sides are kept
+ */
+function mergeSet(base: unknown, local: unknown, remote: unknown): string {
+  const baseItems = splitSet(base);
+  const localItems = splitSet(local);
+  const remoteItems = splitSet(remote);
+
+  const removed = new Set([
+    ...baseItems.filter(item => !localItems.includes(item)),
+    ...baseItems.filter(item => !remoteItems.includes(item)),
+  ]);
+
+  const merged: string[] = [];
+  for (const item of [...localItems, ...remoteItems]) {
+    if (!removed.has(item) && !merged.includes(item)) {
+      merged.push(item);
+    }
+  }
+  return merged.join(',');
+}
+
+/**
+ * Merge local and remote versions of an item field by field.
+ * A field only conflicts when both sides changed it to different values;
+ * conflicting fields keep the local value in `merged`.
+ */
+export function threeWayMerge(
+  base: Record<string, any>,
+  local: Record<string, any>,
+  remote: Record<string, any>,
+  fields: string[]
+): MergeResult {
+  const merged: Record<string, any> = {};
+  const conflicts: string[] = [];
+
+  for (const field of fields) {
+    const baseValue = base[field];
+    const localValue = local[field];
+    const remoteValue = remote[field];
+
+    if (sameValue(localValue, remoteValue)) {
+      merged[field] = localValue;
+    } else if (sameValue(localValue, baseValue)) {
+      merged[field] = remoteValue;
+    } else if (sameValue(remoteValue, baseValue)) {
+      merged[field] = localValue;
+    } else if (SET_FIELDS.has(field)) {
+      merged[field] = mergeSet(baseValue, localValue, remoteValue);
+    } else {
+      merged[field] = localValue;
+      conflicts.push(field);
+    }
+  }
+
+  return {
+    merged,
+    conflicts,
+    localNeedsUpdate: fields.some(field => !sameValue(merged[field], local[field])),
+    remoteNeedsUpdate: fields.some(field => !sameValue(merged[field], remote[field])),
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * Serialized tag lists
+ * Items keep their tags as one comma-separated string, which is what is synced
+ * and hashed; the tags and item_tags tables index that string.
+ */
+
+/**
+ * Split a serialized tag list into tag names, dropping blanks and
+ * case-insensitive duplicates
+ */
+export function parseTagList(tags: string | null | undefined): string[] {
+  if (!tags) {
+    return [];
+  }
+
+  const seen = new Set<string>();
+  const names: string[] = [];
+  for (const tag of tags.split(',').map(t => t.trim())) {
+    if (tag !== '' && !seen.has(tag.toLowerCase())) {
+      seen.add(tag.toLowerCase());
+      names.push(tag);
+    }
+  }
+  return names;
+}
+
+/**
+ * Serialize tag names the way the tag input does, or null for no tags
+ */
+export function formatTagList(names: string[]): string | null {
+  return names.length > 0 ? names.join(', ') : null;
+}
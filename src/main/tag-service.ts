@@ -0,0 +1,59 @@
+/**
+ * Tag management
+ * Tags are shared by bookmarks, executables and scripts; renaming, merging
+ * or deleting one rewrites the tag list of every item carrying it.
+ */
+
+import { dbOperations, Tag } from './db-operations';
+import { getCurrentUserEmail } from './auth-service';
+
+/**
+ * Get all tags with their usage counts
+ */
+export function getTags(): Tag[] {
+  return dbOperations.getTags();
+}
+
+/**
+ * Rename a tag everywhere. Renaming onto another existing tag is a merge.
+ */
+export function renameTag(id: string, newName: string): number {
+  const name = newName.trim();
+  if (!name) {
+    throw new Error('A tag name is required');
+  }
+  if (name.includes(',')) {
+    throw new Error('Tag names cannot contain commas');
+  }
+
+  const existing = dbOperations.getTagByName(name);
+  if (existing && existing.id !== id) {
+    throw new Error(`A tag named "${existing.name}" already exists - merge the tags instead`);
+  }
+
+  return dbOperations.renameTag(id, name, getCurrentUserEmail() ?? undefined);
+}
+
+/**
+ * Merge tags into one target tag everywhere
+ */
+export function mergeTags(sourceIds: string[], targetId: string): number {
+  return dbOperations.mergeTags(sourceIds, targetId, getCurrentUserEmail() ?? undefined);
+}
+
+/**
+ * Set or clear the color of a tag
+ */
+export function setTagColor(id: string, color: string | null): void {
+  if (color !== null && !/^#[0-9a-f]{6}$/i.test(color)) {
+    throw new Error('Tag colors must be hex colors like #3b82f6');
+  }
+  dbOperations.setTagColor(id, color);
+}
+
+/**
+ * Remove a tag from every item and delete it
+ */
+export function deleteTag(id: string): number {
+  return dbOperations.deleteTag(id, getCurrentUserEmail() ?? undefined);
+}
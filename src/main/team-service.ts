@@ -0,0 +1,90 @@
+/**
+ * Team workspaces
+ * Team-level items belong to one team; the active team decides which team
+ * items the views show and which team new team items are created in.
+ */
+
+import { dbOperations, DEFAULT_TEAM_ID, Team, TeamMember } from './db-operations';
+import { getCurrentUserEmail } from './auth-service';
+
+/**
+ * Get the teams the current user belongs to
+ */
+export function getMyTeams(): Team[] {
+  return dbOperations.getTeamsForUser(getCurrentUserEmail());
+}
+
+/**
+ * Get the active team, falling back to the default team when the saved one
+ * is unknown or the user has left it
+ */
+export function getActiveTeamId(): string {
+  const setting = dbOperations.getSetting('active_team_id');
+  if (setting && getMyTeams().some(team => team.id === setting.value)) {
+    return setting.value;
+  }
+  return DEFAULT_TEAM_ID;
+}
+
+/**
+ * Switch the active team
+ */
+export function setActiveTeam(teamId: string): void {
+  if (!getMyTeams().some(team => team.id === teamId)) {
+    throw new Error('You are not a member of this team');
+  }
+  dbOperations.setSetting('active_team_id', teamId);
+}
+
+/**
+ * Create a team owned by the current user and make it the active team
+ */
+export function createTeam(name: string): string {
+  const userEmail = getCurrentUserEmail();
+  if (!userEmail) {
+    throw new Error('Sign in to create a team');
+  }
+  if (!name.trim()) {
+    throw new Error('A team name is required');
+  }
+
+  const teamId = dbOperations.createTeam(name.trim(), userEmail);
+  dbOperations.setSetting('active_team_id', teamId);
+  return teamId;
+}
+
+/**
+ * Get the members of a team
+ */
+export function getTeamMembers(teamId: string): TeamMember[] {
+  return dbOperations.getTeamMembers(teamId);
+}
+
+/**
+ * Add a user to a team
+ */
+export function addTeamMember(teamId: string, userEmail: string): void {
+  const addedBy = getCurrentUserEmail();
+  if (!addedBy) {
+    throw new Error('Sign in to manage team members');
+  }
+  if (teamId === DEFAULT_TEAM_ID) {
+    throw new Error('Everyone is a member of the default team');
+  }
+  if (!userEmail.trim()) {
+    throw new Error('An email address is required');
+  }
+
+  dbOperations.addTeamMember(teamId, userEmail.trim(), addedBy);
+}
+
+/**
+ * Remove a user from a team
+ */
+export function removeTeamMember(teamId: string, userEmail: string): void {
+  if (teamId === DEFAULT_TEAM_ID) {
+    throw new Error('Everyone is a member of the default team');
+  }
+
+  dbOperations.removeTeamMember(teamId, userEmail);
+}
@@ -0,0 +1,98 @@
+/**
+ * Trash
+ * Deleted items stay in the trash until they are restored, the trash is
+ * emptied, or they have been there longer than the retention window.
+ */
+
+import { dbOperations, ItemType, TrashedItem } from './db-operations';
+import { getCurrentUserEmail } from './auth-service';
+import { getActiveTeamId } from './team-service';
+
+const TRASH_RETENTION_SETTING = 'trash_retention_days';
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const TRASH_PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+let purgeTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Items in the trash the current user can see in the active team
+ */
+export function getTrashedItems(): TrashedItem[] {
+  return dbOperations.getTrashedItems(getCurrentUserEmail() ?? undefined, getActiveTeamId());
+}
+
+/**
+ * Restore an item from the trash. Returns the id of the restored item.
+ */
+export function restoreItem(itemType: ItemType, id: string): string {
+  return dbOperations.restoreTrashedItem(itemType, id, getCurrentUserEmail() ?? undefined);
+}
+
+/**
+ * Delete one item in the trash for good
+ */
+export function purgeItem(itemType: ItemType, id: string): void {
+  dbOperations.purgeTrashedItem(itemType, id);
+}
+
+/**
+ * Delete everything in the trash the current user can see for good
+ */
+export function emptyTrash(): number {
+  return dbOperations.emptyTrash(getCurrentUserEmail() ?? undefined, getActiveTeamId());
+}
+
+/**
+ * Days an item stays in the trash before it is deleted for good; 0 keeps items until the trash is emptied
+ */
+export function getRetentionDays(): number {
+  const setting = dbOperations.getSetting(TRASH_RETENTION_SETTING);
+  const days = setting ? parseInt(setting.value) : DEFAULT_TRASH_RETENTION_DAYS;
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export function setRetentionDays(days: number): void {
+  if (!Number.isInteger(days) || days < 0) {
+    throw new Error('Trash retention must be a whole number of days');
+  }
+  dbOperations.setSetting(TRASH_RETENTION_SETTING, String(days));
+  purgeExpiredItems();
+}
+
+/**
+ * Delete items older than the retention window. Returns the number deleted.
+ */
+export function purgeExpiredItems(): number {
+  const retentionDays = getRetentionDays();
+  if (retentionDays <= 0) {
+    return 0;
+  }
+
+  const purged = dbOperations.purgeExpiredTrash(retentionDays);
+  if (purged > 0) {
+    console.log(`🗑️ Purged ${purged} item(s) from the trash`);
+  }
+  return purged;
+}
+
+/**
+ * Purge expired items now and periodically while the app runs
+ */
+export function startTrashPurge(): void {
+  stopTrashPurge();
+  purgeExpiredItems();
+  purgeTimer = setInterval(() => {
+    try {
+      purgeExpiredItems();
+    } catch (error) {
+      console.error('Failed to purge the trash:', error);
+    }
+  }, TRASH_PURGE_INTERVAL_MS);
+}
+
+export function stopTrashPurge(): void {
+  if (purgeTimer) {
+    clearInterval(purgeTimer);
+    purgeTimer = null;
+  }
+}
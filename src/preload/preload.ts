@@ -9,6 +9,20 @@ contextBridge.exposeInMainWorld('database', {
   getAllSettings: () => ipcRenderer.invoke('db:getAllSettings'),
   getDatabasePath: () => ipcRenderer.invoke('db:getDatabasePath'),
   getStats: () => ipcRenderer.invoke('db:getStats'),
+  getStartupError: () => ipcRenderer.invoke('db:getStartupError'),
+  showStartupBackup: () => ipcRenderer.invoke('db:showStartupBackup'),
+});
+
+// ============ Backups API ============
+contextBridge.exposeInMainWorld('backups', {
+  list: () => ipcRenderer.invoke('backups:list'),
+  create: () => ipcRenderer.invoke('backups:create'),
+  preview: (fileName: string) => ipcRenderer.invoke('backups:preview', fileName),
+  restore: (fileName: string) => ipcRenderer.invoke('backups:restore', fileName),
+  delete: (fileName: string) => ipcRenderer.invoke('backups:delete', fileName),
+  show: (fileName: string) => ipcRenderer.invoke('backups:show', fileName),
+  getPolicy: () => ipcRenderer.invoke('backups:getPolicy'),
+  setPolicy: (policy: any) => ipcRenderer.invoke('backups:setPolicy', policy),
 });
 
 // ============ Bookmarks API ============
@@ -60,9 +74,82 @@ contextBridge.exposeInMainWorld('scripts', {
 // ============ Sync API ============
 contextBridge.exposeInMainWorld('sync', {
   manual: () => ipcRenderer.invoke('sync:manual'),
+  approve: (scope: string) => ipcRenderer.invoke('sync:approve', scope),
   getStatus: () => ipcRenderer.invoke('sync:getStatus'),
+  getPendingChanges: () => ipcRenderer.invoke('sync:getPendingChanges'),
+  getActivity: (filter?: any) => ipcRenderer.invoke('sync:getActivity', filter),
+  getRuns: (limit?: number) => ipcRenderer.invoke('sync:getRuns', limit),
+  getRunItems: (runId: string) => ipcRenderer.invoke('sync:getRunItems', runId),
+  findRunItems: (searchTerm: string) => ipcRenderer.invoke('sync:findRunItems', searchTerm),
+  preview: () => ipcRenderer.invoke('sync:preview'),
+  verify: () => ipcRenderer.invoke('sync:verify'),
+  repair: (requests: any[]) => ipcRenderer.invoke('sync:repair', requests),
+  getConflicts: () => ipcRenderer.invoke('sync:getConflicts'),
+  resolveConflict: (conflictId: string, resolution: 'mine' | 'theirs' | 'merge', mergedValues?: Record<string, any>) =>
+    ipcRenderer.invoke('sync:resolveConflict', conflictId, resolution, mergedValues),
+  getBackendConfig: () => ipcRenderer.invoke('sync:getBackendConfig'),
+  setBackendConfig: (type: 'mysql' | 'folder', folderPath?: string | null) =>
+    ipcRenderer.invoke('sync:setBackendConfig', type, folderPath),
+  testBackend: () => ipcRenderer.invoke('sync:testBackend'),
+  getSubscriptions: () => ipcRenderer.invoke('sync:getSubscriptions'),
+  addSubscription: (kind: 'tag' | 'category', value: string) => ipcRenderer.invoke('sync:addSubscription', kind, value),
+  removeSubscription: (id: string) => ipcRenderer.invoke('sync:removeSubscription', id),
+  getPersonalRoaming: () => ipcRenderer.invoke('sync:getPersonalRoaming'),
+  setPersonalRoaming: (enabled: boolean) => ipcRenderer.invoke('sync:setPersonalRoaming', enabled),
+  restorePersonalItems: () => ipcRenderer.invoke('sync:restorePersonalItems'),
+  getPolicy: () => ipcRenderer.invoke('sync:getPolicy'),
+  setPolicy: (policy: any) => ipcRenderer.invoke('sync:setPolicy', policy),
   startLongPolling: () => ipcRenderer.invoke('sync:startLongPolling'),
   stopLongPolling: () => ipcRenderer.invoke('sync:stopLongPolling'),
+  onProgress: (callback: (event: any) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, progress: any) => callback(progress);
+    ipcRenderer.on('sync:progress', listener);
+    return () => {
+      ipcRenderer.removeListener('sync:progress', listener);
+    };
+  },
+});
+
+// ============ Search API ============
+contextBridge.exposeInMainWorld('search', {
+  items: (searchTerm: string, options?: { itemType?: string; limit?: number }) =>
+    ipcRenderer.invoke('search:items', searchTerm, options),
+});
+
+// ============ Revisions API ============
+contextBridge.exposeInMainWorld('revisions', {
+  getForItem: (itemType: string, itemId: string) => ipcRenderer.invoke('revisions:getForItem', itemType, itemId),
+  restore: (revisionId: number) => ipcRenderer.invoke('revisions:restore', revisionId),
+});
+
+// ============ Trash API ============
+contextBridge.exposeInMainWorld('trash', {
+  getAll: () => ipcRenderer.invoke('trash:getAll'),
+  restore: (itemType: string, id: string) => ipcRenderer.invoke('trash:restore', itemType, id),
+  purge: (itemType: string, id: string) => ipcRenderer.invoke('trash:purge', itemType, id),
+  empty: () => ipcRenderer.invoke('trash:empty'),
+  getRetentionDays: () => ipcRenderer.invoke('trash:getRetentionDays'),
+  setRetentionDays: (days: number) => ipcRenderer.invoke('trash:setRetentionDays', days),
+});
+
+// ============ Teams API ============
+contextBridge.exposeInMainWorld('teams', {
+  getMine: () => ipcRenderer.invoke('teams:getMine'),
+  getActive: () => ipcRenderer.invoke('teams:getActive'),
+  setActive: (teamId: string) => ipcRenderer.invoke('teams:setActive', teamId),
+  create: (name: string) => ipcRenderer.invoke('teams:create', name),
+  getMembers: (teamId: string) => ipcRenderer.invoke('teams:getMembers', teamId),
+  addMember: (teamId: string, userEmail: string) => ipcRenderer.invoke('teams:addMember', teamId, userEmail),
+  removeMember: (teamId: string, userEmail: string) => ipcRenderer.invoke('teams:removeMember', teamId, userEmail),
+});
+
+// ============ Tags API ============
+contextBridge.exposeInMainWorld('tags', {
+  getAll: () => ipcRenderer.invoke('tags:getAll'),
+  rename: (id: string, newName: string) => ipcRenderer.invoke('tags:rename', id, newName),
+  merge: (sourceIds: string[], targetId: string) => ipcRenderer.invoke('tags:merge', sourceIds, targetId),
+  setColor: (id: string, color: string | null) => ipcRenderer.invoke('tags:setColor', id, color),
+  delete: (id: string) => ipcRenderer.invoke('tags:delete', id),
 });
 
 // ============ Auth API ============
@@ -82,6 +169,7 @@ contextBridge.exposeInMainWorld('auth', {
 // ============ System API ============
 contextBridge.exposeInMainWorld('system', {
   pickFile: () => ipcRenderer.invoke('system:pickFile'),
+  pickFolder: () => ipcRenderer.invoke('system:pickFolder'),
   openExternal: (url: string) => ipcRenderer.invoke('system:openExternal', url),
   getFavicon: (url: string) => ipcRenderer.invoke('system:getFavicon', url),
   getAppIcon: (executablePath: string) => ipcRenderer.invoke('system:getAppIcon', executablePath),
@@ -124,6 +212,18 @@ declare global {
       getAllSettings: () => Promise<any[]>;
       getDatabasePath: () => Promise<string>;
       getStats: () => Promise<any>;
+      getStartupError: () => Promise<any | null>;
+      showStartupBackup: () => Promise<{ success: boolean }>;
+    };
+    backups: {
+      list: () => Promise<any[]>;
+      create: () => Promise<any>;
+      preview: (fileName: string) => Promise<any>;
+      restore: (fileName: string) => Promise<{ success: boolean }>;
+      delete: (fileName: string) => Promise<{ success: boolean }>;
+      show: (fileName: string) => Promise<{ success: boolean }>;
+      getPolicy: () => Promise<any>;
+      setPolicy: (policy: any) => Promise<any>;
     };
     bookmarks: {
       getAll: (userEmail?: string) => Promise<any[]>;
@@ -159,9 +259,63 @@ declare global {
     };
     sync: {
       manual: () => Promise<any>;
+      approve: (scope: string) => Promise<any>;
       getStatus: () => Promise<any>;
+      getPendingChanges: () => Promise<{ pending: number; failing: number; lastError: string | null; nextAttemptAt: string | null }>;
+      getActivity: (filter?: any) => Promise<any[]>;
+      getRuns: (limit?: number) => Promise<any[]>;
+      getRunItems: (runId: string) => Promise<any[]>;
+      findRunItems: (searchTerm: string) => Promise<any[]>;
+      preview: () => Promise<any>;
+      verify: () => Promise<any>;
+      repair: (requests: any[]) => Promise<{ repaired: number; errors: string[] }>;
+      getConflicts: () => Promise<any[]>;
+      resolveConflict: (conflictId: string, resolution: 'mine' | 'theirs' | 'merge', mergedValues?: Record<string, any>) => Promise<any>;
+      getBackendConfig: () => Promise<{ type: 'mysql' | 'folder'; folderPath: string | null }>;
+      setBackendConfig: (type: 'mysql' | 'folder', folderPath?: string | null) => Promise<any>;
+      testBackend: () => Promise<boolean>;
+      getSubscriptions: () => Promise<any[]>;
+      addSubscription: (kind: 'tag' | 'category', value: string) => Promise<string>;
+      removeSubscription: (id: string) => Promise<any>;
+      getPersonalRoaming: () => Promise<boolean>;
+      setPersonalRoaming: (enabled: boolean) => Promise<{ success: boolean }>;
+      restorePersonalItems: () => Promise<number>;
+      getPolicy: () => Promise<{ autoSync: boolean; intervalMinutes: number; maxBackoffMinutes: number; syncOnReconnect: boolean }>;
+      setPolicy: (policy: any) => Promise<{ autoSync: boolean; intervalMinutes: number; maxBackoffMinutes: number; syncOnReconnect: boolean }>;
       startLongPolling: () => Promise<any>;
       stopLongPolling: () => Promise<any>;
+      onProgress: (callback: (event: any) => void) => () => void;
+    };
+    search: {
+      items: (searchTerm: string, options?: { itemType?: string; limit?: number }) => Promise<any[]>;
+    };
+    revisions: {
+      getForItem: (itemType: string, itemId: string) => Promise<any[]>;
+      restore: (revisionId: number) => Promise<any>;
+    };
+    trash: {
+      getAll: () => Promise<any[]>;
+      restore: (itemType: string, id: string) => Promise<string>;
+      purge: (itemType: string, id: string) => Promise<any>;
+      empty: () => Promise<number>;
+      getRetentionDays: () => Promise<number>;
+      setRetentionDays: (days: number) => Promise<any>;
+    };
+    teams: {
+      getMine: () => Promise<any[]>;
+      getActive: () => Promise<string>;
+      setActive: (teamId: string) => Promise<any>;
+      create: (name: string) => Promise<string>;
+      getMembers: (teamId: string) => Promise<any[]>;
+      addMember: (teamId: string, userEmail: string) => Promise<any>;
+      removeMember: (teamId: string, userEmail: string) => Promise<any>;
+    };
+    tags: {
+      getAll: () => Promise<any[]>;
+      rename: (id: string, newName: string) => Promise<number>;
+      merge: (sourceIds: string[], targetId: string) => Promise<number>;
+      setColor: (id: string, color: string | null) => Promise<any>;
+      delete: (id: string) => Promise<number>;
     };
     auth: {
       login: () => Promise<any>;
@@ -175,6 +329,7 @@ declare global {
     };
     system: {
       pickFile: () => Promise<string | null>;
+      pickFolder: () => Promise<string | null>;
       openExternal: (url: string) => Promise<any>;
       getFavicon: (url: string) => Promise<string | null>;
       getAppIcon: (executablePath: string) => Promise<string | null>;
@@ -1,18 +1,33 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { ThemeProvider } from '@/components/ThemeProvider';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { LoginScreen } from './components/Auth/LoginScreen';
 import { MainLayout } from './components/Layout/MainLayout';
+import { DatabaseErrorScreen } from './components/Startup/DatabaseErrorScreen';
 import { BookmarksView } from './views/BookmarksView';
 import { ExecutablesView } from './views/ExecutablesView';
 import { ScriptsView } from './views/ScriptsView';
 import { SettingsView } from './views/SettingsView';
-import { ViewType } from './types';
+import { ActivityView } from './views/ActivityView';
+import { TagsView } from './views/TagsView';
+import { TrashView } from './views/TrashView';
+import { DatabaseStartupError, ViewType } from './types';
 import { Toaster } from 'sonner';
 
 function AppContent() {
   const { isAuthenticated, isLoading } = useAuth();
   const [currentView, setCurrentView] = useState<ViewType>('bookmarks');
+  const [databaseError, setDatabaseError] = useState<DatabaseStartupError | null>(null);
+
+  useEffect(() => {
+    window.database.getStartupError().then(setDatabaseError).catch(error => {
+      console.error('Failed to check database status:', error);
+    });
+  }, []);
+
+  if (databaseError) {
+    return <DatabaseErrorScreen error={databaseError} />;
+  }
 
   if (isLoading) {
     return (
@@ -39,6 +54,12 @@ function AppContent() {
         return <ExecutablesView />;
       case 'scripts':
         return <ScriptsView />;
+      case 'activity':
+        return <ActivityView />;
+      case 'tags':
+        return <TagsView />;
+      case 'trash':
+        return <TrashView />;
       case 'settings':
         return <SettingsView />;
       default:
@@ -0,0 +1,332 @@
+import { useState, useEffect } from 'react';
+import { DatabaseBackup, FolderOpen, RefreshCw, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '../ui/dialog';
+import { ConfirmDialog } from '../ConfirmDialog';
+import { toast } from 'sonner';
+import { BackupInfo, BackupKind, BackupPolicy, BackupPreview } from '../../types';
+import { formatRelativeTime } from '../../lib/time';
+import { cn } from '../../lib/utils';
+
+const KIND_LABELS: Record<BackupKind, string> = {
+  scheduled: 'Scheduled',
+  manual: 'Manual',
+  'pre-migration': 'Before upgrade',
+  'pre-restore': 'Before restore',
+};
+
+const KIND_STYLES: Record<BackupKind, string> = {
+  scheduled: 'bg-blue-500/15 text-blue-700 dark:text-blue-400',
+  manual: 'bg-green-500/15 text-green-700 dark:text-green-400',
+  'pre-migration': 'bg-yellow-500/15 text-yellow-700 dark:text-yellow-500',
+  'pre-restore': 'bg-muted text-muted-foreground',
+};
+
+const PREVIEW_ROWS: { key: keyof BackupPreview; label: string }[] = [
+  { key: 'bookmarks', label: 'Bookmarks' },
+  { key: 'executables', label: 'Executables' },
+  { key: 'scripts', label: 'Scripts' },
+  { key: 'trashed', label: 'In trash' },
+  { key: 'tags', label: 'Tags' },
+];
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Backups of the local database: schedule and retention, backing up on
+ * demand, and restoring a backup after previewing what it holds
+ */
+export function BackupPanel() {
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [policy, setPolicy] = useState<BackupPolicy | null>(null);
+  const [intervalHours, setIntervalHours] = useState('');
+  const [keepCount, setKeepCount] = useState('');
+  const [restoreTarget, setRestoreTarget] = useState<BackupInfo | null>(null);
+  const [preview, setPreview] = useState<BackupPreview | null>(null);
+  const [currentStats, setCurrentStats] = useState<Record<string, number> | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [backupToDelete, setBackupToDelete] = useState<BackupInfo | null>(null);
+
+  useEffect(() => {
+    loadBackups();
+    loadPolicy();
+  }, []);
+
+  const loadBackups = async () => {
+    setLoading(true);
+    try {
+      const data: BackupInfo[] = await window.backups.list();
+      setBackups(data);
+    } catch (error) {
+      console.error('Failed to load backups:', error);
+      toast.error('Failed to load backups');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadPolicy = async () => {
+    try {
+      applyPolicy(await window.backups.getPolicy());
+    } catch (error) {
+      console.error('Failed to load backup schedule:', error);
+    }
+  };
+
+  const applyPolicy = (data: BackupPolicy) => {
+    setPolicy(data);
+    setIntervalHours(String(data.intervalHours));
+    setKeepCount(String(data.keepCount));
+  };
+
+  const savePolicy = async (updates: Partial<BackupPolicy>) => {
+    if (!policy) return;
+
+    try {
+      const saved: BackupPolicy = await window.backups.setPolicy({ ...policy, ...updates });
+      applyPolicy(saved);
+      toast.success('Backup schedule saved');
+      await loadBackups();
+    } catch (error) {
+      console.error('Failed to save backup schedule:', error);
+      toast.error('Failed to save backup schedule');
+    }
+  };
+
+  const handleSaveTimings = () => {
+    const interval = Number(intervalHours);
+    const keep = Number(keepCount);
+    if (!Number.isFinite(interval) || interval <= 0 || !Number.isInteger(keep) || keep <= 0) {
+      toast.error('Enter the interval in hours and the number of backups to keep');
+      return;
+    }
+    savePolicy({ intervalHours: interval, keepCount: keep });
+  };
+
+  const handleBackupNow = async () => {
+    setCreating(true);
+    try {
+      await window.backups.create();
+      toast.success('Database backed up');
+      await loadBackups();
+    } catch (error) {
+      console.error('Failed to back up database:', error);
+      toast.error('Failed to back up database');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const openRestore = async (backup: BackupInfo) => {
+    setRestoreTarget(backup);
+    setPreview(null);
+    try {
+      const [backupPreview, stats] = await Promise.all([
+        window.backups.preview(backup.fileName),
+        window.database.getStats(),
+      ]);
+      setPreview(backupPreview);
+      setCurrentStats(stats);
+    } catch (error) {
+      console.error('Failed to read backup:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read backup');
+      setRestoreTarget(null);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!restoreTarget) return;
+
+    setRestoring(true);
+    try {
+      await window.backups.restore(restoreTarget.fileName);
+      toast.info('Restoring backup - the app will restart');
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      toast.error('Failed to restore backup');
+      setRestoring(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!backupToDelete) return;
+    try {
+      await window.backups.delete(backupToDelete.fileName);
+      toast.success('Backup deleted');
+      await loadBackups();
+    } catch (error) {
+      console.error('Failed to delete backup:', error);
+      toast.error('Failed to delete backup');
+    } finally {
+      setBackupToDelete(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {policy && (
+        <>
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-foreground">Automatic backups</p>
+            <div className="flex gap-4">
+              <Button
+                onClick={() => savePolicy({ enabled: true })}
+                variant={policy.enabled ? 'default' : 'outline'}
+              >
+                On
+              </Button>
+              <Button
+                onClick={() => savePolicy({ enabled: false })}
+                variant={!policy.enabled ? 'default' : 'outline'}
+              >
+                Off
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="backup-interval">Back up every (hours)</Label>
+              <Input
+                id="backup-interval"
+                type="number"
+                min={1}
+                value={intervalHours}
+                onChange={(e) => setIntervalHours(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backup-keep">Automatic backups to keep</Label>
+              <Input
+                id="backup-keep"
+                type="number"
+                min={1}
+                value={keepCount}
+                onChange={(e) => setKeepCount(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Scheduled backups and those taken before upgrades and restores are rotated, keeping the newest of each.
+            Manual backups are kept until you delete them.
+          </p>
+          <Button onClick={handleSaveTimings} variant="secondary" size="sm">
+            Save Schedule
+          </Button>
+        </>
+      )}
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-foreground">Backups</p>
+        <div className="flex gap-2">
+          <Button onClick={handleBackupNow} size="sm" disabled={creating}>
+            <DatabaseBackup className="w-4 h-4 mr-2" />
+            {creating ? 'Backing Up...' : 'Backup Now'}
+          </Button>
+          <Button onClick={loadBackups} variant="secondary" size="sm" disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {!loading && backups.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No backups yet</p>
+      ) : (
+        <ul className="rounded-lg border border-border divide-y divide-border max-h-[300px] overflow-y-auto">
+          {backups.map(backup => (
+            <li key={backup.fileName} className="flex items-center gap-3 px-3 py-2">
+              <span className={cn('text-[10px] px-1.5 py-0.5 rounded font-medium shrink-0', KIND_STYLES[backup.kind])}>
+                {KIND_LABELS[backup.kind]}
+              </span>
+              <div className="min-w-0 flex-1">
+                <p className="text-sm text-foreground" title={backup.fileName}>
+                  {new Date(backup.createdAt).toLocaleString()}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {formatRelativeTime(backup.createdAt)} · {formatSize(backup.size)} · Schema v{backup.schemaVersion}
+                </p>
+              </div>
+              <Button size="sm" variant="ghost" onClick={() => openRestore(backup)} title="Restore">
+                <RotateCcw className="w-4 h-4" />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => window.backups.show(backup.fileName)} title="Show in folder">
+                <FolderOpen className="w-4 h-4" />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setBackupToDelete(backup)} title="Delete">
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={restoreTarget !== null} onOpenChange={(open) => !open && !restoring && setRestoreTarget(null)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Restore from Backup</DialogTitle>
+          </DialogHeader>
+          {restoreTarget && (
+            <p className="text-sm text-muted-foreground">
+              Backup taken {new Date(restoreTarget.createdAt).toLocaleString()}
+            </p>
+          )}
+          {!preview ? (
+            <p className="text-sm text-muted-foreground">Reading backup...</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground">
+                  <th className="text-left font-medium py-1"></th>
+                  <th className="text-right font-medium py-1">Backup</th>
+                  <th className="text-right font-medium py-1">Current</th>
+                </tr>
+              </thead>
+              <tbody>
+                {PREVIEW_ROWS.map(({ key, label }) => (
+                  <tr key={key} className="border-t border-border">
+                    <td className="py-1 text-foreground">{label}</td>
+                    <td className="py-1 text-right text-foreground">{preview[key]}</td>
+                    <td className="py-1 text-right text-muted-foreground">{currentStats?.[key] ?? '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p className="text-sm text-muted-foreground">
+            Everything on this machine is replaced by the backup, including changes not yet synced. The current
+            database is backed up first, and the app restarts to finish the restore.
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRestoreTarget(null)} disabled={restoring}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleRestore} disabled={!preview || restoring}>
+              {restoring ? 'Restoring...' : 'Restore and Restart'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={backupToDelete !== null}
+        onOpenChange={(open) => !open && setBackupToDelete(null)}
+        title="Delete backup?"
+        description="The backup file will be deleted. This cannot be undone."
+        onConfirm={confirmDelete}
+        confirmText="Delete"
+        cancelText="Cancel"
+        variant="destructive"
+      />
+    </div>
+  );
+}
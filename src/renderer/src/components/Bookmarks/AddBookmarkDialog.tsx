@@ -6,7 +6,7 @@ import { Label } from '../ui/label';
 import { TagInput, TagInputRef } from '../ui/tag-input';
 import { toast } from 'sonner';
 import { useAuth } from '../../contexts/AuthContext';
-import { Bookmark } from '../../types';
+import { Bookmark, Tag } from '../../types';
 
 interface AddBookmarkDialogProps {
   open: boolean;
@@ -31,21 +31,12 @@ export function AddBookmarkDialog({ open, onOpenChange, onSuccess, bookmark, pre
   const [existingTags, setExistingTags] = useState<string[]>([]);
   const tagInputRef = useRef<TagInputRef>(null);
 
-  // Load all existing tags from bookmarks
+  // Load all existing tags, shared by bookmarks, executables and scripts
   useEffect(() => {
     const loadExistingTags = async () => {
       try {
-        const allBookmarks = await window.bookmarks.getAll(userEmail || undefined);
-        const tagSet = new Set<string>();
-        
-        allBookmarks.forEach(b => {
-          if (b.tags) {
-            const tags = b.tags.split(',').map(t => t.trim()).filter(t => t !== '');
-            tags.forEach(tag => tagSet.add(tag));
-          }
-        });
-        
-        setExistingTags(Array.from(tagSet).sort());
+        const tags: Tag[] = await window.tags.getAll();
+        setExistingTags(tags.map(tag => tag.name));
       } catch (error) {
         console.error('Failed to load existing tags:', error);
       }
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { MoreVertical, Pencil, Trash2 } from 'lucide-react';
+import { History, MoreVertical, Pencil, Trash2 } from 'lucide-react';
 import { Bookmark } from '../../types';
 import { Button } from '../ui/button';
 import {
@@ -14,11 +14,12 @@ interface BookmarkCardProps {
   onOpen: (url: string) => void;
   onEdit: (bookmark: Bookmark) => void;
   onDelete: (id: string) => void;
+  onShowHistory?: (bookmark: Bookmark) => void;
   onDragStart?: (bookmark: Bookmark) => void;
   isDragging?: boolean;
 }
 
-export function BookmarkCard({ bookmark, onOpen, onEdit, onDelete, onDragStart, isDragging }: BookmarkCardProps) {
+export function BookmarkCard({ bookmark, onOpen, onEdit, onDelete, onShowHistory, onDragStart, isDragging }: BookmarkCardProps) {
   const [isHovered, setIsHovered] = useState(false);
 
   const handleDragStart = (e: React.DragEvent) => {
@@ -83,6 +84,12 @@ export function BookmarkCard({ bookmark, onOpen, onEdit, onDelete, onDragStart,
                   <Pencil className="mr-2 h-4 w-4" />
                   Edit shortcut
                 </DropdownMenuItem>
+                {onShowHistory && (
+                  <DropdownMenuItem onClick={() => onShowHistory(bookmark)}>
+                    <History className="mr-2 h-4 w-4" />
+                    History
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuItem onClick={() => onDelete(bookmark.id)} className="text-destructive dark:text-red-400">
                   <Trash2 className="mr-2 h-4 w-4" />
                   Remove
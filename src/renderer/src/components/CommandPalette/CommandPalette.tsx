@@ -0,0 +1,371 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  Activity,
+  Bookmark as BookmarkIcon,
+  FileCode,
+  Plus,
+  RefreshCw,
+  Search,
+  Server,
+  Settings,
+  Tags,
+  Terminal,
+  Trash2,
+} from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle } from '../ui/dialog';
+import { toast } from 'sonner';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  Bookmark,
+  Executable,
+  ItemType,
+  Script,
+  ScriptExecutionResult,
+  SearchResult,
+  SearchTextPart,
+  ViewType,
+} from '../../types';
+import { fuzzyHighlightParts, fuzzyMatch } from '../../lib/fuzzy';
+import { cn } from '../../lib/utils';
+import { HighlightedText } from './HighlightedText';
+import { AddBookmarkDialog } from '../Bookmarks/AddBookmarkDialog';
+import { ScriptResultDialog } from '../Scripts/ScriptResultDialog';
+import { SyncPreviewDialog } from '../Sync/SyncPreviewDialog';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onViewChange: (view: ViewType) => void;
+  onItemsChanged: () => void;
+}
+
+type PaletteItem = Bookmark | Executable | Script;
+
+interface PaletteEntry {
+  key: string;
+  section: 'Items' | 'Commands';
+  icon: typeof BookmarkIcon;
+  title: SearchTextPart[];
+  detail?: SearchTextPart[];
+  run: () => void;
+}
+
+interface PaletteCommand {
+  id: string;
+  label: string;
+  icon: typeof BookmarkIcon;
+  run: () => void;
+}
+
+const MAX_ITEM_RESULTS = 20;
+
+const ITEM_ICONS: Record<ItemType, typeof BookmarkIcon> = {
+  bookmark: BookmarkIcon,
+  executable: Terminal,
+  script: FileCode,
+};
+
+function itemDetail(itemType: ItemType, item: PaletteItem): string {
+  switch (itemType) {
+    case 'bookmark':
+      return (item as Bookmark).url;
+    case 'executable':
+      return (item as Executable).executable_path;
+    case 'script':
+      return `${(item as Script).script_type} script`;
+  }
+}
+
+const plain = (text: string): SearchTextPart[] => [{ text, highlight: false }];
+
+/**
+ * Ctrl+K palette: fuzzy-finds bookmarks, executables and scripts across all
+ * views and opens/launches/runs the selected one, or runs an app command
+ */
+export function CommandPalette({ open, onOpenChange, onViewChange, onItemsChanged }: CommandPaletteProps) {
+  const { userEmail } = useAuth();
+  const [query, setQuery] = useState('');
+  const [items, setItems] = useState<{ itemType: ItemType; item: PaletteItem }[]>([]);
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [env, setEnv] = useState<'dev' | 'prod'>('dev');
+  const [addBookmarkOpen, setAddBookmarkOpen] = useState(false);
+  const [previewOpen, setPreviewOpen] = useState(false);
+  const [scriptResult, setScriptResult] = useState<ScriptExecutionResult | null>(null);
+  const [scriptTitle, setScriptTitle] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      setQuery('');
+      setSearchResults([]);
+      loadItems();
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setSearchResults([]);
+      return;
+    }
+    // Debounce the full-text search while typing
+    const timeout = setTimeout(async () => {
+      try {
+        setSearchResults(await window.search.items(query, { limit: MAX_ITEM_RESULTS }));
+      } catch (error) {
+        console.error('Failed to search items:', error);
+      }
+    }, 150);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [query, searchResults]);
+
+  const loadItems = async () => {
+    try {
+      const [bookmarks, executables, scripts] = await Promise.all([
+        window.bookmarks.getAll(userEmail || undefined),
+        window.executables.getAll(userEmail || undefined),
+        window.scripts.getAll(userEmail || undefined),
+      ]);
+      setItems([
+        ...bookmarks.map(item => ({ itemType: 'bookmark' as ItemType, item })),
+        ...executables.map(item => ({ itemType: 'executable' as ItemType, item })),
+        ...scripts.map(item => ({ itemType: 'script' as ItemType, item })),
+      ]);
+      const envSetting = await window.database.getSetting('mysql_env');
+      if (envSetting) {
+        setEnv(envSetting.value as 'dev' | 'prod');
+      }
+    } catch (error) {
+      console.error('Failed to load palette items:', error);
+    }
+  };
+
+  const runItem = async (itemType: ItemType, item: PaletteItem) => {
+    onOpenChange(false);
+    try {
+      if (itemType === 'bookmark') {
+        await window.system.openExternal((item as Bookmark).url);
+      } else if (itemType === 'executable') {
+        const executable = item as Executable;
+        toast.info(`Launching ${executable.title}...`);
+        const result = await window.executables.launch(executable.executable_path, executable.parameters);
+        if (result.success) {
+          toast.success('Executable launched successfully');
+        } else {
+          toast.error('Executable failed: ' + (result.error || result.stderr));
+        }
+      } else {
+        const script = item as Script;
+        toast.info(`Executing ${script.title}...`);
+        const result = await window.scripts.execute(script.script_content, script.script_type);
+        setScriptTitle(script.title);
+        setScriptResult(result);
+      }
+    } catch (error) {
+      console.error(`Failed to run ${itemType}:`, error);
+      toast.error(`Failed to run ${item.title}`);
+    }
+  };
+
+  const handleSyncNow = async () => {
+    onOpenChange(false);
+    try {
+      const status = await window.sync.getStatus();
+      if (status.awaitingApproval) {
+        setPreviewOpen(true);
+        return;
+      }
+
+      toast.info('Syncing...');
+      await window.sync.manual();
+      onItemsChanged();
+      toast.success('Sync completed');
+    } catch (error) {
+      console.error('Sync failed:', error);
+      toast.error('Sync failed');
+    }
+  };
+
+  const handleSwitchEnv = async (newEnv: 'dev' | 'prod') => {
+    onOpenChange(false);
+    try {
+      await window.mysql.switchEnvironment(newEnv);
+      await window.database.setSetting('mysql_env', newEnv);
+      setEnv(newEnv);
+      toast.success(`Switched to ${newEnv} environment`);
+      // Automatic sync waits until the first sync with the new server is approved
+      setPreviewOpen(true);
+    } catch (error) {
+      console.error('Failed to switch environment:', error);
+      toast.error('Failed to switch environment. Please configure connection details first.');
+    }
+  };
+
+  const goTo = (view: ViewType) => {
+    onOpenChange(false);
+    onViewChange(view);
+  };
+
+  const otherEnv = env === 'dev' ? 'prod' : 'dev';
+  const commands: PaletteCommand[] = [
+    { id: 'sync', label: 'Sync now', icon: RefreshCw, run: handleSyncNow },
+    { id: 'new-bookmark', label: 'New bookmark', icon: Plus, run: () => { onOpenChange(false); setAddBookmarkOpen(true); } },
+    { id: 'switch-env', label: `Switch to ${otherEnv} environment`, icon: Server, run: () => handleSwitchEnv(otherEnv) },
+    { id: 'settings', label: 'Open settings', icon: Settings, run: () => goTo('settings') },
+    { id: 'scripts', label: 'Go to Scripts', icon: FileCode, run: () => goTo('scripts') },
+    { id: 'executables', label: 'Go to Executables', icon: Terminal, run: () => goTo('executables') },
+    { id: 'bookmarks', label: 'Go to Bookmarks', icon: BookmarkIcon, run: () => goTo('bookmarks') },
+    { id: 'activity', label: 'Go to Activity', icon: Activity, run: () => goTo('activity') },
+    { id: 'tags', label: 'Go to Tags', icon: Tags, run: () => goTo('tags') },
+    { id: 'trash', label: 'Go to Trash', icon: Trash2, run: () => goTo('trash') },
+  ];
+
+  const buildEntries = (): PaletteEntry[] => {
+    if (!query.trim()) {
+      return commands.map(command => ({
+        key: `command:${command.id}`,
+        section: 'Commands',
+        icon: command.icon,
+        title: plain(command.label),
+        run: command.run,
+      }));
+    }
+
+    // Fuzzy title matches first, then full-text matches on other fields
+    const fuzzyItems = items
+      .map(entry => ({ ...entry, match: fuzzyMatch(query, entry.item.title) }))
+      .filter(entry => entry.match !== null)
+      .sort((a, b) => b.match!.score - a.match!.score);
+
+    const itemEntries: PaletteEntry[] = fuzzyItems.map(({ itemType, item, match }) => ({
+      key: `${itemType}:${item.id}`,
+      section: 'Items',
+      icon: ITEM_ICONS[itemType],
+      title: fuzzyHighlightParts(item.title, match!.indices),
+      detail: plain(itemDetail(itemType, item)),
+      run: () => runItem(itemType, item),
+    }));
+
+    const seen = new Set(itemEntries.map(entry => entry.key));
+    for (const result of searchResults) {
+      const key = `${result.item_type}:${result.item_id}`;
+      if (seen.has(key)) continue;
+      itemEntries.push({
+        key,
+        section: 'Items',
+        icon: ITEM_ICONS[result.item_type],
+        title: result.title,
+        detail: result.snippet.length > 0 ? result.snippet : plain(itemDetail(result.item_type, result.item)),
+        run: () => runItem(result.item_type, result.item),
+      });
+    }
+
+    const commandEntries: PaletteEntry[] = commands
+      .map(command => ({ command, match: fuzzyMatch(query, command.label) }))
+      .filter(entry => entry.match !== null)
+      .sort((a, b) => b.match!.score - a.match!.score)
+      .map(({ command, match }) => ({
+        key: `command:${command.id}`,
+        section: 'Commands',
+        icon: command.icon,
+        title: fuzzyHighlightParts(command.label, match!.indices),
+        run: command.run,
+      }));
+
+    return [...itemEntries.slice(0, MAX_ITEM_RESULTS), ...commandEntries];
+  };
+
+  const entries = buildEntries();
+
+  useEffect(() => {
+    listRef.current?.querySelector('[data-selected="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelectedIndex(index => Math.min(index + 1, entries.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelectedIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      entries[selectedIndex]?.run();
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[640px] p-0 gap-0 overflow-hidden top-[20%] translate-y-0">
+          <DialogTitle className="sr-only">Command Palette</DialogTitle>
+          <div className="flex items-center gap-2 border-b border-border px-4">
+            <Search className="w-4 h-4 text-muted-foreground shrink-0" />
+            <input
+              autoFocus
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Search items or type a command..."
+              className="flex-1 h-12 bg-transparent text-sm text-foreground placeholder:text-muted-foreground focus:outline-none"
+            />
+          </div>
+
+          <div ref={listRef} className="max-h-[400px] overflow-y-auto p-2">
+            {entries.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">No matches</p>
+            ) : (
+              entries.map((entry, index) => {
+                const Icon = entry.icon;
+                const showSection = index === 0 || entries[index - 1].section !== entry.section;
+                return (
+                  <div key={entry.key}>
+                    {showSection && (
+                      <p className="px-2 pt-2 pb-1 text-xs font-medium text-muted-foreground">{entry.section}</p>
+                    )}
+                    <button
+                      data-selected={index === selectedIndex}
+                      onClick={entry.run}
+                      onMouseMove={() => setSelectedIndex(index)}
+                      className={cn(
+                        'w-full flex items-center gap-3 rounded-md px-2 py-2 text-left cursor-pointer',
+                        index === selectedIndex ? 'bg-accent text-accent-foreground' : 'text-foreground'
+                      )}
+                    >
+                      <Icon className="w-4 h-4 shrink-0 text-muted-foreground" />
+                      <div className="min-w-0 flex-1">
+                        <HighlightedText parts={entry.title} className="block text-sm truncate" />
+                        {entry.detail && (
+                          <HighlightedText parts={entry.detail} className="block text-xs text-muted-foreground truncate" />
+                        )}
+                      </div>
+                    </button>
+                  </div>
+                );
+              })
+            )}
+          </div>
+
+          <div className="border-t border-border px-4 py-2 text-xs text-muted-foreground">
+            ↑↓ to navigate · Enter to open · Esc to close
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AddBookmarkDialog open={addBookmarkOpen} onOpenChange={setAddBookmarkOpen} onSuccess={onItemsChanged} />
+
+      <SyncPreviewDialog open={previewOpen} onOpenChange={setPreviewOpen} onSynced={onItemsChanged} />
+
+      <ScriptResultDialog
+        open={scriptResult !== null}
+        onOpenChange={(isOpen) => !isOpen && setScriptResult(null)}
+        result={scriptResult}
+        scriptTitle={scriptTitle}
+      />
+    </>
+  );
+}
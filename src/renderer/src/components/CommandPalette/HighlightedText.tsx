@@ -0,0 +1,25 @@
+import { SearchTextPart } from '../../types';
+
+interface HighlightedTextProps {
+  parts: SearchTextPart[];
+  className?: string;
+}
+
+/**
+ * Text with its matched parts emphasized
+ */
+export function HighlightedText({ parts, className }: HighlightedTextProps) {
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        part.highlight ? (
+          <mark key={index} className="bg-yellow-500/30 text-foreground rounded-sm">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </span>
+  );
+}
@@ -6,7 +6,7 @@ import { Label } from '../ui/label';
 import { TagInput, TagInputRef } from '../ui/tag-input';
 import { toast } from 'sonner';
 import { useAuth } from '../../contexts/AuthContext';
-import { Executable } from '../../types';
+import { Executable, Tag } from '../../types';
 import { FolderOpen } from 'lucide-react';
 
 interface AddExecutableDialogProps {
@@ -32,21 +32,12 @@ export function AddExecutableDialog({ open, onOpenChange, onSuccess, executable,
   const [existingTags, setExistingTags] = useState<string[]>([]);
   const tagInputRef = useRef<TagInputRef>(null);
 
-  // Load all existing tags from executables
+  // Load all existing tags, shared by bookmarks, executables and scripts
   useEffect(() => {
     const loadExistingTags = async () => {
       try {
-        const allExecutables = await window.executables.getAll(userEmail || undefined);
-        const tagSet = new Set<string>();
-        
-        allExecutables.forEach(e => {
-          if (e.tags) {
-            const tags = e.tags.split(',').map(t => t.trim()).filter(t => t !== '');
-            tags.forEach(tag => tagSet.add(tag));
-          }
-        });
-        
-        setExistingTags(Array.from(tagSet).sort());
+        const tags: Tag[] = await window.tags.getAll();
+        setExistingTags(tags.map(tag => tag.name));
       } catch (error) {
         console.error('Failed to load existing tags:', error);
       }
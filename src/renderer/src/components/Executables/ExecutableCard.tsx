@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { MoreVertical, Pencil, Trash2 } from 'lucide-react';
+import { History, MoreVertical, Pencil, Trash2 } from 'lucide-react';
 import { Executable } from '../../types';
 import { Button } from '../ui/button';
 import {
@@ -14,11 +14,12 @@ interface ExecutableCardProps {
   onLaunch: (executable: Executable) => void;
   onEdit: (executable: Executable) => void;
   onDelete: (id: string) => void;
+  onShowHistory?: (executable: Executable) => void;
   onDragStart?: (executable: Executable) => void;
   isDragging?: boolean;
 }
 
-export function ExecutableCard({ executable, onLaunch, onEdit, onDelete, onDragStart, isDragging }: ExecutableCardProps) {
+export function ExecutableCard({ executable, onLaunch, onEdit, onDelete, onShowHistory, onDragStart, isDragging }: ExecutableCardProps) {
   const [isHovered, setIsHovered] = useState(false);
 
   const handleDragStart = (e: React.DragEvent) => {
@@ -83,6 +84,12 @@ export function ExecutableCard({ executable, onLaunch, onEdit, onDelete, onDragS
                   <Pencil className="mr-2 h-4 w-4" />
                   Edit shortcut
                 </DropdownMenuItem>
+                {onShowHistory && (
+                  <DropdownMenuItem onClick={() => onShowHistory(executable)}>
+                    <History className="mr-2 h-4 w-4" />
+                    History
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuItem onClick={() => onDelete(executable.id)} className="text-destructive dark:text-red-400">
                   <Trash2 className="mr-2 h-4 w-4" />
                   Remove
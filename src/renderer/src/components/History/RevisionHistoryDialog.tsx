@@ -0,0 +1,194 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '../ui/dialog';
+import { Button } from '../ui/button';
+import { History } from 'lucide-react';
+import { toast } from 'sonner';
+import { ItemRevision, ItemType, RevisionSource } from '../../types';
+import { diffLines } from '../../lib/diff';
+import { FIELD_LABELS, IMAGE_FIELDS } from '../../lib/item-fields';
+import { formatRelativeTime, parseSqliteTimestamp } from '../../lib/time';
+import { cn } from '../../lib/utils';
+
+interface RevisionHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  itemType: ItemType;
+  itemId: string | null;
+  itemTitle?: string;
+  onRestored?: () => void;
+}
+
+const SOURCE_LABELS: Record<RevisionSource, string> = {
+  local: 'Edited',
+  sync: 'Synced',
+  restore: 'Restored',
+};
+
+const SOURCE_STYLES: Record<RevisionSource, string> = {
+  local: 'bg-blue-500/15 text-blue-700 dark:text-blue-400',
+  sync: 'bg-green-500/15 text-green-700 dark:text-green-400',
+  restore: 'bg-yellow-500/15 text-yellow-700 dark:text-yellow-500',
+};
+
+const toText = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+function FieldDiff({ field, before, after }: { field: string; before: unknown; after: unknown }) {
+  if (IMAGE_FIELDS.has(field)) {
+    return (
+      <div className="flex items-center gap-3 text-sm">
+        {before ? <img src={String(before)} alt="before" className="w-8 h-8 object-contain" /> : <span className="italic text-muted-foreground">(empty)</span>}
+        <span className="text-muted-foreground">→</span>
+        {after ? <img src={String(after)} alt="after" className="w-8 h-8 object-contain" /> : <span className="italic text-muted-foreground">(empty)</span>}
+      </div>
+    );
+  }
+
+  return (
+    <pre className="p-3 bg-muted rounded-lg text-sm font-mono overflow-auto max-h-[300px]">
+      {diffLines(toText(before), toText(after)).map((line, index) => (
+        <div
+          key={index}
+          className={cn(
+            'whitespace-pre-wrap break-all',
+            line.type === 'added' && 'bg-green-500/20 text-green-700 dark:text-green-400',
+            line.type === 'removed' && 'bg-destructive/20 text-destructive'
+          )}
+        >
+          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+          {line.text}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+/**
+ * Every recorded version of an item with what changed in each, and a restore
+ * of any earlier version as a new edit
+ */
+export function RevisionHistoryDialog({ open, onOpenChange, itemType, itemId, itemTitle, onRestored }: RevisionHistoryDialogProps) {
+  const [revisions, setRevisions] = useState<ItemRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    if (open && itemId) {
+      loadRevisions();
+    }
+  }, [open, itemId]);
+
+  const loadRevisions = async () => {
+    if (!itemId) return;
+    try {
+      const data: ItemRevision[] = await window.revisions.getForItem(itemType, itemId);
+      setRevisions(data);
+      setSelectedId(data[0]?.id ?? null);
+    } catch (error) {
+      console.error('Failed to load revision history:', error);
+      toast.error('Failed to load revision history');
+    }
+  };
+
+  const selectedIndex = revisions.findIndex(revision => revision.id === selectedId);
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : null;
+  // Revisions are newest first, so the one before the selected one is next in the list
+  const previous = selectedIndex >= 0 ? revisions[selectedIndex + 1] ?? null : null;
+
+  const changedFields = selected
+    ? Object.keys(selected.snapshot).filter(field =>
+        !previous || toText(previous.snapshot[field]) !== toText(selected.snapshot[field])
+      )
+    : [];
+
+  const handleRestore = async () => {
+    if (!selected) return;
+
+    setRestoring(true);
+    try {
+      await window.revisions.restore(selected.id);
+      toast.success('Restored the selected version');
+      onRestored?.();
+      await loadRevisions();
+    } catch (error) {
+      console.error('Failed to restore revision:', error);
+      toast.error('Failed to restore revision');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[1000px] h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            <span>History{itemTitle ? ` - ${itemTitle}` : ''}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {revisions.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-muted-foreground">
+            <p>No history recorded for this item</p>
+          </div>
+        ) : (
+          <div className="flex-1 flex gap-4 min-h-0">
+            {/* Revision list */}
+            <div className="w-1/4 border-r pr-4 overflow-y-auto space-y-1">
+              {revisions.map((revision, index) => (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={cn(
+                    'w-full text-left px-3 py-2 rounded-md transition-colors cursor-pointer',
+                    revision.id === selectedId
+                      ? 'bg-primary text-primary-foreground'
+                      : 'text-foreground hover:bg-accent hover:text-accent-foreground'
+                  )}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className={cn('text-[10px] px-1.5 py-0.5 rounded font-medium', SOURCE_STYLES[revision.source])}>
+                      {SOURCE_LABELS[revision.source]}
+                    </span>
+                    {index === 0 && <span className="text-xs opacity-80">Current</span>}
+                  </div>
+                  <p className="text-xs opacity-80 truncate mt-1">{revision.changed_by || 'Unknown'}</p>
+                  <p className="text-xs opacity-80" title={revision.created_at}>
+                    {formatRelativeTime(parseSqliteTimestamp(revision.created_at))}
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            {/* Changes in the selected revision */}
+            {selected && (
+              <div className="flex-1 overflow-y-auto space-y-6">
+                <p className="text-sm text-muted-foreground">
+                  {previous ? 'Changes from the previous version' : 'First recorded version'}
+                </p>
+                {changedFields.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No content changes</p>
+                )}
+                {changedFields.map(field => (
+                  <div key={field} className="space-y-2">
+                    <p className="font-semibold text-foreground">{FIELD_LABELS[field] || field}</p>
+                    <FieldDiff field={field} before={previous?.snapshot[field]} after={selected.snapshot[field]} />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handleRestore} disabled={!selected || selectedIndex === 0 || restoring}>
+            {restoring ? 'Restoring...' : 'Restore This Version'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
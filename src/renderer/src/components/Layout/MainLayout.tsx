@@ -1,9 +1,13 @@
-import { useState } from 'react';
-import { Bookmark, Terminal, FileCode, Settings, LogOut, RefreshCw } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { Bookmark, Terminal, FileCode, Settings, LogOut, RefreshCw, Activity, Tags, Trash2, Search } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { ViewType } from '../../types';
 import { ThemeToggle } from '../ThemeToggle';
 import { Button } from '../ui/button';
+import { SyncStatusIndicator } from '../Sync/SyncStatusIndicator';
+import { SyncPreviewDialog } from '../Sync/SyncPreviewDialog';
+import { TeamSwitcher } from '../Teams/TeamSwitcher';
+import { CommandPalette } from '../CommandPalette/CommandPalette';
 
 interface MainLayoutProps {
   children: React.ReactNode;
@@ -14,10 +18,33 @@ interface MainLayoutProps {
 export function MainLayout({ children, currentView, onViewChange }: MainLayoutProps) {
   const { userEmail, logout } = useAuth();
   const [syncing, setSyncing] = useState(false);
+  // Remounts the current view so it reloads the new team's items
+  const [teamKey, setTeamKey] = useState('');
+  // Bumped when the command palette changes items behind the current view
+  const [reloadKey, setReloadKey] = useState(0);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [previewOpen, setPreviewOpen] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setPaletteOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   const handleSync = async () => {
     setSyncing(true);
     try {
+      // The first sync with a server runs from its preview, once approved
+      const status = await window.sync.getStatus();
+      if (status.awaitingApproval) {
+        setPreviewOpen(true);
+        return;
+      }
       await window.sync.manual();
     } catch (error) {
       console.error('Sync failed:', error);
@@ -38,6 +65,9 @@ export function MainLayout({ children, currentView, onViewChange }: MainLayoutPr
     { id: 'scripts' as ViewType, icon: FileCode, label: 'Scripts' },
     { id: 'executables' as ViewType, icon: Terminal, label: 'Executables' },
     { id: 'bookmarks' as ViewType, icon: Bookmark, label: 'Bookmarks' },
+    { id: 'activity' as ViewType, icon: Activity, label: 'Activity' },
+    { id: 'tags' as ViewType, icon: Tags, label: 'Tags' },
+    { id: 'trash' as ViewType, icon: Trash2, label: 'Trash' },
   ];
 
   return (
@@ -48,6 +78,19 @@ export function MainLayout({ children, currentView, onViewChange }: MainLayoutPr
         <div className="p-4 border-b border-border">
           <h1 className="text-xl font-bold text-foreground">BOLT Launch Pad</h1>
           <p className="text-sm text-muted-foreground truncate">{userEmail}</p>
+          <TeamSwitcher onTeamChange={setTeamKey} />
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full justify-between mt-2 text-muted-foreground"
+            onClick={() => setPaletteOpen(true)}
+          >
+            <span className="flex items-center gap-2">
+              <Search className="w-4 h-4" />
+              Search
+            </span>
+            <kbd className="text-xs">Ctrl+K</kbd>
+          </Button>
         </div>
 
         {/* Navigation */}
@@ -76,6 +119,8 @@ export function MainLayout({ children, currentView, onViewChange }: MainLayoutPr
 
         {/* Footer */}
         <div className="p-4 border-t border-border space-y-2">
+          <SyncStatusIndicator />
+
           <Button
             variant="secondary"
             size="sm"
@@ -113,9 +158,22 @@ export function MainLayout({ children, currentView, onViewChange }: MainLayoutPr
       </div>
 
       {/* Main Content */}
-      <div className="flex-1 overflow-auto">
+      <div key={`${teamKey}:${reloadKey}`} className="flex-1 overflow-auto">
         {children}
       </div>
+
+      <CommandPalette
+        open={paletteOpen}
+        onOpenChange={setPaletteOpen}
+        onViewChange={onViewChange}
+        onItemsChanged={() => setReloadKey(key => key + 1)}
+      />
+
+      <SyncPreviewDialog
+        open={previewOpen}
+        onOpenChange={setPreviewOpen}
+        onSynced={() => setReloadKey(key => key + 1)}
+      />
     </div>
   );
 }
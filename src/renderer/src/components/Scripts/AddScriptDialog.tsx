@@ -9,7 +9,7 @@ import { ScriptAssistantChat } from './ScriptAssistantChat';
 import { Play } from 'lucide-react';
 import { toast } from 'sonner';
 import { useAuth } from '../../contexts/AuthContext';
-import { Script } from '../../types';
+import { Script, Tag } from '../../types';
 
 interface AddScriptDialogProps {
   open: boolean;
@@ -33,18 +33,12 @@ export function AddScriptDialog({ open, onOpenChange, onSuccess, script, prefill
   const [testOutput, setTestOutput] = useState('');
   const [isRunning, setIsRunning] = useState(false);
 
-  // Load existing tags for autocomplete
+  // Load existing tags (shared by bookmarks, executables and scripts) for autocomplete
   useEffect(() => {
     const loadTags = async () => {
       try {
-        const allScripts = await window.scripts.getAll(userEmail || undefined);
-        const tagsSet = new Set<string>();
-        allScripts.forEach(s => {
-          if (s.tags) {
-            s.tags.split(',').forEach(tag => tagsSet.add(tag.trim()));
-          }
-        });
-        setExistingTags(Array.from(tagsSet));
+        const tags: Tag[] = await window.tags.getAll();
+        setExistingTags(tags.map(tag => tag.name));
       } catch (error) {
         console.error('Failed to load tags:', error);
       }
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { MoreVertical, Pencil, Trash2, Terminal } from 'lucide-react';
+import { History, MoreVertical, Pencil, Trash2, Terminal } from 'lucide-react';
 import { Script } from '../../types';
 import { Button } from '../ui/button';
 import {
@@ -14,10 +14,11 @@ interface ScriptCardProps {
   onExecute: (script: Script) => void;
   onEdit: (script: Script) => void;
   onDelete: (id: string) => void;
+  onShowHistory?: (script: Script) => void;
   onDragStart?: (script: Script) => void;
 }
 
-export function ScriptCard({ script, onExecute, onEdit, onDelete, onDragStart }: ScriptCardProps) {
+export function ScriptCard({ script, onExecute, onEdit, onDelete, onShowHistory, onDragStart }: ScriptCardProps) {
   const [isHovered, setIsHovered] = useState(false);
 
   return (
@@ -80,6 +81,12 @@ export function ScriptCard({ script, onExecute, onEdit, onDelete, onDragStart }:
                   <Pencil className="mr-2 h-4 w-4" />
                   Edit shortcut
                 </DropdownMenuItem>
+                {onShowHistory && (
+                  <DropdownMenuItem onClick={() => onShowHistory(script)}>
+                    <History className="mr-2 h-4 w-4" />
+                    History
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuItem onClick={() => onDelete(script.id)} className="text-destructive dark:text-red-400">
                   <Trash2 className="mr-2 h-4 w-4" />
                   Remove
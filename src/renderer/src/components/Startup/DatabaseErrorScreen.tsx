@@ -0,0 +1,63 @@
+import { AlertTriangle } from 'lucide-react';
+import { Button } from '../ui/button';
+import { DatabaseStartupError } from '../../types';
+
+interface DatabaseErrorScreenProps {
+  error: DatabaseStartupError;
+}
+
+/**
+ * Shown instead of the app when a database migration failed at startup, or
+ * the database was written by a newer version of the app
+ */
+export function DatabaseErrorScreen({ error }: DatabaseErrorScreenProps) {
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background">
+      <div className="w-full max-w-lg p-8 space-y-6 rounded-lg border border-border bg-card">
+        <div className="space-y-2">
+          <h1 className="flex items-center gap-2 text-2xl font-bold text-foreground">
+            <AlertTriangle className="w-6 h-6 text-destructive" />
+            {error.newerSchema ? 'The database is from a newer version' : 'The database could not be upgraded'}
+          </h1>
+          {error.newerSchema ? (
+            <p className="text-muted-foreground">
+              The database was last opened by a newer version of the app (schema version {error.schemaVersion}).
+              It was left unchanged; update the app to open it.
+            </p>
+          ) : (
+            <p className="text-muted-foreground">
+              Upgrade step {error.version} ({error.description}) failed and was rolled back. The database
+              was left at version {error.schemaVersion} and the app cannot open it until the problem is fixed.
+            </p>
+          )}
+        </div>
+
+        <div className="p-4 rounded-lg bg-muted">
+          <p className="text-sm font-mono whitespace-pre-wrap break-words">{error.message}</p>
+        </div>
+
+        <div className="space-y-1 text-sm">
+          <p className="text-muted-foreground">Database:</p>
+          <p className="font-mono break-all text-foreground">{error.databasePath}</p>
+          {error.backupPath && (
+            <>
+              <p className="pt-2 text-muted-foreground">Backup taken before the upgrade:</p>
+              <p className="font-mono break-all text-foreground">{error.backupPath}</p>
+            </>
+          )}
+        </div>
+
+        <div className="flex gap-2 justify-end">
+          {error.backupPath && (
+            <Button variant="secondary" onClick={() => window.database.showStartupBackup()}>
+              Show Backup
+            </Button>
+          )}
+          <Button variant="destructive" onClick={() => window.close()}>
+            Quit
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
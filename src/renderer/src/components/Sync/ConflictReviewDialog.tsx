@@ -0,0 +1,197 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '../ui/dialog';
+import { Button } from '../ui/button';
+import { AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { ConflictResolution, SyncConflict } from '../../types';
+import { diffLines } from '../../lib/diff';
+import { FIELD_LABELS, IMAGE_FIELDS } from '../../lib/item-fields';
+import { cn } from '../../lib/utils';
+
+interface ConflictReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onResolved?: () => void;
+}
+
+function FieldValue({ field, value }: { field: string; value: any }) {
+  if (value === null || value === undefined || value === '') {
+    return <span className="italic text-muted-foreground">(empty)</span>;
+  }
+  if (IMAGE_FIELDS.has(field)) {
+    return <img src={value} alt={field} className="w-8 h-8 object-contain" />;
+  }
+  return (
+    <pre className="text-sm font-mono whitespace-pre-wrap break-all max-h-[200px] overflow-auto text-foreground">
+      {String(value)}
+    </pre>
+  );
+}
+
+export function ConflictReviewDialog({ open, onOpenChange, onResolved }: ConflictReviewDialogProps) {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [choices, setChoices] = useState<Record<string, 'mine' | 'theirs'>>({});
+  const [resolving, setResolving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      loadConflicts();
+    }
+  }, [open]);
+
+  const loadConflicts = async () => {
+    try {
+      const data = await window.sync.getConflicts();
+      setConflicts(data);
+      setSelectedId(current => data.some(c => c.id === current) ? current : data[0]?.id ?? null);
+    } catch (error) {
+      console.error('Failed to load conflicts:', error);
+      toast.error('Failed to load conflicts');
+    }
+  };
+
+  const selected = conflicts.find(c => c.id === selectedId) ?? null;
+
+  useEffect(() => {
+    setChoices({});
+  }, [selectedId]);
+
+  const handleResolve = async (resolution: ConflictResolution) => {
+    if (!selected) return;
+
+    setResolving(true);
+    try {
+      let mergedValues: Record<string, any> | undefined;
+      if (resolution === 'merge') {
+        mergedValues = {};
+        for (const field of selected.conflicting_fields) {
+          const snapshot = choices[field] === 'theirs' ? selected.remote_snapshot : selected.local_snapshot;
+          mergedValues[field] = snapshot[field];
+        }
+      }
+
+      await window.sync.resolveConflict(selected.id, resolution, mergedValues);
+      toast.success(`Resolved conflict for "${selected.title || selected.item_id}"`);
+      await loadConflicts();
+      onResolved?.();
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error);
+      toast.error('Failed to resolve conflict');
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[1100px] h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-yellow-500" />
+            <span>Sync Conflicts ({conflicts.length})</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {conflicts.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-muted-foreground">
+            <p>No conflicts to review</p>
+          </div>
+        ) : (
+          <div className="flex-1 flex gap-4 min-h-0">
+            {/* Conflict list */}
+            <div className="w-1/4 border-r pr-4 overflow-y-auto space-y-1">
+              {conflicts.map(conflict => (
+                <button
+                  key={conflict.id}
+                  onClick={() => setSelectedId(conflict.id)}
+                  className={cn(
+                    'w-full text-left px-3 py-2 rounded-md transition-colors cursor-pointer',
+                    conflict.id === selectedId
+                      ? 'bg-primary text-primary-foreground'
+                      : 'text-foreground hover:bg-accent hover:text-accent-foreground'
+                  )}
+                >
+                  <p className="font-medium truncate">{conflict.title || conflict.item_id}</p>
+                  <p className="text-xs opacity-80 capitalize">
+                    {conflict.item_type} · {conflict.conflicting_fields.length} field(s)
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            {/* Side-by-side comparison */}
+            {selected && (
+              <div className="flex-1 overflow-y-auto space-y-6">
+                {selected.conflicting_fields.map(field => (
+                  <div key={field} className="space-y-2">
+                    <p className="font-semibold text-foreground">{FIELD_LABELS[field] || field}</p>
+                    <div className="grid grid-cols-2 gap-4">
+                      {(['mine', 'theirs'] as const).map(side => {
+                        const snapshot = side === 'mine' ? selected.local_snapshot : selected.remote_snapshot;
+                        const isChosen = (choices[field] ?? 'mine') === side;
+                        return (
+                          <button
+                            key={side}
+                            type="button"
+                            onClick={() => setChoices({ ...choices, [field]: side })}
+                            className={cn(
+                              'text-left p-3 rounded-lg border-2 bg-card transition-colors cursor-pointer',
+                              isChosen ? 'border-primary' : 'border-border hover:border-muted-foreground'
+                            )}
+                          >
+                            <p className="text-xs font-medium text-muted-foreground mb-2">
+                              {side === 'mine' ? 'Mine (this machine)' : 'Theirs (team server)'}
+                            </p>
+                            <FieldValue field={field} value={snapshot[field]} />
+                          </button>
+                        );
+                      })}
+                    </div>
+
+                    {field === 'script_content' && (
+                      <pre className="p-3 bg-muted rounded-lg text-sm font-mono overflow-auto max-h-[300px]">
+                        {diffLines(selected.remote_snapshot[field] || '', selected.local_snapshot[field] || '').map((line, index) => (
+                          <div
+                            key={index}
+                            className={cn(
+                              'whitespace-pre-wrap break-all',
+                              line.type === 'added' && 'bg-green-500/20 text-green-700 dark:text-green-400',
+                              line.type === 'removed' && 'bg-destructive/20 text-destructive'
+                            )}
+                          >
+                            {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                            {line.text}
+                          </div>
+                        ))}
+                      </pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {selected && (
+            <>
+              <Button variant="secondary" onClick={() => handleResolve('theirs')} disabled={resolving}>
+                Keep Theirs
+              </Button>
+              <Button variant="secondary" onClick={() => handleResolve('mine')} disabled={resolving}>
+                Keep Mine
+              </Button>
+              <Button onClick={() => handleResolve('merge')} disabled={resolving}>
+                Merge Selected
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,68 @@
+import { useState, useEffect } from 'react';
+import { Button } from '../ui/button';
+import { toast } from 'sonner';
+
+/**
+ * Opt in to backing up personal items to the team server and restoring them
+ * on the user's other machines
+ */
+export function PersonalRoamingPanel() {
+  const [enabled, setEnabled] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    loadSetting();
+  }, []);
+
+  const loadSetting = async () => {
+    try {
+      setEnabled(await window.sync.getPersonalRoaming());
+    } catch (error) {
+      console.error('Failed to load personal roaming setting:', error);
+    }
+  };
+
+  const handleToggle = async (value: boolean) => {
+    try {
+      await window.sync.setPersonalRoaming(value);
+      setEnabled(value);
+      toast.success(value ? 'Personal items will roam on the next sync' : 'Personal roaming turned off');
+    } catch (error) {
+      console.error('Failed to save personal roaming setting:', error);
+      toast.error('Failed to save personal roaming setting');
+    }
+  };
+
+  const handleRestore = async () => {
+    setRestoring(true);
+    try {
+      const restored = await window.sync.restorePersonalItems();
+      toast.success(`Synced ${restored} personal items`);
+    } catch (error) {
+      console.error('Failed to restore personal items:', error);
+      toast.error('Failed to restore personal items');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Keep a private copy of your personal items on the team server, so signing in on a new or
+        reimaged machine brings them back. Only you can pull them; other users do not see them.
+      </p>
+      <div className="flex gap-4">
+        <Button onClick={() => handleToggle(true)} variant={enabled ? 'default' : 'outline'}>
+          On
+        </Button>
+        <Button onClick={() => handleToggle(false)} variant={!enabled ? 'default' : 'outline'}>
+          Off
+        </Button>
+        <Button onClick={handleRestore} variant="secondary" disabled={!enabled || restoring}>
+          {restoring ? 'Syncing...' : 'Sync Personal Items Now'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState, useEffect } from 'react';
+import { ChevronDown, ChevronRight, RefreshCw } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { toast } from 'sonner';
+import { SyncRun, SyncRunAction, SyncRunItem } from '../../types';
+import { parseSqliteTimestamp } from '../../lib/time';
+import { cn } from '../../lib/utils';
+
+const ACTION_STYLES: Record<SyncRunAction, string> = {
+  pulled: 'bg-blue-500/15 text-blue-700 dark:text-blue-400',
+  pushed: 'bg-green-500/15 text-green-700 dark:text-green-400',
+  merged: 'bg-green-500/15 text-green-700 dark:text-green-400',
+  conflict: 'bg-yellow-500/15 text-yellow-700 dark:text-yellow-500',
+  deleted: 'bg-muted text-muted-foreground',
+  removed: 'bg-destructive/15 text-destructive',
+  error: 'bg-destructive/15 text-destructive',
+};
+
+function formatTimestamp(timestamp: string): string {
+  return parseSqliteTimestamp(timestamp).toLocaleString();
+}
+
+function ActionBadge({ action }: { action: SyncRunAction }) {
+  return (
+    <span className={cn('px-2 py-0.5 rounded text-xs font-medium capitalize shrink-0', ACTION_STYLES[action])}>
+      {action}
+    </span>
+  );
+}
+
+function RunItemRow({ item, timestamp }: { item: SyncRunItem; timestamp?: string }) {
+  return (
+    <div className="flex items-start gap-2 py-1.5 text-sm">
+      <ActionBadge action={item.action} />
+      <div className="min-w-0 flex-1">
+        <p className="text-foreground truncate">
+          <span className="capitalize text-muted-foreground">{item.item_type}</span>{' '}
+          {item.title || item.item_id}
+        </p>
+        {item.message && <p className="text-xs text-muted-foreground break-words">{item.message}</p>}
+      </div>
+      {timestamp && <span className="text-xs text-muted-foreground whitespace-nowrap">{formatTimestamp(timestamp)}</span>}
+    </div>
+  );
+}
+
+/**
+ * Browsable history of sync runs and what each run did to individual items
+ */
+export function SyncHistoryPanel() {
+  const [runs, setRuns] = useState<SyncRun[]>([]);
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+  const [runItems, setRunItems] = useState<SyncRunItem[]>([]);
+  const [search, setSearch] = useState('');
+  const [searchResults, setSearchResults] = useState<(SyncRunItem & { started_at: string })[]>([]);
+
+  useEffect(() => {
+    loadRuns();
+  }, []);
+
+  useEffect(() => {
+    if (!search.trim()) {
+      setSearchResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        setSearchResults(await window.sync.findRunItems(search.trim()));
+      } catch (error) {
+        console.error('Failed to search sync history:', error);
+      }
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const loadRuns = async () => {
+    try {
+      setRuns(await window.sync.getRuns(50));
+    } catch (error) {
+      console.error('Failed to load sync history:', error);
+      toast.error('Failed to load sync history');
+    }
+  };
+
+  const toggleRun = async (runId: string) => {
+    if (expandedRunId === runId) {
+      setExpandedRunId(null);
+      return;
+    }
+
+    try {
+      setRunItems(await window.sync.getRunItems(runId));
+      setExpandedRunId(runId);
+    } catch (error) {
+      console.error('Failed to load sync run details:', error);
+      toast.error('Failed to load sync run details');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Input
+          placeholder="Find an item by title or id..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        <Button onClick={loadRuns} variant="secondary" size="icon" title="Refresh">
+          <RefreshCw className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {search.trim() ? (
+        <div className="max-h-[400px] overflow-y-auto divide-y divide-border">
+          {searchResults.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-2">No sync history for matching items</p>
+          ) : (
+            searchResults.map(item => <RunItemRow key={item.id} item={item} timestamp={item.started_at} />)
+          )}
+        </div>
+      ) : runs.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No sync runs recorded yet</p>
+      ) : (
+        <div className="max-h-[400px] overflow-y-auto divide-y divide-border">
+          {runs.map(run => {
+            const isExpanded = expandedRunId === run.id;
+            return (
+              <div key={run.id} className="py-2">
+                <button
+                  onClick={() => toggleRun(run.id)}
+                  className="w-full flex items-center gap-2 text-left text-sm cursor-pointer"
+                >
+                  {isExpanded ? <ChevronDown className="w-4 h-4 shrink-0" /> : <ChevronRight className="w-4 h-4 shrink-0" />}
+                  <div
+                    className={cn(
+                      'w-2 h-2 rounded-full shrink-0',
+                      run.success === undefined ? 'bg-muted-foreground' : run.success ? 'bg-green-500' : 'bg-red-500'
+                    )}
+                  />
+                  <span className="text-foreground">{formatTimestamp(run.started_at)}</span>
+                  <span className="text-xs text-muted-foreground capitalize">{run.trigger}</span>
+                  <span className="flex-1 text-right text-xs text-muted-foreground">
+                    {run.items_synced} synced · {run.conflicts} conflicts · {run.errors.length} errors
+                  </span>
+                </button>
+
+                {isExpanded && (
+                  <div className="pl-6 pt-2">
+                    {run.errors.map((error, index) => (
+                      <p key={index} className="text-xs text-destructive break-words">{error}</p>
+                    ))}
+                    {runItems.length === 0 ? (
+                      <p className="text-sm text-muted-foreground py-1">No item changes in this run</p>
+                    ) : (
+                      runItems.map(item => <RunItemRow key={item.id} item={item} />)
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
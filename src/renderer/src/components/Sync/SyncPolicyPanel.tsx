@@ -0,0 +1,142 @@
+import { useState, useEffect } from 'react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { toast } from 'sonner';
+import { SyncPolicy } from '../../types';
+
+/**
+ * Settings for when automatic syncs run: polling interval, retry backoff
+ * and syncing on reconnect / resume from sleep
+ */
+export function SyncPolicyPanel() {
+  const [policy, setPolicy] = useState<SyncPolicy | null>(null);
+  const [intervalMinutes, setIntervalMinutes] = useState('');
+  const [maxBackoffMinutes, setMaxBackoffMinutes] = useState('');
+  const [nextSyncTime, setNextSyncTime] = useState<Date | null>(null);
+
+  useEffect(() => {
+    loadPolicy();
+  }, []);
+
+  const loadPolicy = async () => {
+    try {
+      const data: SyncPolicy = await window.sync.getPolicy();
+      applyPolicy(data);
+      const status = await window.sync.getStatus();
+      setNextSyncTime(status.nextSyncTime);
+    } catch (error) {
+      console.error('Failed to load sync policy:', error);
+    }
+  };
+
+  const applyPolicy = (data: SyncPolicy) => {
+    setPolicy(data);
+    setIntervalMinutes(String(data.intervalMinutes));
+    setMaxBackoffMinutes(String(data.maxBackoffMinutes));
+  };
+
+  const savePolicy = async (updates: Partial<SyncPolicy>) => {
+    if (!policy) return;
+
+    try {
+      const saved: SyncPolicy = await window.sync.setPolicy({ ...policy, ...updates });
+      applyPolicy(saved);
+      const status = await window.sync.getStatus();
+      setNextSyncTime(status.nextSyncTime);
+      toast.success('Sync schedule saved');
+    } catch (error) {
+      console.error('Failed to save sync policy:', error);
+      toast.error('Failed to save sync schedule');
+    }
+  };
+
+  const handleSaveTimings = () => {
+    const interval = Number(intervalMinutes);
+    const backoff = Number(maxBackoffMinutes);
+    if (!Number.isFinite(interval) || interval <= 0 || !Number.isFinite(backoff) || backoff <= 0) {
+      toast.error('Enter the interval and backoff as a number of minutes');
+      return;
+    }
+    savePolicy({ intervalMinutes: interval, maxBackoffMinutes: backoff });
+  };
+
+  if (!policy) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-foreground">Automatic sync</p>
+        <div className="flex gap-4">
+          <Button
+            onClick={() => savePolicy({ autoSync: true })}
+            variant={policy.autoSync ? 'default' : 'outline'}
+          >
+            On
+          </Button>
+          <Button
+            onClick={() => savePolicy({ autoSync: false })}
+            variant={!policy.autoSync ? 'default' : 'outline'}
+          >
+            Off
+          </Button>
+        </div>
+        {policy.autoSync && nextSyncTime && (
+          <p className="text-sm text-muted-foreground">Next sync at {new Date(nextSyncTime).toLocaleTimeString()}</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="sync-interval">Interval (minutes)</Label>
+          <Input
+            id="sync-interval"
+            type="number"
+            min={1}
+            value={intervalMinutes}
+            onChange={(e) => setIntervalMinutes(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="sync-backoff">Maximum retry delay (minutes)</Label>
+          <Input
+            id="sync-backoff"
+            type="number"
+            min={1}
+            value={maxBackoffMinutes}
+            onChange={(e) => setMaxBackoffMinutes(e.target.value)}
+          />
+        </div>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Failed syncs are retried after 30 seconds, doubling on each failure up to the maximum retry delay
+      </p>
+      <Button onClick={handleSaveTimings} variant="secondary" size="sm">
+        Save Schedule
+      </Button>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-foreground">Sync on reconnect</p>
+        <p className="text-sm text-muted-foreground">
+          Sync immediately when the team server connection comes back or the computer wakes from sleep
+        </p>
+        <div className="flex gap-4">
+          <Button
+            onClick={() => savePolicy({ syncOnReconnect: true })}
+            variant={policy.syncOnReconnect ? 'default' : 'outline'}
+          >
+            On
+          </Button>
+          <Button
+            onClick={() => savePolicy({ syncOnReconnect: false })}
+            variant={!policy.syncOnReconnect ? 'default' : 'outline'}
+          >
+            Off
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Eye, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { SyncPlan, SyncPlanAction } from '../../types';
+import { cn } from '../../lib/utils';
+
+interface SyncPreviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSynced?: () => void;
+}
+
+const ACTION_LABELS: Record<SyncPlanAction, string> = {
+  pull: 'Pull',
+  push: 'Push',
+  overwrite: 'Overwrite local',
+  merge: 'Merge',
+  delete: 'Delete on server',
+  remove: 'Delete locally',
+  conflict: 'Conflict',
+};
+
+const ACTION_STYLES: Record<SyncPlanAction, string> = {
+  pull: 'bg-blue-500/15 text-blue-700 dark:text-blue-400',
+  push: 'bg-green-500/15 text-green-700 dark:text-green-400',
+  overwrite: 'bg-yellow-500/15 text-yellow-700 dark:text-yellow-500',
+  merge: 'bg-green-500/15 text-green-700 dark:text-green-400',
+  delete: 'bg-destructive/15 text-destructive',
+  remove: 'bg-destructive/15 text-destructive',
+  conflict: 'bg-yellow-500/15 text-yellow-700 dark:text-yellow-500',
+};
+
+/**
+ * Dry-run of the next sync: lists what would be pulled, pushed, overwritten,
+ * deleted or left in conflict, and runs the sync only when approved
+ */
+export function SyncPreviewDialog({ open, onOpenChange, onSynced }: SyncPreviewDialogProps) {
+  const [plan, setPlan] = useState<SyncPlan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      loadPlan();
+    }
+  }, [open]);
+
+  const loadPlan = async () => {
+    setLoading(true);
+    try {
+      setPlan(await window.sync.preview());
+    } catch (error) {
+      console.error('Failed to preview sync:', error);
+      toast.error('Failed to preview sync');
+      setPlan(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!plan) return;
+
+    setSyncing(true);
+    try {
+      const result = await window.sync.approve(plan.scope);
+      if (result?.success) {
+        toast.success(`Sync completed: ${result.itemsSynced} items synced`);
+      } else {
+        toast.warning(`Sync completed with ${result?.errors?.length || 0} errors`);
+      }
+      onSynced?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Sync failed:', error);
+      toast.error('Sync failed');
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const activeActions = plan
+    ? (Object.keys(ACTION_LABELS) as SyncPlanAction[]).filter(action => plan.counts[action] > 0)
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Eye className="w-5 h-5" />
+            <span>Sync Preview{plan ? ` - ${plan.backend} (${plan.scope})` : ''}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex-1 flex items-center justify-center py-12 text-muted-foreground">
+            <RefreshCw className="w-5 h-5 mr-2 animate-spin" />
+            <p>Computing sync plan...</p>
+          </div>
+        ) : !plan ? (
+          <div className="flex-1 flex items-center justify-center py-12 text-muted-foreground">
+            <p>The sync plan could not be computed</p>
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 space-y-4 overflow-y-auto">
+            {plan.firstSync && (
+              <p className="text-sm text-foreground">
+                This is the first sync with this server. Review the changes before they are applied.
+              </p>
+            )}
+
+            {activeActions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Everything is already in sync</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {activeActions.map(action => (
+                  <span key={action} className={cn('px-2 py-0.5 rounded text-xs font-medium', ACTION_STYLES[action])}>
+                    {ACTION_LABELS[action]}: {plan.counts[action]}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {plan.errors.map((error, index) => (
+              <p key={index} className="text-xs text-destructive break-words">{error}</p>
+            ))}
+
+            <div className="divide-y divide-border">
+              {plan.items.map(item => (
+                <div key={`${item.item_type}-${item.item_id}`} className="flex items-start gap-2 py-1.5 text-sm">
+                  <span className={cn('px-2 py-0.5 rounded text-xs font-medium shrink-0', ACTION_STYLES[item.action])}>
+                    {ACTION_LABELS[item.action]}
+                  </span>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-foreground truncate">
+                      <span className="capitalize text-muted-foreground">{item.item_type}</span>{' '}
+                      {item.title || item.item_id}
+                    </p>
+                    {item.conflicting_fields && (
+                      <p className="text-xs text-muted-foreground">Changed on both sides: {item.conflicting_fields.join(', ')}</p>
+                    )}
+                    {item.message && <p className="text-xs text-muted-foreground">{item.message}</p>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={syncing}>
+            Cancel
+          </Button>
+          <Button variant="secondary" onClick={loadPlan} disabled={loading || syncing}>
+            Refresh
+          </Button>
+          <Button onClick={handleApprove} disabled={loading || syncing || !plan}>
+            {syncing ? 'Syncing...' : 'Approve and Sync'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
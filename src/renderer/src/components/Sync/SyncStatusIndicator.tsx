@@ -0,0 +1,124 @@
+import { useState, useEffect } from 'react';
+import { AlertCircle, CheckCircle2, CloudUpload, Eye, RefreshCw } from 'lucide-react';
+import { SyncProgressEvent, SyncStatus } from '../../types';
+import { formatRelativeTime } from '../../lib/time';
+import { SyncPreviewDialog } from './SyncPreviewDialog';
+
+const STATUS_POLL_MS = 10 * 1000;
+
+const PHASE_LABELS: Record<SyncProgressEvent['phase'], string> = {
+  started: 'Starting',
+  deletions: 'Applying deletions',
+  outbox: 'Uploading changes',
+  pull: 'Pulling',
+  push: 'Pushing',
+  cleanup: 'Cleaning up',
+  completed: 'Completed',
+  failed: 'Failed',
+};
+
+const ITEM_TYPE_LABELS: Record<string, string> = {
+  bookmark: 'bookmarks',
+  executable: 'executables',
+  script: 'scripts',
+};
+
+function describeProgress(progress: SyncProgressEvent): string {
+  let text = PHASE_LABELS[progress.phase];
+  if (progress.itemType && (progress.phase === 'pull' || progress.phase === 'push')) {
+    text += ` ${ITEM_TYPE_LABELS[progress.itemType]}`;
+  }
+  if (progress.total > 0) {
+    text += ` ${Math.min(progress.processed + 1, progress.total)}/${progress.total}`;
+  }
+  return text;
+}
+
+/**
+ * Sidebar summary of the sync state: live progress while a sync runs,
+ * otherwise the last sync time, changes waiting to be uploaded and the last error
+ */
+export function SyncStatusIndicator() {
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+  const [progress, setProgress] = useState<SyncProgressEvent | null>(null);
+  const [previewOpen, setPreviewOpen] = useState(false);
+
+  useEffect(() => {
+    loadStatus();
+    const interval = setInterval(loadStatus, STATUS_POLL_MS);
+
+    const unsubscribe = window.sync.onProgress((event: SyncProgressEvent) => {
+      if (event.phase === 'completed' || event.phase === 'failed') {
+        setProgress(null);
+        loadStatus();
+      } else {
+        setProgress(event);
+      }
+    });
+
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, []);
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await window.sync.getStatus());
+    } catch (error) {
+      console.error('Failed to load sync status:', error);
+    }
+  };
+
+  if (progress) {
+    return (
+      <div className="flex items-center gap-2 px-1 text-xs text-muted-foreground">
+        <RefreshCw className="w-4 h-4 shrink-0 animate-spin" />
+        <span className="truncate">{describeProgress(progress)}</span>
+      </div>
+    );
+  }
+
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-1 px-1 text-xs text-muted-foreground">
+      <div className="flex items-center gap-2">
+        <CheckCircle2 className="w-4 h-4 shrink-0" />
+        <span className="truncate">
+          {status.lastSyncTime ? `Last synced ${formatRelativeTime(status.lastSyncTime)}` : 'Never synced'}
+        </span>
+      </div>
+
+      {status.pendingChanges > 0 && (
+        <div className="flex items-center gap-2">
+          <CloudUpload className="w-4 h-4 shrink-0" />
+          <span>
+            {status.pendingChanges} {status.pendingChanges === 1 ? 'change' : 'changes'} pending upload
+          </span>
+        </div>
+      )}
+
+      {status.lastError && (
+        <div className="flex items-center gap-2 text-destructive" title={status.lastError}>
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          <span className="truncate">{status.lastError}</span>
+        </div>
+      )}
+
+      {status.awaitingApproval && (
+        <button
+          onClick={() => setPreviewOpen(true)}
+          className="flex items-center gap-2 text-yellow-700 dark:text-yellow-500 hover:underline cursor-pointer"
+        >
+          <Eye className="w-4 h-4 shrink-0" />
+          <span className="truncate">Review sync before it runs</span>
+        </button>
+      )}
+
+      <SyncPreviewDialog open={previewOpen} onOpenChange={setPreviewOpen} onSynced={loadStatus} />
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { toast } from 'sonner';
+import { SyncSubscription, SyncSubscriptionKind } from '../../types';
+
+const KIND_LABELS: Record<SyncSubscriptionKind, string> = {
+  tag: 'Tag',
+  category: 'Category',
+};
+
+/**
+ * Manage the tags and categories of team items pulled to this machine
+ */
+export function SyncSubscriptionsPanel() {
+  const [subscriptions, setSubscriptions] = useState<SyncSubscription[]>([]);
+  const [kind, setKind] = useState<SyncSubscriptionKind>('tag');
+  const [value, setValue] = useState('');
+
+  useEffect(() => {
+    loadSubscriptions();
+  }, []);
+
+  const loadSubscriptions = async () => {
+    try {
+      setSubscriptions(await window.sync.getSubscriptions());
+    } catch (error) {
+      console.error('Failed to load sync subscriptions:', error);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!value.trim()) return;
+
+    try {
+      await window.sync.addSubscription(kind, value.trim());
+      setValue('');
+      await loadSubscriptions();
+      toast.success(`Subscribed to ${KIND_LABELS[kind].toLowerCase()} '${value.trim()}'`);
+    } catch (error) {
+      console.error('Failed to add sync subscription:', error);
+      toast.error('Failed to add subscription');
+    }
+  };
+
+  const handleRemove = async (subscription: SyncSubscription) => {
+    try {
+      await window.sync.removeSubscription(subscription.id);
+      await loadSubscriptions();
+      toast.success(`Unsubscribed from ${KIND_LABELS[subscription.kind].toLowerCase()} '${subscription.value}'`);
+    } catch (error) {
+      console.error('Failed to remove sync subscription:', error);
+      toast.error('Failed to remove subscription');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {subscriptions.length === 0
+          ? 'All team items are synced. Subscribe to tags or categories to sync only those.'
+          : 'Only team items with these tags or categories are synced. Items you created are always synced.'}
+      </p>
+
+      {subscriptions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {subscriptions.map(subscription => (
+            <span
+              key={subscription.id}
+              className="flex items-center gap-1 px-2 py-1 rounded-md bg-secondary text-secondary-foreground text-sm"
+            >
+              <span className="text-xs text-muted-foreground">{KIND_LABELS[subscription.kind]}:</span>
+              {subscription.value}
+              <button
+                onClick={() => handleRemove(subscription)}
+                className="ml-1 hover:text-destructive cursor-pointer"
+                title="Unsubscribe"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {(Object.keys(KIND_LABELS) as SyncSubscriptionKind[]).map(option => (
+          <Button
+            key={option}
+            size="sm"
+            onClick={() => setKind(option)}
+            variant={kind === option ? 'default' : 'outline'}
+          >
+            {KIND_LABELS[option]}
+          </Button>
+        ))}
+        <Input
+          placeholder={kind === 'tag' ? 'Tag name...' : 'Category name...'}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAdd();
+          }}
+        />
+        <Button onClick={handleAdd} variant="secondary" disabled={!value.trim()}>
+          Subscribe
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '../ui/dialog';
+import { Button } from '../ui/button';
+import { RefreshCw, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { SyncDriftItem, SyncDriftKind, SyncRepairAction, SyncVerifyReport } from '../../types';
+
+interface SyncVerifyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRepaired?: () => void;
+}
+
+const KIND_LABELS: Record<SyncDriftKind, string> = {
+  missing_local: 'Missing locally',
+  missing_remote: 'Missing on server',
+  mismatch: 'Content differs',
+};
+
+// Pull by default unless the server has no copy to pull
+const DEFAULT_ACTIONS: Record<SyncDriftKind, SyncRepairAction> = {
+  missing_local: 'pull',
+  missing_remote: 'push',
+  mismatch: 'pull',
+};
+
+const driftKey = (item: SyncDriftItem) => `${item.item_type}:${item.item_id}`;
+
+/**
+ * Integrity check of team items between this machine and the team server,
+ * with a repair that re-pulls or re-pushes the selected items
+ */
+export function SyncVerifyDialog({ open, onOpenChange, onRepaired }: SyncVerifyDialogProps) {
+  const [report, setReport] = useState<SyncVerifyReport | null>(null);
+  const [actions, setActions] = useState<Record<string, SyncRepairAction>>({});
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [repairing, setRepairing] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      runVerify();
+    }
+  }, [open]);
+
+  const runVerify = async () => {
+    setLoading(true);
+    try {
+      const result: SyncVerifyReport = await window.sync.verify();
+      setReport(result);
+      setActions(Object.fromEntries(result.drift.map(item => [driftKey(item), DEFAULT_ACTIONS[item.kind]])));
+      setSelected(new Set(result.drift.map(driftKey)));
+    } catch (error) {
+      console.error('Failed to verify sync:', error);
+      toast.error('Failed to verify sync');
+      setReport(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleSelected = (key: string) => {
+    const next = new Set(selected);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    setSelected(next);
+  };
+
+  const handleRepair = async () => {
+    if (!report) return;
+
+    setRepairing(true);
+    try {
+      const requests = report.drift
+        .filter(item => selected.has(driftKey(item)))
+        .map(item => ({ item_type: item.item_type, item_id: item.item_id, action: actions[driftKey(item)] }));
+      const result = await window.sync.repair(requests);
+      if (result.errors.length === 0) {
+        toast.success(`Repaired ${result.repaired} items`);
+      } else {
+        toast.warning(`Repaired ${result.repaired} items, ${result.errors.length} failed`);
+      }
+      onRepaired?.();
+      await runVerify();
+    } catch (error) {
+      console.error('Failed to repair sync:', error);
+      toast.error('Failed to repair sync');
+    } finally {
+      setRepairing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5" />
+            <span>Verify Sync{report ? ` - ${report.backend} (${report.scope})` : ''}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex-1 flex items-center justify-center py-12 text-muted-foreground">
+            <RefreshCw className="w-5 h-5 mr-2 animate-spin" />
+            <p>Comparing team items...</p>
+          </div>
+        ) : !report ? (
+          <div className="flex-1 flex items-center justify-center py-12 text-muted-foreground">
+            <p>The verification could not be run</p>
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 space-y-4 overflow-y-auto">
+            <p className="text-sm text-muted-foreground">
+              {report.drift.length === 0
+                ? `All ${report.checked} team items match the server`
+                : `${report.drift.length} of ${report.checked} team items differ from the server`}
+            </p>
+
+            {report.errors.map((error, index) => (
+              <p key={index} className="text-xs text-destructive break-words">{error}</p>
+            ))}
+
+            <div className="divide-y divide-border">
+              {report.drift.map(item => {
+                const key = driftKey(item);
+                return (
+                  <div key={key} className="flex items-center gap-2 py-1.5 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(key)}
+                      onChange={() => toggleSelected(key)}
+                      className="cursor-pointer"
+                    />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-foreground truncate">
+                        <span className="capitalize text-muted-foreground">{item.item_type}</span>{' '}
+                        {item.title || item.item_id}
+                      </p>
+                      <p className="text-xs text-muted-foreground">{KIND_LABELS[item.kind]}</p>
+                    </div>
+                    {(['pull', 'push'] as SyncRepairAction[]).map(action => (
+                      <Button
+                        key={action}
+                        size="sm"
+                        variant={actions[key] === action ? 'default' : 'outline'}
+                        onClick={() => setActions({ ...actions, [key]: action })}
+                        disabled={action === 'push' && item.kind === 'missing_local'}
+                        className="capitalize"
+                      >
+                        {action}
+                      </Button>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={repairing}>
+            Close
+          </Button>
+          <Button variant="secondary" onClick={runVerify} disabled={loading || repairing}>
+            Verify Again
+          </Button>
+          <Button onClick={handleRepair} disabled={loading || repairing || selected.size === 0}>
+            {repairing ? 'Repairing...' : `Repair Selected (${selected.size})`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,14 @@
+import { cn } from '../../lib/utils';
+
+interface TagColorDotProps {
+  color?: string;
+  className?: string;
+}
+
+/**
+ * Small swatch of a tag's color; renders nothing for uncolored tags
+ */
+export function TagColorDot({ color, className }: TagColorDotProps) {
+  if (!color) return null;
+  return <span className={cn('inline-block w-3 h-3 rounded-full shrink-0', className)} style={{ backgroundColor: color }} />;
+}
@@ -0,0 +1,110 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Team, TeamMember } from '../../types';
+
+interface TeamMembersDialogProps {
+  team: Team | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Add and remove the members of a team
+ */
+export function TeamMembersDialog({ team, open, onOpenChange }: TeamMembersDialogProps) {
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [email, setEmail] = useState('');
+
+  useEffect(() => {
+    if (open && team) {
+      loadMembers();
+    }
+  }, [open, team]);
+
+  const loadMembers = async () => {
+    if (!team) return;
+    try {
+      setMembers(await window.teams.getMembers(team.id));
+    } catch (error) {
+      console.error('Failed to load team members:', error);
+      toast.error('Failed to load team members');
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!team || !email.trim()) return;
+    try {
+      await window.teams.addMember(team.id, email.trim());
+      setEmail('');
+      await loadMembers();
+      toast.success(`Added ${email.trim()} to ${team.name}`);
+    } catch (error) {
+      console.error('Failed to add team member:', error);
+      toast.error('Failed to add team member');
+    }
+  };
+
+  const handleRemove = async (member: TeamMember) => {
+    if (!team) return;
+    try {
+      await window.teams.removeMember(team.id, member.user_email);
+      await loadMembers();
+      toast.success(`Removed ${member.user_email} from ${team.name}`);
+    } catch (error) {
+      console.error('Failed to remove team member:', error);
+      toast.error('Failed to remove team member');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{team?.name} Members</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="max-h-[300px] overflow-y-auto divide-y divide-border">
+            {members.map(member => (
+              <div key={member.user_email} className="flex items-center gap-2 py-2 text-sm">
+                <span className="flex-1 truncate text-foreground">{member.user_email}</span>
+                <span className="text-xs text-muted-foreground capitalize">{member.role}</span>
+                <button
+                  onClick={() => handleRemove(member)}
+                  className="text-muted-foreground hover:text-destructive cursor-pointer"
+                  title="Remove from team"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <Input
+              placeholder="user@company.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleAdd();
+              }}
+            />
+            <Button onClick={handleAdd} variant="secondary" disabled={!email.trim()}>
+              Add
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
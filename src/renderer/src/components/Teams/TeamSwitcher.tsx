@@ -0,0 +1,138 @@
+import { useState, useEffect } from 'react';
+import { ChevronsUpDown, Plus, Users } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '../ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '../ui/dropdown-menu';
+import { toast } from 'sonner';
+import { Team } from '../../types';
+import { TeamMembersDialog } from './TeamMembersDialog';
+
+const DEFAULT_TEAM_ID = 'default';
+
+interface TeamSwitcherProps {
+  onTeamChange: (teamId: string) => void;
+}
+
+/**
+ * Sidebar dropdown for switching the active team, creating teams and managing members
+ */
+export function TeamSwitcher({ onTeamChange }: TeamSwitcherProps) {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [activeTeamId, setActiveTeamId] = useState(DEFAULT_TEAM_ID);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [membersOpen, setMembersOpen] = useState(false);
+  const [newTeamName, setNewTeamName] = useState('');
+
+  useEffect(() => {
+    loadTeams();
+  }, []);
+
+  const loadTeams = async () => {
+    try {
+      const [mine, active] = await Promise.all([window.teams.getMine(), window.teams.getActive()]);
+      setTeams(mine);
+      setActiveTeamId(active);
+    } catch (error) {
+      console.error('Failed to load teams:', error);
+    }
+  };
+
+  const handleSwitch = async (teamId: string) => {
+    if (teamId === activeTeamId) return;
+    try {
+      await window.teams.setActive(teamId);
+      setActiveTeamId(teamId);
+      onTeamChange(teamId);
+    } catch (error) {
+      console.error('Failed to switch team:', error);
+      toast.error('Failed to switch team');
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!newTeamName.trim()) return;
+    try {
+      const teamId: string = await window.teams.create(newTeamName.trim());
+      toast.success(`Created team ${newTeamName.trim()}`);
+      setNewTeamName('');
+      setCreateOpen(false);
+      await loadTeams();
+      onTeamChange(teamId);
+    } catch (error) {
+      console.error('Failed to create team:', error);
+      toast.error('Failed to create team. Are you signed in?');
+    }
+  };
+
+  const activeTeam = teams.find(team => team.id === activeTeamId) ?? null;
+
+  return (
+    <>
+      <DropdownMenu onOpenChange={(open) => open && loadTeams()}>
+        <DropdownMenuTrigger asChild>
+          <Button variant="secondary" size="sm" className="w-full justify-between mt-3">
+            <span className="flex items-center gap-2 truncate">
+              <Users className="w-4 h-4 shrink-0" />
+              <span className="truncate">{activeTeam?.name ?? 'Default Team'}</span>
+            </span>
+            <ChevronsUpDown className="w-4 h-4 shrink-0 opacity-50" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel>Teams</DropdownMenuLabel>
+          {teams.map(team => (
+            <DropdownMenuItem key={team.id} onClick={() => handleSwitch(team.id)}>
+              <span className="truncate">{team.name}</span>
+              {team.id === activeTeamId && <span className="ml-auto">✓</span>}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setCreateOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            <span>New team...</span>
+          </DropdownMenuItem>
+          {activeTeamId !== DEFAULT_TEAM_ID && (
+            <DropdownMenuItem onClick={() => setMembersOpen(true)}>
+              <Users className="mr-2 h-4 w-4" />
+              <span>Manage members...</span>
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>New Team</DialogTitle>
+          </DialogHeader>
+          <Input
+            placeholder="Team name"
+            value={newTeamName}
+            onChange={(e) => setNewTeamName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleCreate();
+            }}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={!newTeamName.trim()}>
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <TeamMembersDialog team={activeTeam} open={membersOpen} onOpenChange={setMembersOpen} />
+    </>
+  );
+}
@@ -0,0 +1,47 @@
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Line-based diff of two texts (longest common subsequence)
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText ? oldText.split(/\r?\n/) : [];
+  const newLines = newText ? newText.split(/\r?\n/) : [];
+
+  // lcs[i][j] = length of the LCS of oldLines[i..] and newLines[j..]
+  const lcs: number[][] = Array.from({ length: oldLines.length + 1 }, () =>
+    new Array(newLines.length + 1).fill(0)
+  );
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length && j < newLines.length) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: 'same', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: oldLines[i++] });
+    } else {
+      result.push({ type: 'added', text: newLines[j++] });
+    }
+  }
+  while (i < oldLines.length) {
+    result.push({ type: 'removed', text: oldLines[i++] });
+  }
+  while (j < newLines.length) {
+    result.push({ type: 'added', text: newLines[j++] });
+  }
+
+  return result;
+}
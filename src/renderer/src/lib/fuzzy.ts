@@ -0,0 +1,61 @@
+import { SearchTextPart } from '../types';
+
+export interface FuzzyMatch {
+  score: number; // Higher is better
+  indices: number[]; // Positions of the matched characters in the text
+}
+
+/**
+ * Match a query against text as an in-order subsequence of its characters,
+ * ignoring case and spaces in the query. Consecutive characters and matches
+ * at the start of words score higher. Returns null when the text does not match.
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  if (!needle) return null;
+
+  const haystack = text.toLowerCase();
+  const indices: number[] = [];
+  let score = 0;
+  let position = 0;
+
+  for (const char of needle) {
+    const index = haystack.indexOf(char, position);
+    if (index === -1) return null;
+
+    const previous = indices[indices.length - 1];
+    if (previous !== undefined && index === previous + 1) {
+      score += 5;
+    } else if (index === 0 || /[\s\-_./\\:]/.test(haystack[index - 1])) {
+      score += 3;
+    } else {
+      score += 1;
+    }
+    // Gaps cost a little, so tighter matches win
+    score -= Math.min(index - position, 3) * 0.1;
+
+    indices.push(index);
+    position = index + 1;
+  }
+
+  // Prefer shorter texts among otherwise equal matches
+  return { score: score - text.length * 0.01, indices };
+}
+
+/**
+ * Split text into plain and matched parts for rendering
+ */
+export function fuzzyHighlightParts(text: string, indices: number[]): SearchTextPart[] {
+  const matched = new Set(indices);
+  const parts: SearchTextPart[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const highlight = matched.has(i);
+    const last = parts[parts.length - 1];
+    if (last && last.highlight === highlight) {
+      last.text += text[i];
+    } else {
+      parts.push({ text: text[i], highlight });
+    }
+  }
+  return parts;
+}
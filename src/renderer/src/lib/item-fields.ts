@@ -0,0 +1,20 @@
+/**
+ * Display labels of item content fields
+ */
+export const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  url: 'URL',
+  favicon: 'Favicon',
+  category: 'Category',
+  tags: 'Tags',
+  executable_path: 'Executable Path',
+  parameters: 'Parameters',
+  icon: 'Icon',
+  script_content: 'Script Content',
+  script_type: 'Script Type',
+};
+
+/**
+ * Fields holding image data URLs
+ */
+export const IMAGE_FIELDS = new Set(['favicon', 'icon']);
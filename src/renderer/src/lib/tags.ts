@@ -0,0 +1,18 @@
+/**
+ * Split an item's comma-separated tags into tag names
+ */
+export function parseTags(tags?: string | null): string[] {
+  if (!tags) return [];
+  return tags.split(',').map(t => t.trim()).filter(t => t !== '');
+}
+
+/**
+ * Look up tag colors by case-insensitive tag name
+ */
+export function tagColorMap(tags: { name: string; color?: string }[]): Map<string, string> {
+  const colors = new Map<string, string>();
+  tags.forEach(tag => {
+    if (tag.color) colors.set(tag.name.toLowerCase(), tag.color);
+  });
+  return colors;
+}
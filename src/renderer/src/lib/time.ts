@@ -0,0 +1,21 @@
+/**
+ * Format a timestamp as "5m ago", "2h ago", ...
+ * Accepts Dates and "YYYY-MM-DD HH:MM:SS" / ISO strings.
+ */
+export function formatRelativeTime(timestamp: string | Date): string {
+  const date = timestamp instanceof Date ? timestamp : new Date(timestamp.replace(' ', 'T'));
+  const seconds = Math.floor((Date.now() - date.getTime()) / 1000);
+
+  if (seconds < 60) return 'just now';
+  if (seconds < 60 * 60) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 24 * 60 * 60) return `${Math.floor(seconds / 3600)}h ago`;
+  if (seconds < 7 * 24 * 60 * 60) return `${Math.floor(seconds / 86400)}d ago`;
+  return date.toLocaleDateString();
+}
+
+/**
+ * Parse a SQLite CURRENT_TIMESTAMP value, which is stored in UTC
+ */
+export function parseSqliteTimestamp(timestamp: string): Date {
+  return new Date(`${timestamp.replace(' ', 'T')}Z`);
+}
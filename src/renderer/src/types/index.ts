@@ -9,12 +9,15 @@ export interface Bookmark {
   tags?: string; // Comma-separated list
   is_team_level: number;
   is_personal: number;
+  team_id?: string;
   created_by?: string;
   updated_by?: string;
   created_at: string;
   updated_at: string;
   last_sync_at?: string;
   sync_hash?: string;
+  deleted_at?: string; // Set while the item is in the trash
+  deleted_by?: string;
 }
 
 export interface Executable {
@@ -27,12 +30,15 @@ export interface Executable {
   tags?: string; // Comma-separated list
   is_team_level: number;
   is_personal: number;
+  team_id?: string;
   created_by?: string;
   updated_by?: string;
   created_at: string;
   updated_at: string;
   last_sync_at?: string;
   sync_hash?: string;
+  deleted_at?: string; // Set while the item is in the trash
+  deleted_by?: string;
 }
 
 export interface Script {
@@ -45,12 +51,15 @@ export interface Script {
   tags?: string; // Comma-separated list
   is_team_level: number;
   is_personal: number;
+  team_id?: string;
   created_by?: string;
   updated_by?: string;
   created_at: string;
   updated_at: string;
   last_sync_at?: string;
   sync_hash?: string;
+  deleted_at?: string; // Set while the item is in the trash
+  deleted_by?: string;
 }
 
 export interface UserShare {
@@ -71,6 +80,244 @@ export interface SyncStatus {
     conflicts: number;
     errors: string[];
   } | null;
+  pendingChanges: number;
+  lastError: string | null;
+  nextSyncTime: Date | null;
+  awaitingApproval: boolean;
+}
+
+export type SyncPlanAction = 'pull' | 'push' | 'overwrite' | 'merge' | 'delete' | 'remove' | 'conflict';
+
+export interface SyncPlanItem {
+  item_type: ItemType;
+  item_id: string;
+  title?: string;
+  action: SyncPlanAction;
+  conflicting_fields?: string[];
+  message?: string;
+}
+
+export interface SyncPlan {
+  backend: string;
+  scope: string;
+  firstSync: boolean;
+  items: SyncPlanItem[];
+  counts: Record<SyncPlanAction, number>;
+  errors: string[];
+}
+
+/**
+ * A database migration that failed at startup, or a database too new to open
+ */
+export interface DatabaseStartupError {
+  message: string;
+  version: number;
+  description: string;
+  schemaVersion: number;
+  backupPath: string | null;
+  databasePath: string;
+  /** The database was written by a newer version of the app */
+  newerSchema: boolean;
+}
+
+export type SyncDriftKind = 'missing_local' | 'missing_remote' | 'mismatch';
+
+export interface SyncDriftItem {
+  item_type: ItemType;
+  item_id: string;
+  title?: string;
+  kind: SyncDriftKind;
+  local_hash: string | null;
+  remote_hash: string | null;
+}
+
+export interface SyncVerifyReport {
+  backend: string;
+  scope: string;
+  checked: number;
+  drift: SyncDriftItem[];
+  errors: string[];
+  verified_at: string;
+}
+
+export type SyncRepairAction = 'pull' | 'push';
+
+export interface SyncRepairRequest {
+  item_type: ItemType;
+  item_id: string;
+  action: SyncRepairAction;
+}
+
+export type SyncSubscriptionKind = 'tag' | 'category';
+
+export interface SyncSubscription {
+  id: string;
+  kind: SyncSubscriptionKind;
+  value: string;
+  created_at: string;
+}
+
+export type BackupKind = 'scheduled' | 'manual' | 'pre-migration' | 'pre-restore';
+
+export interface BackupInfo {
+  fileName: string;
+  kind: BackupKind;
+  schemaVersion: number;
+  createdAt: string; // ISO timestamp
+  size: number; // Bytes
+}
+
+export interface BackupPreview {
+  fileName: string;
+  schemaVersion: number;
+  bookmarks: number;
+  executables: number;
+  scripts: number;
+  trashed: number;
+  tags: number;
+}
+
+export interface BackupPolicy {
+  enabled: boolean;
+  intervalHours: number;
+  keepCount: number; // Automatic backups of each kind to keep
+}
+
+export interface SyncPolicy {
+  autoSync: boolean;
+  intervalMinutes: number;
+  maxBackoffMinutes: number;
+  syncOnReconnect: boolean;
+}
+
+export type ItemType = 'bookmark' | 'executable' | 'script';
+
+export type RevisionSource = 'local' | 'sync' | 'restore';
+
+export interface ItemRevision {
+  id: number;
+  item_type: ItemType;
+  item_id: string;
+  snapshot: Record<string, any>;
+  content_hash: string;
+  source: RevisionSource;
+  changed_by?: string;
+  created_at: string;
+}
+
+export interface TrashedItem {
+  item_type: ItemType;
+  item: Bookmark | Executable | Script;
+}
+
+export interface SearchTextPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  item_type: ItemType;
+  item_id: string;
+  score: number; // bm25 rank, lower is better
+  title: SearchTextPart[];
+  snippet_field: string | null; // Field the snippet was taken from, null when only the title matched
+  snippet: SearchTextPart[];
+  item: Bookmark | Executable | Script;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  created_by?: string;
+  created_at: string;
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  color?: string;
+  created_at: string;
+  bookmark_count: number;
+  executable_count: number;
+  script_count: number;
+}
+
+export type TeamRole = 'owner' | 'member';
+
+export interface TeamMember {
+  team_id: string;
+  user_email: string;
+  role: TeamRole;
+  added_by?: string;
+  added_at: string;
+}
+
+export type SyncPhase = 'started' | 'deletions' | 'outbox' | 'pull' | 'push' | 'cleanup' | 'completed' | 'failed';
+
+export interface SyncProgressEvent {
+  phase: SyncPhase;
+  itemType?: ItemType;
+  processed: number;
+  total: number;
+  errors: string[];
+}
+
+export type ConflictResolution = 'mine' | 'theirs' | 'merge';
+
+export interface SyncConflict {
+  id: string;
+  item_type: ItemType;
+  item_id: string;
+  title?: string;
+  conflicting_fields: string[];
+  base_snapshot: Record<string, any> | null;
+  local_snapshot: Record<string, any>;
+  remote_snapshot: Record<string, any>;
+  detected_at: string;
+  resolved_at?: string;
+  resolution?: ConflictResolution;
+}
+
+export type SyncActivityOperation = 'create' | 'update' | 'delete';
+
+export interface SyncActivity {
+  item_type: ItemType;
+  item_id: string;
+  title: string | null;
+  operation: SyncActivityOperation;
+  synced_by: string | null;
+  synced_at: string;
+}
+
+export interface SyncActivityFilter {
+  itemType?: ItemType;
+  operation?: SyncActivityOperation;
+  search?: string;
+  limit?: number;
+}
+
+export type SyncRunAction = 'pulled' | 'pushed' | 'merged' | 'conflict' | 'deleted' | 'removed' | 'error';
+
+export interface SyncRun {
+  id: string;
+  trigger: 'auto' | 'manual';
+  started_at: string;
+  finished_at?: string;
+  success?: boolean;
+  items_synced: number;
+  conflicts: number;
+  errors: string[];
+}
+
+export interface SyncRunItem {
+  id: number;
+  run_id: string;
+  item_type: ItemType;
+  item_id: string;
+  title?: string;
+  action: SyncRunAction;
+  message?: string;
+  recorded_at: string;
 }
 
 export interface ScriptExecutionResult {
@@ -95,5 +342,5 @@ export interface AzureADConfig {
   redirectUri: string;
 }
 
-export type ViewType = 'bookmarks' | 'executables' | 'scripts' | 'settings';
+export type ViewType = 'bookmarks' | 'executables' | 'scripts' | 'activity' | 'tags' | 'trash' | 'settings';
 
@@ -0,0 +1,138 @@
+import { useState, useEffect } from 'react';
+import { RefreshCw, Bookmark, Terminal, FileCode } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { ItemType, SyncActivity, SyncActivityOperation } from '../types';
+import { toast } from 'sonner';
+import { formatRelativeTime } from '../lib/time';
+
+const ITEM_TYPE_FILTERS: { value: ItemType | null; label: string }[] = [
+  { value: null, label: 'All' },
+  { value: 'script', label: 'Scripts' },
+  { value: 'executable', label: 'Executables' },
+  { value: 'bookmark', label: 'Bookmarks' },
+];
+
+const OPERATION_FILTERS: { value: SyncActivityOperation | null; label: string }[] = [
+  { value: null, label: 'All' },
+  { value: 'create', label: 'Created' },
+  { value: 'update', label: 'Updated' },
+  { value: 'delete', label: 'Deleted' },
+];
+
+const OPERATION_VERBS: Record<SyncActivityOperation, string> = {
+  create: 'created',
+  update: 'updated',
+  delete: 'deleted',
+};
+
+const ITEM_ICONS: Record<ItemType, typeof Bookmark> = {
+  bookmark: Bookmark,
+  executable: Terminal,
+  script: FileCode,
+};
+
+export function ActivityView() {
+  const [activity, setActivity] = useState<SyncActivity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [itemType, setItemType] = useState<ItemType | null>(null);
+  const [operation, setOperation] = useState<SyncActivityOperation | null>(null);
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    // Debounce typing in the search box
+    const timeout = setTimeout(loadActivity, 300);
+    return () => clearTimeout(timeout);
+  }, [itemType, operation, search]);
+
+  const loadActivity = async () => {
+    setLoading(true);
+    try {
+      const data: SyncActivity[] = await window.sync.getActivity({
+        itemType: itemType ?? undefined,
+        operation: operation ?? undefined,
+        search: search.trim() || undefined,
+      });
+      setActivity(data);
+    } catch (error) {
+      console.error('Failed to load team activity:', error);
+      toast.error('Failed to load team activity');
+      setActivity([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="p-8">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-3xl font-bold">Team Activity</h2>
+          <Button onClick={loadActivity} variant="secondary" size="sm" disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <div className="p-4 rounded-lg border border-border bg-card space-y-4">
+          <Input
+            placeholder="Filter by user or item title..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          <div className="flex flex-wrap gap-2">
+            {ITEM_TYPE_FILTERS.map(filter => (
+              <Button
+                key={filter.label}
+                size="sm"
+                onClick={() => setItemType(filter.value)}
+                variant={itemType === filter.value ? 'default' : 'outline'}
+              >
+                {filter.label}
+              </Button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {OPERATION_FILTERS.map(filter => (
+              <Button
+                key={filter.label}
+                size="sm"
+                onClick={() => setOperation(filter.value)}
+                variant={operation === filter.value ? 'default' : 'outline'}
+              >
+                {filter.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {/* Feed */}
+        {!loading && activity.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <p>No team activity yet</p>
+          </div>
+        ) : (
+          <ul className="rounded-lg border border-border bg-card divide-y divide-border">
+            {activity.map((entry, index) => {
+              const Icon = ITEM_ICONS[entry.item_type];
+              return (
+                <li key={`${entry.item_type}-${entry.item_id}-${entry.synced_at}-${index}`} className="flex items-center gap-3 px-4 py-3">
+                  <Icon className="w-4 h-4 shrink-0 text-muted-foreground" />
+                  <p className="flex-1 text-sm text-foreground">
+                    <span className="font-medium">{entry.synced_by || 'Someone'}</span>
+                    {' '}{OPERATION_VERBS[entry.operation]} {entry.item_type}{' '}
+                    <span className="font-medium">'{entry.title || entry.item_id}'</span>
+                  </p>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap" title={entry.synced_at}>
+                    {formatRelativeTime(entry.synced_at)}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,7 +7,10 @@ import { toast } from 'sonner';
 import { AddBookmarkDialog } from '../components/Bookmarks/AddBookmarkDialog';
 import { BookmarkCard } from '../components/Bookmarks/BookmarkCard';
 import { ConfirmDialog } from '../components/ConfirmDialog';
+import { RevisionHistoryDialog } from '../components/History/RevisionHistoryDialog';
+import { TagColorDot } from '../components/Tags/TagColorDot';
 import { cn } from '../lib/utils';
+import { parseTags, tagColorMap } from '../lib/tags';
 
 export function BookmarksView() {
   const { userEmail } = useAuth();
@@ -17,14 +20,22 @@ export function BookmarksView() {
   const [editingBookmark, setEditingBookmark] = useState<Bookmark | null>(null);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [bookmarkToDelete, setBookmarkToDelete] = useState<string | null>(null);
+  const [historyItem, setHistoryItem] = useState<Bookmark | null>(null);
   const [prefilledTag, setPrefilledTag] = useState<string | null>(null);
   const [draggingBookmark, setDraggingBookmark] = useState<Bookmark | null>(null);
   const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [tagColors, setTagColors] = useState<Map<string, string>>(new Map());
 
   useEffect(() => {
     loadBookmarks();
   }, [userEmail]);
 
+  useEffect(() => {
+    window.tags.getAll().then(tags => setTagColors(tagColorMap(tags))).catch(error => {
+      console.error('Failed to load tag colors:', error);
+    });
+  }, []);
+
   const loadBookmarks = async () => {
     try {
       const data = await window.bookmarks.getAll(userEmail || undefined);
@@ -64,8 +75,17 @@ export function BookmarksView() {
     if (!bookmarkToDelete) return;
 
     try {
-      await window.bookmarks.delete(bookmarkToDelete);
-      toast.success('Bookmark deleted successfully');
+      const id = bookmarkToDelete;
+      await window.bookmarks.delete(id);
+      toast.success('Bookmark moved to trash', {
+        action: {
+          label: 'Undo',
+          onClick: async () => {
+            await window.trash.restore('bookmark', id);
+            loadBookmarks();
+          },
+        },
+      });
       loadBookmarks();
     } catch (error) {
       console.error('Failed to delete bookmark:', error);
@@ -112,9 +132,7 @@ export function BookmarksView() {
     if (!draggingBookmark) return;
 
     // Get current tags as array
-    const currentTags = draggingBookmark.tags
-      ? draggingBookmark.tags.split(',').map(t => t.trim()).filter(t => t !== '')
-      : [];
+    const currentTags = parseTags(draggingBookmark.tags);
 
     // Determine the source tag (where the bookmark was dragged from)
     // If bookmark has only one tag, that's the source
@@ -176,8 +194,7 @@ export function BookmarksView() {
         untagged.push(bookmark);
       } else {
         // Split tags and add bookmark to each tag group
-        const tags = bookmark.tags.split(',').map(t => t.trim()).filter(t => t !== '');
-        tags.forEach(tag => {
+        parseTags(bookmark.tags).forEach(tag => {
           if (!groups[tag]) {
             groups[tag] = [];
           }
@@ -218,6 +235,7 @@ export function BookmarksView() {
                   onOpen={handleOpenBookmark}
                   onEdit={handleEdit}
                   onDelete={handleDelete}
+                  onShowHistory={setHistoryItem}
                   onDragStart={handleDragStart}
                   isDragging={draggingBookmark?.id === bookmark.id}
                 />
@@ -243,7 +261,10 @@ export function BookmarksView() {
         {/* Tagged Groups - Alphabetically sorted */}
         {tagNames.map((tag) => (
           <div key={tag}>
-            <h2 className="text-xl font-semibold mb-4 text-foreground capitalize">{tag}</h2>
+            <h2 className="text-xl font-semibold mb-4 text-foreground capitalize flex items-center gap-2">
+              <TagColorDot color={tagColors.get(tag.toLowerCase())} />
+              {tag}
+            </h2>
             <div
               className={cn(
                 "flex flex-wrap gap-6 p-4 rounded-lg border-2 border-dashed transition-all",
@@ -260,6 +281,7 @@ export function BookmarksView() {
                   onOpen={handleOpenBookmark}
                   onEdit={handleEdit}
                   onDelete={handleDelete}
+                  onShowHistory={setHistoryItem}
                   onDragStart={handleDragStart}
                   isDragging={draggingBookmark?.id === bookmark.id}
                 />
@@ -288,11 +310,20 @@ export function BookmarksView() {
           prefilledTag={prefilledTag}
         />
 
+        <RevisionHistoryDialog
+          open={historyItem !== null}
+          onOpenChange={(open) => !open && setHistoryItem(null)}
+          itemType="bookmark"
+          itemId={historyItem?.id ?? null}
+          itemTitle={historyItem?.title}
+          onRestored={loadBookmarks}
+        />
+
         <ConfirmDialog
           open={deleteConfirmOpen}
           onOpenChange={setDeleteConfirmOpen}
           title="Remove bookmark?"
-          description="This bookmark will be permanently deleted."
+          description="This bookmark will be moved to the trash, where it can be restored."
           onConfirm={confirmDelete}
           confirmText="Remove"
           cancelText="Cancel"
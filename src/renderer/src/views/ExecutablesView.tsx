@@ -6,7 +6,10 @@ import { toast } from 'sonner';
 import { AddExecutableDialog } from '../components/Executables/AddExecutableDialog';
 import { ExecutableCard } from '../components/Executables/ExecutableCard';
 import { ConfirmDialog } from '../components/ConfirmDialog';
+import { RevisionHistoryDialog } from '../components/History/RevisionHistoryDialog';
+import { TagColorDot } from '../components/Tags/TagColorDot';
 import { cn } from '../lib/utils';
+import { parseTags, tagColorMap } from '../lib/tags';
 
 export function ExecutablesView() {
   const { userEmail } = useAuth();
@@ -16,14 +19,22 @@ export function ExecutablesView() {
   const [editingExecutable, setEditingExecutable] = useState<Executable | null>(null);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [executableToDelete, setExecutableToDelete] = useState<string | null>(null);
+  const [historyItem, setHistoryItem] = useState<Executable | null>(null);
   const [prefilledTag, setPrefilledTag] = useState<string | null>(null);
   const [draggingExecutable, setDraggingExecutable] = useState<Executable | null>(null);
   const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [tagColors, setTagColors] = useState<Map<string, string>>(new Map());
 
   useEffect(() => {
     loadExecutables();
   }, [userEmail]);
 
+  useEffect(() => {
+    window.tags.getAll().then(tags => setTagColors(tagColorMap(tags))).catch(error => {
+      console.error('Failed to load tag colors:', error);
+    });
+  }, []);
+
   const loadExecutables = async () => {
     try {
       const data = await window.executables.getAll(userEmail || undefined);
@@ -65,8 +76,17 @@ export function ExecutablesView() {
     if (!executableToDelete) return;
 
     try {
-      await window.executables.delete(executableToDelete);
-      toast.success('Executable deleted successfully');
+      const id = executableToDelete;
+      await window.executables.delete(id);
+      toast.success('Executable moved to trash', {
+        action: {
+          label: 'Undo',
+          onClick: async () => {
+            await window.trash.restore('executable', id);
+            loadExecutables();
+          },
+        },
+      });
       loadExecutables();
     } catch (error) {
       console.error('Failed to delete executable:', error);
@@ -112,9 +132,7 @@ export function ExecutablesView() {
 
     if (!draggingExecutable) return;
 
-    const currentTags = draggingExecutable.tags
-      ? draggingExecutable.tags.split(',').map(t => t.trim()).filter(t => t !== '')
-      : [];
+    const currentTags = parseTags(draggingExecutable.tags);
 
     let newTags: string[];
 
@@ -161,8 +179,7 @@ export function ExecutablesView() {
       if (!executable.tags || executable.tags.trim() === '') {
         untagged.push(executable);
       } else {
-        const tags = executable.tags.split(',').map(t => t.trim()).filter(t => t !== '');
-        tags.forEach(tag => {
+        parseTags(executable.tags).forEach(tag => {
           if (!groups[tag]) {
             groups[tag] = [];
           }
@@ -203,6 +220,7 @@ export function ExecutablesView() {
                 onLaunch={handleLaunch}
                 onEdit={handleEdit}
                 onDelete={handleDelete}
+                onShowHistory={setHistoryItem}
                 onDragStart={handleDragStart}
                 isDragging={draggingExecutable?.id === executable.id}
               />
@@ -232,7 +250,10 @@ export function ExecutablesView() {
           
           return (
             <div key={tag}>
-              <h2 className="text-xl font-semibold mb-4 text-foreground capitalize">{tag}</h2>
+              <h2 className="text-xl font-semibold mb-4 text-foreground capitalize flex items-center gap-2">
+              <TagColorDot color={tagColors.get(tag.toLowerCase())} />
+              {tag}
+            </h2>
               <div
                 className={cn(
                   "flex flex-wrap gap-6 p-4 rounded-lg border-2 border-dashed transition-all",
@@ -249,6 +270,7 @@ export function ExecutablesView() {
                     onLaunch={handleLaunch}
                     onEdit={handleEdit}
                     onDelete={handleDelete}
+                    onShowHistory={setHistoryItem}
                     onDragStart={handleDragStart}
                     isDragging={draggingExecutable?.id === executable.id}
                   />
@@ -278,11 +300,20 @@ export function ExecutablesView() {
           prefilledTag={prefilledTag}
         />
 
+        <RevisionHistoryDialog
+          open={historyItem !== null}
+          onOpenChange={(open) => !open && setHistoryItem(null)}
+          itemType="executable"
+          itemId={historyItem?.id ?? null}
+          itemTitle={historyItem?.title}
+          onRestored={loadExecutables}
+        />
+
         <ConfirmDialog
           open={deleteConfirmOpen}
           onOpenChange={setDeleteConfirmOpen}
           title="Remove executable?"
-          description="This executable will be permanently deleted."
+          description="This executable will be moved to the trash, where it can be restored."
           onConfirm={confirmDelete}
           confirmText="Remove"
           cancelText="Cancel"
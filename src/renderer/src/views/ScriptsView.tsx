@@ -7,7 +7,10 @@ import { AddScriptDialog } from '../components/Scripts/AddScriptDialog';
 import { ScriptCard } from '../components/Scripts/ScriptCard';
 import { ScriptResultDialog } from '../components/Scripts/ScriptResultDialog';
 import { ConfirmDialog } from '../components/ConfirmDialog';
+import { RevisionHistoryDialog } from '../components/History/RevisionHistoryDialog';
+import { TagColorDot } from '../components/Tags/TagColorDot';
 import { cn } from '../lib/utils';
+import { parseTags, tagColorMap } from '../lib/tags';
 
 export function ScriptsView() {
   const { userEmail } = useAuth();
@@ -17,17 +20,25 @@ export function ScriptsView() {
   const [editingScript, setEditingScript] = useState<Script | null>(null);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [scriptToDelete, setScriptToDelete] = useState<string | null>(null);
+  const [historyItem, setHistoryItem] = useState<Script | null>(null);
   const [prefilledTag, setPrefilledTag] = useState<string | null>(null);
   const [draggingScript, setDraggingScript] = useState<Script | null>(null);
   const [dropTarget, setDropTarget] = useState<string | null>(null);
   const [resultDialogOpen, setResultDialogOpen] = useState(false);
   const [executionResult, setExecutionResult] = useState<ScriptExecutionResult | null>(null);
   const [executedScriptTitle, setExecutedScriptTitle] = useState<string>('');
+  const [tagColors, setTagColors] = useState<Map<string, string>>(new Map());
 
   useEffect(() => {
     loadScripts();
   }, [userEmail]);
 
+  useEffect(() => {
+    window.tags.getAll().then(tags => setTagColors(tagColorMap(tags))).catch(error => {
+      console.error('Failed to load tag colors:', error);
+    });
+  }, []);
+
   const loadScripts = async () => {
     try {
       const data = await window.scripts.getAll(userEmail || undefined);
@@ -80,8 +91,17 @@ export function ScriptsView() {
     if (!scriptToDelete) return;
 
     try {
-      await window.scripts.delete(scriptToDelete);
-      toast.success('Script deleted successfully');
+      const id = scriptToDelete;
+      await window.scripts.delete(id);
+      toast.success('Script moved to trash', {
+        action: {
+          label: 'Undo',
+          onClick: async () => {
+            await window.trash.restore('script', id);
+            loadScripts();
+          },
+        },
+      });
       loadScripts();
     } catch (error) {
       console.error('Failed to delete script:', error);
@@ -124,7 +144,7 @@ export function ScriptsView() {
     if (!draggingScript) return;
 
     try {
-      const currentTags = draggingScript.tags ? draggingScript.tags.split(',').map(t => t.trim()) : [];
+      const currentTags = parseTags(draggingScript.tags);
       const sourceTag = currentTags[0] || null;
 
       // Don't update if dropped on the same section
@@ -171,9 +191,7 @@ export function ScriptsView() {
   // Get unique tags
   const allTags = new Set<string>();
   taggedScripts.forEach(script => {
-    if (script.tags) {
-      script.tags.split(',').forEach(tag => allTags.add(tag.trim()));
-    }
+    parseTags(script.tags).forEach(tag => allTags.add(tag));
   });
   const sortedTags = Array.from(allTags).sort();
 
@@ -199,6 +217,7 @@ export function ScriptsView() {
                 onExecute={handleExecute}
                 onEdit={handleEdit}
                 onDelete={handleDelete}
+                onShowHistory={setHistoryItem}
                 onDragStart={handleDragStart}
               />
             ))}
@@ -229,16 +248,17 @@ export function ScriptsView() {
 
         {/* Tagged Sections */}
         {sortedTags.map(tag => {
-          const scriptsForTag = taggedScripts.filter(s => 
-            s.tags?.split(',').map(t => t.trim()).includes(tag)
-          );
+          const scriptsForTag = taggedScripts.filter(s => parseTags(s.tags).includes(tag));
 
           // Only render if there are scripts with this tag
           if (scriptsForTag.length === 0) return null;
 
           return (
             <div key={tag}>
-              <h2 className="text-xl font-semibold mb-4 text-foreground capitalize">{tag}</h2>
+              <h2 className="text-xl font-semibold mb-4 text-foreground capitalize flex items-center gap-2">
+                <TagColorDot color={tagColors.get(tag.toLowerCase())} />
+                {tag}
+              </h2>
               <div
                 onDragOver={(e) => handleDragOverSection(e, tag)}
                 onDragLeave={handleDragLeaveSection}
@@ -255,6 +275,7 @@ export function ScriptsView() {
                     onExecute={handleExecute}
                     onEdit={handleEdit}
                     onDelete={handleDelete}
+                    onShowHistory={setHistoryItem}
                     onDragStart={handleDragStart}
                   />
                 ))}
@@ -294,11 +315,20 @@ export function ScriptsView() {
           scriptTitle={executedScriptTitle}
         />
 
+        <RevisionHistoryDialog
+          open={historyItem !== null}
+          onOpenChange={(open) => !open && setHistoryItem(null)}
+          itemType="script"
+          itemId={historyItem?.id ?? null}
+          itemTitle={historyItem?.title}
+          onRestored={loadScripts}
+        />
+
         <ConfirmDialog
           open={deleteConfirmOpen}
           onOpenChange={setDeleteConfirmOpen}
           title="Remove script?"
-          description="This script will be permanently deleted."
+          description="This script will be moved to the trash, where it can be restored."
           onConfirm={confirmDelete}
           confirmText="Remove"
           cancelText="Cancel"
@@ -1,10 +1,24 @@
 import { useState, useEffect } from 'react';
 import { Button } from '../components/ui/button';
 import { toast } from 'sonner';
+import { BackupPanel } from '../components/Backups/BackupPanel';
+import { ConflictReviewDialog } from '../components/Sync/ConflictReviewDialog';
+import { PersonalRoamingPanel } from '../components/Sync/PersonalRoamingPanel';
+import { SyncHistoryPanel } from '../components/Sync/SyncHistoryPanel';
+import { SyncPolicyPanel } from '../components/Sync/SyncPolicyPanel';
+import { SyncPreviewDialog } from '../components/Sync/SyncPreviewDialog';
+import { SyncSubscriptionsPanel } from '../components/Sync/SyncSubscriptionsPanel';
+import { SyncVerifyDialog } from '../components/Sync/SyncVerifyDialog';
 
 export function SettingsView() {
   const [env, setEnv] = useState<'dev' | 'prod'>('dev');
   const [mysqlConnected, setMysqlConnected] = useState(false);
+  const [conflictCount, setConflictCount] = useState(0);
+  const [conflictDialogOpen, setConflictDialogOpen] = useState(false);
+  const [previewDialogOpen, setPreviewDialogOpen] = useState(false);
+  const [verifyDialogOpen, setVerifyDialogOpen] = useState(false);
+  const [syncBackend, setSyncBackend] = useState<'mysql' | 'folder'>('mysql');
+  const [syncFolderPath, setSyncFolderPath] = useState<string | null>(null);
 
   useEffect(() => {
     loadSettings();
@@ -18,11 +32,24 @@ export function SettingsView() {
       }
       const connected = await window.mysql.isConnected();
       setMysqlConnected(connected);
+      const backendConfig = await window.sync.getBackendConfig();
+      setSyncBackend(backendConfig.type);
+      setSyncFolderPath(backendConfig.folderPath);
+      await loadConflictCount();
     } catch (error) {
       console.error('Failed to load settings:', error);
     }
   };
 
+  const loadConflictCount = async () => {
+    try {
+      const conflicts = await window.sync.getConflicts();
+      setConflictCount(conflicts.length);
+    } catch (error) {
+      console.error('Failed to load conflicts:', error);
+    }
+  };
+
   const handleTestConnection = async () => {
     try {
       const result = await window.mysql.testConnection();
@@ -46,21 +73,77 @@ export function SettingsView() {
       await window.database.setSetting('mysql_env', newEnv);
       toast.success(`Switched to ${newEnv} environment`);
       loadSettings();
+      // Automatic sync waits until the first sync with the new server is approved
+      setPreviewDialogOpen(true);
     } catch (error) {
       console.error('Failed to switch environment:', error);
       toast.error('Failed to switch environment. Please configure connection details first.');
     }
   };
 
+  const handleSwitchBackend = async (type: 'mysql' | 'folder') => {
+    try {
+      let folderPath = syncFolderPath;
+      if (type === 'folder' && !folderPath) {
+        folderPath = await window.system.pickFolder();
+        if (!folderPath) return;
+      }
+      await window.sync.setBackendConfig(type, folderPath);
+      setSyncBackend(type);
+      setSyncFolderPath(folderPath);
+      toast.success(`Syncing via ${type === 'mysql' ? 'MySQL' : 'shared folder'}`);
+    } catch (error) {
+      console.error('Failed to switch sync backend:', error);
+      toast.error('Failed to switch sync backend');
+    }
+  };
+
+  const handlePickSyncFolder = async () => {
+    try {
+      const folderPath = await window.system.pickFolder();
+      if (!folderPath) return;
+      await window.sync.setBackendConfig('folder', folderPath);
+      setSyncBackend('folder');
+      setSyncFolderPath(folderPath);
+      toast.success('Shared sync folder updated');
+    } catch (error) {
+      console.error('Failed to set sync folder:', error);
+      toast.error('Failed to set sync folder');
+    }
+  };
+
+  const handleTestBackend = async () => {
+    try {
+      const result = await window.sync.testBackend();
+      if (result) {
+        toast.success('Sync backend is reachable');
+      } else {
+        toast.error('Sync backend is not reachable');
+      }
+    } catch (error) {
+      console.error('Sync backend test failed:', error);
+      toast.error('Sync backend test failed');
+    }
+  };
+
   const handleManualSync = async () => {
     try {
+      const status = await window.sync.getStatus();
+      if (status.awaitingApproval) {
+        setPreviewDialogOpen(true);
+        return;
+      }
+
       toast.info('Starting manual sync...');
       const result = await window.sync.manual();
-      if (result?.success) {
+      if (result?.success && result.conflicts > 0) {
+        toast.warning(`Sync completed: ${result.itemsSynced} items synced, ${result.conflicts} conflicts need review`);
+      } else if (result?.success) {
         toast.success(`Sync completed: ${result.itemsSynced} items synced`);
       } else {
         toast.warning(`Sync completed with ${result?.errors?.length || 0} errors`);
       }
+      loadConflictCount();
     } catch (error) {
       console.error('Sync failed:', error);
       toast.error('Sync failed');
@@ -126,11 +209,84 @@ export function SettingsView() {
           <h3 className="text-xl font-semibold text-foreground">Synchronization</h3>
           <div className="p-4 rounded-lg border border-border bg-card space-y-4">
             <p className="text-sm text-foreground">
-              Sync team-level items with the MySQL database
+              Sync team-level items with a MySQL database or a shared network folder
             </p>
-            <Button onClick={handleManualSync} variant="default">
-              Manual Sync Now
-            </Button>
+            <div className="flex gap-4">
+              <Button
+                onClick={() => handleSwitchBackend('mysql')}
+                variant={syncBackend === 'mysql' ? 'default' : 'outline'}
+              >
+                MySQL
+              </Button>
+              <Button
+                onClick={() => handleSwitchBackend('folder')}
+                variant={syncBackend === 'folder' ? 'default' : 'outline'}
+              >
+                Shared Folder
+              </Button>
+            </div>
+            {syncBackend === 'folder' && (
+              <div className="flex items-center gap-2">
+                <p className="flex-1 text-sm text-muted-foreground truncate">
+                  {syncFolderPath || 'No folder selected'}
+                </p>
+                <Button onClick={handlePickSyncFolder} variant="secondary" size="sm">
+                  Choose Folder
+                </Button>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button onClick={handleManualSync} variant="default">
+                Manual Sync Now
+              </Button>
+              <Button onClick={() => setPreviewDialogOpen(true)} variant="secondary">
+                Preview Sync
+              </Button>
+              <Button onClick={() => setVerifyDialogOpen(true)} variant="secondary">
+                Verify Sync
+              </Button>
+              <Button onClick={handleTestBackend} variant="secondary">
+                Test Backend
+              </Button>
+              <Button
+                onClick={() => setConflictDialogOpen(true)}
+                variant={conflictCount > 0 ? 'destructive' : 'secondary'}
+              >
+                Review Conflicts ({conflictCount})
+              </Button>
+            </div>
+          </div>
+        </section>
+
+        {/* Sync Subscriptions */}
+        <section className="space-y-4">
+          <h3 className="text-xl font-semibold text-foreground">Sync Subscriptions</h3>
+          <div className="p-4 rounded-lg border border-border bg-card">
+            <SyncSubscriptionsPanel />
+          </div>
+        </section>
+
+        {/* Personal Roaming */}
+        <section className="space-y-4">
+          <h3 className="text-xl font-semibold text-foreground">Personal Roaming</h3>
+          <div className="p-4 rounded-lg border border-border bg-card">
+            <PersonalRoamingPanel />
+          </div>
+        </section>
+
+        {/* Sync Schedule */}
+        <section className="space-y-4">
+          <h3 className="text-xl font-semibold text-foreground">Sync Schedule</h3>
+          <div className="p-4 rounded-lg border border-border bg-card">
+            <SyncPolicyPanel />
+          </div>
+        </section>
+
+        {/* Sync History */}
+        <section className="space-y-4">
+          <h3 className="text-xl font-semibold text-foreground">Sync History</h3>
+          <div className="p-4 rounded-lg border border-border bg-card">
+            <SyncHistoryPanel />
           </div>
         </section>
 
@@ -147,6 +303,14 @@ export function SettingsView() {
           </div>
         </section>
 
+        {/* Backups */}
+        <section className="space-y-4">
+          <h3 className="text-xl font-semibold text-foreground">Backups</h3>
+          <div className="p-4 rounded-lg border border-border bg-card">
+            <BackupPanel />
+          </div>
+        </section>
+
         {/* Database Info */}
         <section className="space-y-4">
           <h3 className="text-xl font-semibold text-foreground">Database Information</h3>
@@ -174,6 +338,24 @@ export function SettingsView() {
           </div>
         </section>
       </div>
+
+      <ConflictReviewDialog
+        open={conflictDialogOpen}
+        onOpenChange={setConflictDialogOpen}
+        onResolved={loadConflictCount}
+      />
+
+      <SyncPreviewDialog
+        open={previewDialogOpen}
+        onOpenChange={setPreviewDialogOpen}
+        onSynced={loadConflictCount}
+      />
+
+      <SyncVerifyDialog
+        open={verifyDialogOpen}
+        onOpenChange={setVerifyDialogOpen}
+        onRepaired={loadConflictCount}
+      />
     </div>
   );
 }
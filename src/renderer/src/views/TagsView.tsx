@@ -0,0 +1,269 @@
+import { useState, useEffect } from 'react';
+import { RefreshCw, Pencil, Trash2, Merge, X } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '../components/ui/dialog';
+import { ConfirmDialog } from '../components/ConfirmDialog';
+import { TagColorDot } from '../components/Tags/TagColorDot';
+import { Tag } from '../types';
+import { toast } from 'sonner';
+
+const DEFAULT_TAG_COLOR = '#3b82f6';
+
+function usageSummary(tag: Tag): string {
+  const parts = [
+    [tag.bookmark_count, 'bookmark'],
+    [tag.executable_count, 'executable'],
+    [tag.script_count, 'script'],
+  ] as const;
+  const used = parts.filter(([count]) => count > 0).map(([count, label]) => `${count} ${label}${count === 1 ? '' : 's'}`);
+  return used.length > 0 ? used.join(' · ') : 'Not used';
+}
+
+/**
+ * Tag Manager: rename, merge, recolor and delete tags across bookmarks,
+ * executables and scripts
+ */
+export function TagsView() {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [renamingTag, setRenamingTag] = useState<Tag | null>(null);
+  const [newName, setNewName] = useState('');
+  const [mergeOpen, setMergeOpen] = useState(false);
+  const [mergeTargetId, setMergeTargetId] = useState<string | null>(null);
+  const [tagToDelete, setTagToDelete] = useState<Tag | null>(null);
+
+  useEffect(() => {
+    loadTags();
+  }, []);
+
+  const loadTags = async () => {
+    setLoading(true);
+    try {
+      const data: Tag[] = await window.tags.getAll();
+      setTags(data);
+      setSelected(new Set([...selected].filter(id => data.some(tag => tag.id === id))));
+    } catch (error) {
+      console.error('Failed to load tags:', error);
+      toast.error('Failed to load tags');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelected(next);
+  };
+
+  const openRename = (tag: Tag) => {
+    setRenamingTag(tag);
+    setNewName(tag.name);
+  };
+
+  const handleRename = async () => {
+    if (!renamingTag || !newName.trim()) return;
+
+    const clash = tags.find(tag => tag.id !== renamingTag.id && tag.name.toLowerCase() === newName.trim().toLowerCase());
+    if (clash) {
+      toast.error(`A tag named "${clash.name}" already exists - merge the tags instead`);
+      return;
+    }
+
+    try {
+      const changed = await window.tags.rename(renamingTag.id, newName.trim());
+      toast.success(`Renamed tag on ${changed} items`);
+      setRenamingTag(null);
+      await loadTags();
+    } catch (error) {
+      console.error('Failed to rename tag:', error);
+      toast.error('Failed to rename tag');
+    }
+  };
+
+  const openMerge = () => {
+    setMergeTargetId([...selected][0] ?? null);
+    setMergeOpen(true);
+  };
+
+  const handleMerge = async () => {
+    if (!mergeTargetId) return;
+    try {
+      const changed = await window.tags.merge([...selected], mergeTargetId);
+      toast.success(`Merged ${selected.size} tags on ${changed} items`);
+      setMergeOpen(false);
+      setSelected(new Set());
+      await loadTags();
+    } catch (error) {
+      console.error('Failed to merge tags:', error);
+      toast.error('Failed to merge tags');
+    }
+  };
+
+  const handleColor = async (tag: Tag, color: string | null) => {
+    try {
+      await window.tags.setColor(tag.id, color);
+      setTags(tags.map(t => (t.id === tag.id ? { ...t, color: color ?? undefined } : t)));
+    } catch (error) {
+      console.error('Failed to set tag color:', error);
+      toast.error('Failed to set tag color');
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!tagToDelete) return;
+    try {
+      const changed = await window.tags.delete(tagToDelete.id);
+      toast.success(`Deleted tag ${tagToDelete.name} from ${changed} items`);
+      await loadTags();
+    } catch (error) {
+      console.error('Failed to delete tag:', error);
+      toast.error('Failed to delete tag');
+    } finally {
+      setTagToDelete(null);
+    }
+  };
+
+  const visibleTags = tags.filter(tag => tag.name.toLowerCase().includes(filter.trim().toLowerCase()));
+  const selectedTags = tags.filter(tag => selected.has(tag.id));
+
+  return (
+    <div className="p-8">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-3xl font-bold">Tags</h2>
+          <div className="flex gap-2">
+            <Button onClick={openMerge} variant="secondary" size="sm" disabled={selected.size < 2}>
+              <Merge className="w-4 h-4 mr-2" />
+              Merge Selected ({selected.size})
+            </Button>
+            <Button onClick={loadTags} variant="secondary" size="sm" disabled={loading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        <Input
+          placeholder="Filter tags..."
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+        />
+
+        {!loading && visibleTags.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <p>{tags.length === 0 ? 'No tags yet' : 'No tags match the filter'}</p>
+          </div>
+        ) : (
+          <ul className="rounded-lg border border-border bg-card divide-y divide-border">
+            {visibleTags.map(tag => (
+              <li key={tag.id} className="flex items-center gap-3 px-4 py-3">
+                <input
+                  type="checkbox"
+                  checked={selected.has(tag.id)}
+                  onChange={() => toggleSelected(tag.id)}
+                  className="cursor-pointer"
+                />
+                <input
+                  type="color"
+                  value={tag.color ?? DEFAULT_TAG_COLOR}
+                  onChange={(e) => handleColor(tag, e.target.value)}
+                  className="w-6 h-6 cursor-pointer bg-transparent border-0 p-0"
+                  title="Tag color"
+                />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium text-foreground truncate">{tag.name}</p>
+                  <p className="text-xs text-muted-foreground">{usageSummary(tag)}</p>
+                </div>
+                {tag.color && (
+                  <Button size="sm" variant="ghost" onClick={() => handleColor(tag, null)} title="Clear color">
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button size="sm" variant="ghost" onClick={() => openRename(tag)} title="Rename">
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setTagToDelete(tag)} title="Delete">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <Dialog open={renamingTag !== null} onOpenChange={(open) => !open && setRenamingTag(null)}>
+          <DialogContent className="sm:max-w-[400px]">
+            <DialogHeader>
+              <DialogTitle>Rename Tag</DialogTitle>
+            </DialogHeader>
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value.replace(/,/g, ''))}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleRename();
+              }}
+            />
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setRenamingTag(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleRename} disabled={!newName.trim()}>
+                Rename
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={mergeOpen} onOpenChange={setMergeOpen}>
+          <DialogContent className="sm:max-w-[400px]">
+            <DialogHeader>
+              <DialogTitle>Merge Tags</DialogTitle>
+            </DialogHeader>
+            <p className="text-sm text-muted-foreground">
+              Items tagged with any of the selected tags get the tag you keep; the others are deleted.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {selectedTags.map(tag => (
+                <Button
+                  key={tag.id}
+                  size="sm"
+                  variant={mergeTargetId === tag.id ? 'default' : 'outline'}
+                  onClick={() => setMergeTargetId(tag.id)}
+                >
+                  <TagColorDot color={tag.color} className="mr-2" />
+                  {tag.name}
+                </Button>
+              ))}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setMergeOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleMerge} disabled={!mergeTargetId}>
+                Merge
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <ConfirmDialog
+          open={tagToDelete !== null}
+          onOpenChange={(open) => !open && setTagToDelete(null)}
+          title={`Delete tag ${tagToDelete?.name ?? ''}?`}
+          description="The tag will be removed from every bookmark, executable and script that has it."
+          onConfirm={confirmDelete}
+          confirmText="Delete"
+          cancelText="Cancel"
+          variant="destructive"
+        />
+      </div>
+    </div>
+  );
+}
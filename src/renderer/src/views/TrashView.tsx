@@ -0,0 +1,213 @@
+import { useState, useEffect } from 'react';
+import { RefreshCw, RotateCcw, Trash2, Bookmark as BookmarkIcon, Terminal, FileCode, Users } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { ConfirmDialog } from '../components/ConfirmDialog';
+import { ItemType, TrashedItem } from '../types';
+import { formatRelativeTime, parseSqliteTimestamp } from '../lib/time';
+import { toast } from 'sonner';
+
+const ITEM_ICONS: Record<ItemType, typeof BookmarkIcon> = {
+  bookmark: BookmarkIcon,
+  executable: Terminal,
+  script: FileCode,
+};
+
+const ITEM_LABELS: Record<ItemType, string> = {
+  bookmark: 'Bookmark',
+  executable: 'Executable',
+  script: 'Script',
+};
+
+/**
+ * Trash: deleted bookmarks, executables and scripts, which can be restored
+ * or deleted for good
+ */
+export function TrashView() {
+  const [items, setItems] = useState<TrashedItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [retentionDays, setRetentionDays] = useState('');
+  const [itemToPurge, setItemToPurge] = useState<TrashedItem | null>(null);
+  const [emptyConfirmOpen, setEmptyConfirmOpen] = useState(false);
+
+  useEffect(() => {
+    loadItems();
+    loadRetention();
+  }, []);
+
+  const loadItems = async () => {
+    setLoading(true);
+    try {
+      const data: TrashedItem[] = await window.trash.getAll();
+      setItems(data);
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+      toast.error('Failed to load trash');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadRetention = async () => {
+    try {
+      const days = await window.trash.getRetentionDays();
+      setRetentionDays(String(days));
+    } catch (error) {
+      console.error('Failed to load trash retention:', error);
+    }
+  };
+
+  const handleSaveRetention = async () => {
+    const days = Number(retentionDays);
+    if (!Number.isInteger(days) || days < 0) {
+      toast.error('Enter the number of days as a whole number');
+      return;
+    }
+
+    try {
+      await window.trash.setRetentionDays(days);
+      toast.success(days === 0 ? 'Items stay in the trash until it is emptied' : `Items are deleted after ${days} days in the trash`);
+      await loadItems();
+    } catch (error) {
+      console.error('Failed to save trash retention:', error);
+      toast.error('Failed to save trash retention');
+    }
+  };
+
+  const handleRestore = async ({ item_type, item }: TrashedItem) => {
+    try {
+      await window.trash.restore(item_type, item.id);
+      toast.success(`Restored ${item.title}`);
+      await loadItems();
+    } catch (error) {
+      console.error('Failed to restore item:', error);
+      toast.error('Failed to restore item');
+    }
+  };
+
+  const confirmPurge = async () => {
+    if (!itemToPurge) return;
+    try {
+      await window.trash.purge(itemToPurge.item_type, itemToPurge.item.id);
+      toast.success(`Deleted ${itemToPurge.item.title} permanently`);
+      await loadItems();
+    } catch (error) {
+      console.error('Failed to delete item:', error);
+      toast.error('Failed to delete item');
+    } finally {
+      setItemToPurge(null);
+    }
+  };
+
+  const confirmEmpty = async () => {
+    try {
+      const purged = await window.trash.empty();
+      toast.success(`Deleted ${purged} items permanently`);
+      await loadItems();
+    } catch (error) {
+      console.error('Failed to empty trash:', error);
+      toast.error('Failed to empty trash');
+    } finally {
+      setEmptyConfirmOpen(false);
+    }
+  };
+
+  return (
+    <div className="p-8">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-3xl font-bold">Trash</h2>
+          <div className="flex gap-2">
+            <Button onClick={() => setEmptyConfirmOpen(true)} variant="destructive" size="sm" disabled={items.length === 0}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Empty Trash
+            </Button>
+            <Button onClick={loadItems} variant="secondary" size="sm" disabled={loading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex items-end gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="trash-retention">Delete items automatically after (days)</Label>
+            <Input
+              id="trash-retention"
+              type="number"
+              min={0}
+              value={retentionDays}
+              onChange={(e) => setRetentionDays(e.target.value)}
+              className="w-32"
+            />
+          </div>
+          <Button onClick={handleSaveRetention} variant="secondary" size="sm">
+            Save
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Use 0 to keep items until the trash is emptied. Team items in the trash are deleted for the whole team;
+          restoring one brings it back for everyone.
+        </p>
+
+        {!loading && items.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <p>The trash is empty</p>
+          </div>
+        ) : (
+          <ul className="rounded-lg border border-border bg-card divide-y divide-border">
+            {items.map(trashed => {
+              const { item_type, item } = trashed;
+              const Icon = ITEM_ICONS[item_type];
+              return (
+                <li key={`${item_type}:${item.id}`} className="flex items-center gap-3 px-4 py-3">
+                  <Icon className="w-4 h-4 text-muted-foreground shrink-0" />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-foreground truncate flex items-center gap-2">
+                      {item.title}
+                      {item.is_team_level === 1 && <Users className="w-3 h-3 text-muted-foreground" aria-label="Team item" />}
+                    </p>
+                    <p className="text-xs text-muted-foreground" title={item.deleted_at}>
+                      {ITEM_LABELS[item_type]} · Deleted{' '}
+                      {item.deleted_at ? formatRelativeTime(parseSqliteTimestamp(item.deleted_at)) : ''}
+                      {item.deleted_by ? ` by ${item.deleted_by}` : ''}
+                    </p>
+                  </div>
+                  <Button size="sm" variant="ghost" onClick={() => handleRestore(trashed)} title="Restore">
+                    <RotateCcw className="w-4 h-4" />
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setItemToPurge(trashed)} title="Delete permanently">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <ConfirmDialog
+          open={itemToPurge !== null}
+          onOpenChange={(open) => !open && setItemToPurge(null)}
+          title={`Delete ${itemToPurge?.item.title ?? ''} permanently?`}
+          description="The item and its history will be deleted. This cannot be undone."
+          onConfirm={confirmPurge}
+          confirmText="Delete"
+          cancelText="Cancel"
+          variant="destructive"
+        />
+
+        <ConfirmDialog
+          open={emptyConfirmOpen}
+          onOpenChange={setEmptyConfirmOpen}
+          title="Empty trash?"
+          description={`All ${items.length} items in the trash will be deleted permanently. This cannot be undone.`}
+          onConfirm={confirmEmpty}
+          confirmText="Empty Trash"
+          cancelText="Cancel"
+          variant="destructive"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Kept apart from vite.config.ts so tests do not start the Electron build plugins
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
+});